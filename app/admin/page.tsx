@@ -11,9 +11,12 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { formatSatsHuman, formatDate } from '@/lib/utils';
+import { formatSatsHuman, formatDate, getExplorerTxLink } from '@/lib/utils';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
 import type { Gift } from '@/lib/supabase';
 
+const network = getConfiguredNetwork();
+
 export default function AdminPage() {
   const [password, setPassword] = useState('');
   const [authenticated, setAuthenticated] = useState(false);
@@ -152,6 +155,7 @@ export default function AdminPage() {
                   <th className="text-left p-2">Unlock Date</th>
                   <th className="text-left p-2">Status</th>
                   <th className="text-left p-2">Deposit Tx</th>
+                  <th className="text-left p-2">Descriptor</th>
                 </tr>
               </thead>
               <tbody>
@@ -159,8 +163,23 @@ export default function AdminPage() {
                   <tr key={gift.id} className="border-b hover:bg-muted/50">
                     <td className="p-2 text-sm">{formatDate(gift.created_at)}</td>
                     <td className="p-2 text-sm font-medium">{formatSatsHuman(gift.amount_sats)}</td>
-                    <td className="p-2 text-xs font-mono">{gift.beneficiary_address.slice(0, 12)}...</td>
-                    <td className="p-2 text-sm">{formatDate(gift.unlock_at)}</td>
+                    <td className="p-2 text-xs font-mono">
+                      {gift.beneficiary_address.slice(0, 12)}...
+                      {gift.recipient_count > 1 && (
+                        <span className="ml-1 font-sans text-muted-foreground">+{gift.recipient_count - 1} more</span>
+                      )}
+                      {gift.guardian_pubkeys?.length ? (
+                        <span className="ml-1 font-sans text-muted-foreground">
+                          ({gift.guardian_pubkeys.length} guardian{gift.guardian_pubkeys.length === 1 ? '' : 's'})
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="p-2 text-sm">
+                      {formatDate(gift.unlock_at)}
+                      {gift.tranche_count > 1 && (
+                        <span className="ml-1 text-xs text-muted-foreground">({gift.tranche_count} tranches)</span>
+                      )}
+                    </td>
                     <td className="p-2">
                       <span className={`text-xs px-2 py-1 rounded ${
                         gift.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
@@ -170,17 +189,37 @@ export default function AdminPage() {
                       }`}>
                         {gift.status}
                       </span>
+                      {gift.funding_mode === 'sender' && (
+                        <span className="ml-1 text-xs text-muted-foreground">sender-funded</span>
+                      )}
+                      {gift.needs_review && (
+                        <span className="ml-1 text-xs px-2 py-1 rounded bg-red-100 text-red-800">
+                          review: {gift.deposit_outcome ?? 'fee unpaid'}
+                        </span>
+                      )}
                     </td>
                     <td className="p-2 text-xs font-mono">
-                      {gift.deposit_txid ? (
+                      {gift.deposit_txid && getExplorerTxLink(gift.deposit_txid, network) ? (
                         <a 
-                          href={`https://mempool.space/testnet/tx/${gift.deposit_txid}`}
+                          href={getExplorerTxLink(gift.deposit_txid, network)!}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="hover:underline"
                         >
                           {gift.deposit_txid.slice(0, 8)}...
                         </a>
+                      ) : gift.deposit_txid ? `${gift.deposit_txid.slice(0, 8)}...` : '-'}
+                    </td>
+                    <td className="p-2 text-xs font-mono">
+                      {gift.descriptor ? (
+                        <button
+                          type="button"
+                          title={`${gift.descriptor} (click to copy)`}
+                          onClick={() => navigator.clipboard.writeText(gift.descriptor!)}
+                          className="hover:underline"
+                        >
+                          {gift.descriptor.slice(0, 16)}...
+                        </button>
                       ) : '-'}
                     </td>
                   </tr>
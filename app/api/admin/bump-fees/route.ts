@@ -0,0 +1,85 @@
+/**
+ * Bump Fees API Route
+ * 
+ * GET /api/admin/bump-fees
+ * Replaces lock transactions that have sat unconfirmed past the bump delay
+ * at a higher fee rate (RBF), falling back to CPFP through the fee output
+ * Batched lock txs spend other gifts' deposits too, so they only get CPFP
+ * 
+ * This should be called periodically (e.g., every 15 minutes) by a cron job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllGifts, recordCpfp } from '@/lib/supabase';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+import { bumpLockFee, getFeeBumpPolicy, isDueForBump } from '@/lib/feebump';
+
+// Admin auth - simple password check
+function checkAdminAuth(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const adminPassword = process.env.ADMIN_PASSWORD;
+  
+  if (!adminPassword) return false;
+  return authHeader === `Bearer ${adminPassword}`;
+}
+
+export async function GET(request: NextRequest) {
+  if (!checkAdminAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const network = getConfiguredNetwork();
+    const chain = getChainBackend(network);
+    const policy = getFeeBumpPolicy();
+    
+    const gifts = await getAllGifts();
+    // Gifts locked in one batch share a lock tx, which is bumped once
+    const dueGifts = gifts.filter(
+      (g, i) => isDueForBump(g, policy) &&
+        gifts.findIndex(other => other.lock_txid === g.lock_txid && isDueForBump(other, policy)) === i
+    );
+    
+    const results = {
+      checked: dueGifts.length,
+      replaced: 0,
+      cpfp: 0,
+      skipped: [] as string[],
+      errors: [] as string[],
+    };
+    
+    for (const gift of dueGifts) {
+      try {
+        const result = await bumpLockFee(gift, chain, network, policy);
+        
+        if (result.method === 'rbf') {
+          results.replaced++;
+          console.log(`Gift ${gift.id}: Lock replaced at ${result.feeRate} sat/vB, TX: ${result.txid}`);
+        } else if (result.method === 'cpfp') {
+          results.cpfp++;
+          const batchMates = gifts.filter(g => g.lock_txid === gift.lock_txid && g.id !== gift.id);
+          for (const mate of batchMates) {
+            await recordCpfp(mate.id, result.txid!);
+          }
+          console.log(`Gift ${gift.id}: CPFP child at ${result.feeRate} sat/vB, TX: ${result.txid} (${result.reason})`);
+        } else {
+          results.skipped.push(`Gift ${gift.id}: ${result.reason}`);
+        }
+      } catch (error) {
+        const msg = `Gift ${gift.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        results.errors.push(msg);
+        console.error(msg);
+      }
+    }
+    
+    return NextResponse.json(results);
+    
+  } catch (error) {
+    console.error('Bump fees error:', error);
+    return NextResponse.json(
+      { error: 'Failed to bump fees' },
+      { status: 500 }
+    );
+  }
+}
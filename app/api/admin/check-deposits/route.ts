@@ -3,13 +3,60 @@
  * 
  * GET /api/admin/check-deposits
  * Checks for new deposits on pending gifts and creates time-lock transactions
+ * once they have enough confirmations, then re-checks recent locks for reorgs
+ * and double-spends
+ * 
+ * With LOCK_BATCH_MODE=true, every gift ready in a run is locked in a
+ * single transaction, one CLTV output per gift
+ * 
+ * With HD_XPUB set (watch-only), lock transactions are queued as unsigned
+ * PSBTs for the external signer instead of being broadcast
+ * 
+ * Sender-funded gifts have no deposit: the sender broadcasts the lock tx
+ * from their own wallet, so this only watches for it
  * 
  * This should be called periodically (e.g., every 5 minutes) by a cron job
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getGift, lockGift, getAllGifts } from '@/lib/supabase';
-import { getUtxo, getNetwork, buildLockingTransaction, broadcastTransaction } from '@/lib/bitcoin';
+import {
+  lockGift,
+  createSigningRequest,
+  updateDeposit,
+  updateConfirmations,
+  updateLockConfirmations,
+  revertGiftToPending,
+  recordGiftEvent,
+  getAllGifts,
+  getGiftLockParts,
+  type Gift,
+} from '@/lib/supabase';
+import {
+  evaluateDeposit,
+  getDepositPolicy,
+  getConfirmationPolicy,
+  requiredConfirmations,
+  depositConfirmations,
+  type ConfirmationPolicy,
+} from '@/lib/deposits';
+import {
+  getConfiguredNetwork,
+  getGiftLockTerms,
+  getGiftLockSplits,
+  getOpReturnMode,
+  buildBatchLockingTransaction,
+  buildUnsignedBatchLockingPsbt,
+  type BatchLockResult,
+  type LockSplit,
+  type LockTerms,
+  type Network,
+  type OpReturnMode,
+  type WatchOnlyKey,
+} from '@/lib/bitcoin';
+import { getChainBackend, type ChainBackend, type Utxo } from '@/lib/chain';
+import { expireStaleSigningRequests, getGiftAccountPath, getHDDepositKey, type DepositKey } from '@/lib/signer';
+import { findSenderFundedLock } from '@/lib/funding';
+import { getGiftFeeSats } from '@/lib/fees';
 
 // Admin auth - simple password check
 function checkAdminAuth(request: NextRequest): boolean {
@@ -20,6 +67,139 @@ function checkAdminAuth(request: NextRequest): boolean {
   return authHeader === `Bearer ${adminPassword}`;
 }
 
+/**
+ * Re-check a lock tx until it is buried deep enough
+ * If it vanished, its deposit was double-spent (or the tx was evicted),
+ * so the gift goes back to pending and the next run starts over
+ */
+async function recheckLock(
+  gift: Gift,
+  chain: ChainBackend,
+  policy: ConfirmationPolicy
+): Promise<'reverted' | 'reorged' | 'ok'> {
+  const status = await chain.getTxStatus(gift.lock_txid!);
+
+  if (!status) {
+    await recordGiftEvent(gift.id, 'lock_replaced', {
+      lockTxid: gift.lock_txid,
+      depositUtxos: gift.deposit_utxos,
+    });
+    await revertGiftToPending(gift.id);
+    return 'reverted';
+  }
+
+  const confirmations = Math.min(status.confirmations, policy.reorgSafeDepth);
+  if (confirmations === gift.lock_confirmations) {
+    return 'ok';
+  }
+
+  await updateLockConfirmations(gift.id, confirmations);
+  if (confirmations < gift.lock_confirmations) {
+    await recordGiftEvent(gift.id, 'lock_reorged', {
+      lockTxid: gift.lock_txid,
+      previousConfirmations: gift.lock_confirmations,
+      confirmations,
+    });
+    return 'reorged';
+  }
+  return 'ok';
+}
+
+// A funded gift ready to be locked
+interface ReadyGift {
+  giftId: string;
+  utxos: Utxo[];
+  lockTerms: LockTerms;
+  splits?: LockSplit[]; // One output per recipient or tranche
+  feeSats: number; // From the gift's fee quote
+  key: DepositKey;
+}
+
+/**
+ * Build one lock tx for the ready gifts, leaving out gifts too small to pay their share
+ */
+function buildBatch<T>(ready: ReadyGift[], build: (ready: ReadyGift[]) => T, errors: string[]): T | null {
+  while (ready.length > 0) {
+    try {
+      return build(ready);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      const failed = ready.find(gift => msg.startsWith(`Gift ${gift.giftId}:`));
+      if (!failed) throw error;
+      errors.push(msg);
+      ready = ready.filter(gift => gift !== failed);
+    }
+  }
+  return null;
+}
+
+/**
+ * Lock ready gifts in one transaction and broadcast it, or in a watch-only
+ * deployment queue the unsigned PSBT for the external signer
+ */
+async function lockReadyGifts(
+  ready: ReadyGift[],
+  params: { feeAddress: string; opReturn: OpReturnMode; feeRate: number; network: Network },
+  chain: ChainBackend,
+  errors: string[]
+): Promise<{ lockTxid: string; locks: BatchLockResult[]; queued: boolean } | null> {
+  const toSigningLock = (lock: BatchLockResult) => {
+    const gift = ready.find(g => g.giftId === lock.giftId)!;
+    return {
+      ...lock,
+      lockTerms: gift.splits ? gift.splits.map(split => split.lockTerms) : [gift.lockTerms],
+      utxos: gift.utxos.map(({ txid, vout, amount }) => ({ txid, vout, amount })),
+    };
+  };
+
+  if (ready.every(gift => 'watchOnlyKey' in gift.key)) {
+    const unsigned = buildBatch(ready, entries => buildUnsignedBatchLockingPsbt({
+      ...params,
+      entries: entries.map(({ key, ...gift }) => ({
+        ...gift,
+        depositKey: (key as { watchOnlyKey: WatchOnlyKey }).watchOnlyKey,
+      })),
+    }), errors);
+    if (!unsigned) return null;
+
+    await createSigningRequest({
+      psbt: unsigned.psbt,
+      txid: unsigned.txid,
+      feeRate: params.feeRate,
+      vsize: unsigned.vsize,
+      locks: unsigned.locks.map(toSigningLock),
+    });
+    return { lockTxid: unsigned.txid, locks: unsigned.locks, queued: true };
+  }
+
+  const lockTx = buildBatch(ready, entries => buildBatchLockingTransaction({
+    ...params,
+    entries: entries.map(({ key, ...gift }) => ({
+      ...gift,
+      hotWalletWif: (key as { hotWalletWif: string }).hotWalletWif,
+    })),
+  }), errors);
+  if (!lockTx) return null;
+
+  const lockTxid = await chain.broadcast(lockTx.txHex);
+
+  for (const lock of lockTx.locks) {
+    await lockGift(lock.giftId, {
+      utxos: toSigningLock(lock).utxos,
+      lockTxid,
+      lockVout: lock.vout,
+      outputs: lock.outputs,
+      batchSize: lockTx.locks.length,
+      serviceFeeSats: lock.serviceFeeSats,
+      minerFeeSats: lock.minerFeeSats,
+      lockedAmountSats: lock.lockedAmountSats,
+      feeRate: params.feeRate,
+      vsize: lockTx.vsize,
+    });
+  }
+  return { lockTxid, locks: lockTx.locks, queued: false };
+}
+
 export async function GET(request: NextRequest) {
   // Check admin auth
   if (!checkAdminAuth(request)) {
@@ -27,91 +207,238 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
-    const mempoolUrl = process.env.NEXT_PUBLIC_MEMPOOL_URL || 
-      (network === 'mainnet' ? 'https://mempool.space/api' : 'https://mempool.space/testnet/api');
+    const network = getConfiguredNetwork();
+    const chain = getChainBackend(network);
+    
+    // Confirmations are counted from the tip, so without it we can't lock safely
+    const tipHeight = await chain.getTipHeight();
+    if (tipHeight === null) {
+      return NextResponse.json(
+        { error: 'Failed to fetch block height' },
+        { status: 502 }
+      );
+    }
     
-    // Get all pending gifts
     const gifts = await getAllGifts();
-    const pendingGifts = gifts.filter(g => g.status === 'pending');
+    const confirmationPolicy = getConfirmationPolicy();
     
     const results = {
-      checked: pendingGifts.length,
+      checked: 0,
       depositsFound: 0,
+      awaitingConfirmations: 0,
+      awaitingSignature: 0,
+      signaturesExpired: 0,
       locked: 0,
+      flagged: 0,
+      locksChecked: 0,
+      reverted: 0,
+      reorged: 0,
       errors: [] as string[],
     };
     
+    // Re-check recent locks first, a reverted gift is picked up as pending below
+    const recentLocks = gifts.filter(
+      g => g.status === 'locked' && g.lock_txid && g.lock_confirmations < confirmationPolicy.reorgSafeDepth
+    );
+    for (const gift of recentLocks) {
+      try {
+        const outcome = await recheckLock(gift, chain, confirmationPolicy);
+        results.locksChecked++;
+        if (outcome === 'reverted') {
+          results.reverted++;
+          gift.status = 'pending';
+          gift.received_sats = 0;
+          console.log(`Gift ${gift.id}: Lock TX ${gift.lock_txid} is gone, back to pending`);
+        } else if (outcome === 'reorged') {
+          results.reorged++;
+          console.log(`Gift ${gift.id}: Lock TX ${gift.lock_txid} lost confirmations in a reorg`);
+        }
+      } catch (error) {
+        const msg = `Gift ${gift.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        results.errors.push(msg);
+        console.error(msg);
+      }
+    }
+    
+    const pendingGifts = gifts.filter(g => g.status === 'pending');
+    results.checked = pendingGifts.length;
+    
+    // Lock PSBTs the signer left too long, or whose deposits changed, are
+    // expired so their gifts get a fresh one below
+    try {
+      const released = await expireStaleSigningRequests(pendingGifts, chain, results.errors);
+      for (const gift of pendingGifts) {
+        if (released.includes(gift.id)) {
+          gift.signing_request_id = null;
+          console.log(`Gift ${gift.id}: Lock PSBT expired, building a new one`);
+        }
+      }
+      results.signaturesExpired = released.length;
+    } catch (error) {
+      const msg = `Signing requests: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      results.errors.push(msg);
+      console.error(msg);
+    }
+
+    // One fee estimate and deposit policy for the whole run
+    const feeRate = await chain.getFeeRate();
+    const depositPolicy = getDepositPolicy();
+    const feeAddress = process.env.FEE_ADDRESS;
+    const opReturn = getOpReturnMode();
+    
+    // Gifts waiting for the batch lock tx, in batch mode
+    const batchMode = process.env.LOCK_BATCH_MODE === 'true';
+    const batch: ReadyGift[] = [];
+    
     // Check each pending gift for deposits
     for (const gift of pendingGifts) {
+      // Already built, the lock tx is with the external signer
+      if (gift.signing_request_id) {
+        results.awaitingSignature++;
+        continue;
+      }
+      
       try {
-        const utxo = await getUtxo(gift.deposit_address, mempoolUrl);
+        // Sender-funded: the lock tx comes from the sender's wallet
+        if (gift.funding_mode === 'sender' || !gift.deposit_address) {
+          if (!feeAddress) {
+            results.errors.push(`Gift ${gift.id}: No fee address configured`);
+            continue;
+          }
+          const parts = await getGiftLockParts(gift);
+          if (!parts) {
+            results.errors.push(`Gift ${gift.id}: Recipients or tranches missing`);
+            continue;
+          }
+          
+          const lock = await findSenderFundedLock(gift, parts, chain, network, feeAddress);
+          if (!lock) {
+            continue; // Not broadcast yet
+          }
+          
+          await lockGift(gift.id, {
+            utxos: lock.utxos,
+            lockTxid: lock.lockTxid,
+            lockVout: lock.lockVout,
+            outputs: lock.outputs,
+            serviceFeeSats: lock.serviceFeeSats,
+            minerFeeSats: lock.minerFeeSats,
+            lockedAmountSats: lock.lockedAmountSats,
+            feeRate: lock.feeRate,
+            vsize: lock.vsize,
+          });
+          
+          // Locked all the same, the funds are the beneficiary's now
+          await updateDeposit(gift.id, {
+            receivedSats: lock.lockedAmountSats,
+            needsReview: !lock.feePaid,
+          });
+          if (!lock.feePaid) {
+            results.flagged++;
+            console.log(`Gift ${gift.id}: Sender-funded lock doesn't pay the service fee, flagged for review`);
+          }
+          results.locked++;
+          console.log(`Gift ${gift.id}: Sender-funded lock found, Lock TX: ${lock.lockTxid}`);
+          continue;
+        }
+        
+        // A failed lookup throws, skipping the gift, rather than reading as no deposit
+        const utxos = await chain.getUtxos(gift.deposit_address);
+        const receivedSats = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
         
-        if (!utxo) {
+        // Nothing spends a pending deposit but us, so less than last time means
+        // a deposit was replaced (RBF) or reorged out
+        if (receivedSats < gift.received_sats) {
+          await recordGiftEvent(gift.id, 'deposit_replaced', {
+            previousSats: gift.received_sats,
+            receivedSats,
+          });
+          await updateDeposit(gift.id, { receivedSats });
+          console.log(`Gift ${gift.id}: Deposit dropped from ${gift.received_sats} to ${receivedSats} sats`);
+        }
+        
+        if (utxos.length === 0) {
           continue; // No deposit yet
         }
         
         results.depositsFound++;
         
-        // Check if we have enough confirmations (at least 1)
-        if (utxo.amount < 6000) {
-          console.log(`Gift ${gift.id}: Deposit too small (${utxo.amount} sats)`);
+        // Compare everything received with the gift amount
+        const decision = evaluateDeposit(receivedSats, gift.amount_sats, depositPolicy);
+        await updateDeposit(gift.id, {
+          receivedSats,
+          outcome: decision.outcome,
+          needsReview: decision.action === 'flag',
+        });
+        
+        if (decision.action === 'wait') {
+          console.log(`Gift ${gift.id}: Waiting, received ${receivedSats} of ${gift.amount_sats} sats`);
           continue;
         }
         
-        // Get the private key for this HD index
-        const hdSeed = process.env.HD_SEED;
-        const hdIndex = gift.hd_index;
-        
-        if (!hdSeed || hdIndex === null) {
-          results.errors.push(`Gift ${gift.id}: No HD seed or index`);
+        if (decision.action === 'flag') {
+          results.flagged++;
+          console.log(`Gift ${gift.id}: Flagged for review (${decision.outcome}, ${receivedSats} of ${gift.amount_sats} sats)`);
           continue;
         }
         
-        // Import dynamically to avoid issues
-        const { generateHDFeatureAddress } = await import('@/lib/bitcoin');
-        
-        const { privateKey } = generateHDFeatureAddress(hdSeed, hdIndex, network);
-        
-        // Calculate unlock timestamp
-        const unlockTimestamp = Math.floor(new Date(gift.unlock_at).getTime() / 1000);
+        // Wait for every deposit UTXO to be buried deep enough for its size
+        const confirmations = depositConfirmations(utxos, tipHeight);
+        await updateConfirmations(gift.id, confirmations);
+        const required = requiredConfirmations(receivedSats, confirmationPolicy);
+        if (confirmations < required) {
+          results.awaitingConfirmations++;
+          console.log(`Gift ${gift.id}: Waiting for confirmations (${confirmations}/${required})`);
+          continue;
+        }
         
-        // Build and broadcast the lock transaction
-        const feePercent = parseFloat(process.env.FEE_PERCENT || '1');
-        const feeAddress = process.env.FEE_ADDRESS;
+        // Get the key for this HD index
+        if (gift.hd_index === null) {
+          results.errors.push(`Gift ${gift.id}: No HD index`);
+          continue;
+        }
+        const { key } = getHDDepositKey(gift.hd_index, network, getGiftAccountPath(gift, network));
         
         if (!feeAddress) {
           results.errors.push(`Gift ${gift.id}: No fee address configured`);
           continue;
         }
         
-        const lockTx = buildLockingTransaction({
-          utxoTxId: utxo.txid,
-          utxoVout: utxo.vout,
-          utxoAmountSats: utxo.amount,
-          hotWalletWif: privateKey,
-          beneficiaryAddress: gift.beneficiary_address,
-          unlockTimestamp,
-          feePercent,
-          feeAddress,
-          claimUrl: `https://lockgift.vercel.app/gift/${gift.id}`,
-          network,
-        });
+        // Split gifts and vesting schedules lock one output per recipient or tranche
+        const parts = await getGiftLockParts(gift);
+        if (!parts) {
+          results.errors.push(`Gift ${gift.id}: Recipients or tranches missing`);
+          continue;
+        }
         
-        // Broadcast the lock transaction
-        const lockTxid = await broadcastTransaction(lockTx.psbt, mempoolUrl);
+        const readyGift = {
+          giftId: gift.id,
+          utxos,
+          lockTerms: getGiftLockTerms(gift),
+          splits: getGiftLockSplits(gift, parts),
+          feeSats: getGiftFeeSats(gift, receivedSats),
+          key,
+        };
+        if (batchMode) {
+          batch.push(readyGift);
+          continue;
+        }
         
-        // Update gift status
-        await lockGift(gift.id, {
-          depositTxid: utxo.txid,
-          lockTxid,
-          utxoTxid: utxo.txid,
-          utxoVout: utxo.vout,
-          utxoAmountSats: utxo.amount,
-        });
+        // Build and broadcast the lock transaction
+        const lock = await lockReadyGifts([readyGift], {
+          feeAddress,
+          opReturn,
+          feeRate,
+          network,
+        }, chain, results.errors);
         
-        results.locked++;
-        console.log(`Gift ${gift.id}: Locked! Deposit: ${utxo.amount} sats, Lock TX: ${lockTxid}`);
+        if (lock?.queued) {
+          results.awaitingSignature++;
+          console.log(`Gift ${gift.id}: Lock PSBT queued for the signer, TX: ${lock.lockTxid}`);
+        } else if (lock) {
+          results.locked++;
+          console.log(`Gift ${gift.id}: Locked! Deposit: ${receivedSats} sats in ${utxos.length} UTXO(s), Lock TX: ${lock.lockTxid}`);
+        }
         
       } catch (error) {
         const msg = `Gift ${gift.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -120,6 +447,30 @@ export async function GET(request: NextRequest) {
       }
     }
     
+    // One lock transaction for every gift collected in batch mode
+    if (batch.length > 0 && feeAddress) {
+      try {
+        const lock = await lockReadyGifts(batch, {
+          feeAddress,
+          opReturn,
+          feeRate,
+          network,
+        }, chain, results.errors);
+        
+        if (lock?.queued) {
+          results.awaitingSignature += lock.locks.length;
+          console.log(`Batch of ${lock.locks.length} gift(s) queued for the signer, TX: ${lock.lockTxid}`);
+        } else if (lock) {
+          results.locked += lock.locks.length;
+          console.log(`Locked ${lock.locks.length} gift(s) in one batch, Lock TX: ${lock.lockTxid}`);
+        }
+      } catch (error) {
+        const msg = `Batch lock: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        results.errors.push(msg);
+        console.error(msg);
+      }
+    }
+    
     return NextResponse.json(results);
     
   } catch (error) {
@@ -0,0 +1,92 @@
+/**
+ * Scan Funds API Route
+ *
+ * GET /api/admin/scan-funds?accountPath=m/84'/0'/0'&gap=20&start=0
+ * Scans HD deposit addresses up to a gap limit for unspent funds, including
+ * indices with no gift row, and flags funds no pending gift will pick up
+ *
+ * Without accountPath, the configured account and the legacy BIP44 account
+ * (where gifts were derived before BIP84) are both scanned
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAllGifts } from '@/lib/supabase';
+import {
+  getAccountPath,
+  getConfiguredAccountPath,
+  getConfiguredNetwork,
+  isValidAccountPath,
+} from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+import { DEFAULT_GAP_LIMIT, scanHDFunds, type HDScanResult } from '@/lib/hdscan';
+
+// Admin auth - simple password check
+function checkAdminAuth(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  const adminPassword = process.env.ADMIN_PASSWORD;
+
+  if (!adminPassword) return false;
+  return authHeader === `Bearer ${adminPassword}`;
+}
+
+// Each address costs a request or two to the chain backend
+const MAX_GAP_LIMIT = 500;
+
+export async function GET(request: NextRequest) {
+  if (!checkAdminAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const gapLimit = Number(searchParams.get('gap') ?? DEFAULT_GAP_LIMIT);
+  const startIndex = Number(searchParams.get('start') ?? 0);
+  const requestedPath = searchParams.get('accountPath');
+
+  if (!Number.isInteger(gapLimit) || gapLimit < 1 || gapLimit > MAX_GAP_LIMIT) {
+    return NextResponse.json(
+      { error: `Gap limit must be 1 to ${MAX_GAP_LIMIT}` },
+      { status: 400 }
+    );
+  }
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    return NextResponse.json({ error: 'Invalid start index' }, { status: 400 });
+  }
+  if (requestedPath && !isValidAccountPath(requestedPath)) {
+    return NextResponse.json({ error: 'Invalid account path' }, { status: 400 });
+  }
+
+  try {
+    const network = getConfiguredNetwork();
+    const chain = getChainBackend(network);
+    const gifts = await getAllGifts();
+
+    const configuredPath = getConfiguredAccountPath(network);
+    const legacyPath = getAccountPath(network, 'bip44');
+    const accountPaths = requestedPath
+      ? [requestedPath]
+      : [configuredPath, legacyPath].filter((path, i, paths) => paths.indexOf(path) === i);
+
+    const accounts: HDScanResult[] = [];
+    const errors: string[] = [];
+    for (const accountPath of accountPaths) {
+      try {
+        accounts.push(await scanHDFunds(chain, network, gifts, { accountPath, gapLimit, startIndex }));
+      } catch (error) {
+        errors.push(`${accountPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return NextResponse.json({
+      accounts,
+      strandedSats: accounts.reduce((sum, account) => sum + account.strandedSats, 0),
+      errors,
+    });
+
+  } catch (error) {
+    console.error('Scan funds error:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan funds' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Chain Tip API Route
+ *
+ * GET /api/chain/tip
+ * Get the current block height (for block-height unlock estimates)
+ */
+
+import { NextResponse } from 'next/server';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+
+export async function GET() {
+  try {
+    const network = getConfiguredNetwork();
+    const height = await getChainBackend(network).getTipHeight();
+    if (height === null) {
+      return NextResponse.json(
+        { message: 'Failed to fetch block height' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ height });
+  } catch (error) {
+    console.error('Chain tip error:', error);
+    return NextResponse.json(
+      { message: 'Failed to fetch block height' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Fee Quote API Route
+ *
+ * GET /api/fees/quote?amountSats=...&unlockAt=...&promoCode=...
+ * Quote the service fee a gift would be charged, as the create route would
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { differenceInDays } from 'date-fns';
+import { getFeePolicy, quoteFee } from '@/lib/fees';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const amountSats = parseInt(searchParams.get('amountSats') || '', 10);
+    const unlockAt = new Date(searchParams.get('unlockAt') || '');
+
+    if (!Number.isFinite(amountSats) || amountSats <= 0) {
+      return NextResponse.json(
+        { message: 'Invalid amount' },
+        { status: 400 }
+      );
+    }
+    if (isNaN(unlockAt.getTime())) {
+      return NextResponse.json(
+        { message: 'Invalid unlock date' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const fee = quoteFee({
+        amountSats,
+        lockDays: Math.max(0, differenceInDays(unlockAt, new Date())),
+        promoCode: searchParams.get('promoCode'),
+      }, getFeePolicy());
+      return NextResponse.json(fee);
+    } catch (e) {
+      return NextResponse.json(
+        { message: e instanceof Error ? e.message : 'Invalid promo code' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Fee quote error:', error);
+    return NextResponse.json(
+      { message: 'Failed to quote fee' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Claim Gift API Route
+ *
+ * GET /api/gifts/[id]/claim?address=...&recipient=...
+ * Build an unsigned claim PSBT for the beneficiary to sign in their own wallet
+ *
+ * POST /api/gifts/[id]/claim
+ * Accept the signed PSBT, finalize it, broadcast it and mark the gift claimed
+ *
+ * A split gift is claimed one recipient at a time (recipient / recipientId),
+ * a vesting schedule one tranche at a time (tranche / trancheId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGift,
+  isGiftTranche,
+  type Gift,
+  type GiftLockPart,
+} from '@/lib/supabase';
+import {
+  buildClaimTransaction,
+  finalizeClaimTransaction,
+  findLockOutput,
+  getGiftLockTerms,
+  validateAddress,
+} from '@/lib/bitcoin';
+import { BroadcastError, broadcastErrorStatus } from '@/lib/broadcast';
+import type { ChainBackend } from '@/lib/chain';
+import { getSpendConfig, getSpendPart, getSpendVout, recordSpend } from '@/lib/spend';
+
+/**
+ * Check that a gift (or one tranche of it) can be claimed right now
+ * A block-height lock is spendable once the tip reaches the unlock height
+ */
+async function checkClaimable(gift: Gift, chain: ChainBackend, part: GiftLockPart | null): Promise<string | null> {
+  if (gift.status !== 'locked') {
+    return 'Gift is not locked';
+  }
+  if (part && isGiftTranche(part)) {
+    return new Date(part.unlock_at) > new Date() ? 'This tranche is still time-locked' : null;
+  }
+  if (gift.unlock_height !== null) {
+    const tipHeight = await chain.getTipHeight();
+    if (tipHeight === null || tipHeight < gift.unlock_height) {
+      return 'Gift is still time-locked';
+    }
+    return null;
+  }
+  if (new Date(gift.unlock_at) > new Date()) {
+    return 'Gift is still time-locked';
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const gift = await getGift(id);
+
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { network, chain } = getSpendConfig();
+
+    const { part, error: partError } = await getSpendPart(
+      gift,
+      request.nextUrl.searchParams.get('recipient'),
+      request.nextUrl.searchParams.get('tranche'),
+      'claim'
+    );
+    if (partError) {
+      return NextResponse.json({ message: partError }, { status: 400 });
+    }
+
+    const notClaimable = await checkClaimable(gift, chain, part);
+    if (notClaimable) {
+      return NextResponse.json({ message: notClaimable }, { status: 400 });
+    }
+
+    // Default to the beneficiary address given when the gift was created
+    const destinationAddress = request.nextUrl.searchParams.get('address')
+      || (part && !isGiftTranche(part) ? part.beneficiary_address : gift.beneficiary_address);
+    if (!validateAddress(destinationAddress, network)) {
+      return NextResponse.json({ message: 'Invalid Bitcoin address' }, { status: 400 });
+    }
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    const lockTerms = getGiftLockTerms(gift, part);
+    const lockOutput = await findLockOutput(
+      gift.lock_txid!,
+      lockTerms,
+      network,
+      chain,
+      lockVout
+    );
+    if (!lockOutput) {
+      return NextResponse.json({ message: 'Lock output not found' }, { status: 404 });
+    }
+
+    const feeRate = await chain.getFeeRate();
+    const claim = buildClaimTransaction({
+      lockTxId: gift.lock_txid!,
+      lockVout: lockOutput.vout,
+      lockAmountSats: lockOutput.amount,
+      lockTerms,
+      destinationAddress,
+      feeRate,
+      network,
+    });
+
+    return NextResponse.json({
+      psbt: claim.psbt,
+      destinationAddress,
+      claimAmount: claim.claimAmountSats,
+      feeAmount: claim.feeSats,
+    });
+  } catch (error) {
+    console.error('Build claim error:', error);
+    return NextResponse.json(
+      { message: 'Failed to build claim transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { psbt, recipientId, trancheId } = await request.json();
+
+    if (!psbt) {
+      return NextResponse.json({ message: 'Signed PSBT required' }, { status: 400 });
+    }
+
+    const gift = await getGift(id);
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { network, chain } = getSpendConfig();
+
+    const { part, error: partError } = await getSpendPart(gift, recipientId || null, trancheId || null, 'claim');
+    if (partError) {
+      return NextResponse.json({ message: partError }, { status: 400 });
+    }
+
+    const notClaimable = await checkClaimable(gift, chain, part);
+    if (notClaimable) {
+      return NextResponse.json({ message: notClaimable }, { status: 400 });
+    }
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    let finalized: ReturnType<typeof finalizeClaimTransaction>;
+    try {
+      finalized = finalizeClaimTransaction(
+        psbt,
+        getGiftLockTerms(gift, part),
+        'beneficiary',
+        gift.lock_txid!,
+        network,
+        lockVout
+      );
+    } catch (finalizeError) {
+      return NextResponse.json(
+        { message: finalizeError instanceof Error ? finalizeError.message : 'Invalid PSBT' },
+        { status: 400 }
+      );
+    }
+
+    // Note: for time locks, nodes reject the claim until median time past
+    // reaches the unlock time, which can lag the wall clock by about an hour
+    const claimTxid = await chain.broadcast(finalized.txHex);
+
+    // Recorded by the branch actually spent, which the finalizer checked
+    await recordSpend(gift, part, finalized.spendPath, claimTxid);
+
+    return NextResponse.json({
+      success: true,
+      claimTxId: claimTxid,
+    });
+  } catch (error) {
+    console.error('Claim error:', error);
+    if (error instanceof BroadcastError) {
+      return NextResponse.json(
+        { message: error.message, reason: error.kind },
+        { status: broadcastErrorStatus(error) }
+      );
+    }
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to claim gift' },
+      { status: 500 }
+    );
+  }
+}
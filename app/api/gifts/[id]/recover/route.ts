@@ -0,0 +1,198 @@
+/**
+ * Recover Gift API Route
+ *
+ * GET /api/gifts/[id]/recover?address=...&recipient=...
+ * Build an unsigned recovery PSBT for the sender to sign with their recovery key
+ *
+ * POST /api/gifts/[id]/recover
+ * Accept the signed PSBT, finalize it, broadcast it and mark the gift expired
+ *
+ * A split gift is recovered one recipient's output at a time (recipient / recipientId),
+ * a vesting schedule one tranche at a time (tranche / trancheId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGift,
+  isGiftTranche,
+  type Gift,
+  type GiftLockPart,
+} from '@/lib/supabase';
+import {
+  buildRecoveryTransaction,
+  finalizeClaimTransaction,
+  findLockOutput,
+  getGiftLockTerms,
+  validateAddress,
+} from '@/lib/bitcoin';
+import { BroadcastError, broadcastErrorStatus } from '@/lib/broadcast';
+import { getSpendConfig, getSpendPart, getSpendVout, recordSpend } from '@/lib/spend';
+
+/**
+ * Check that a gift (or one tranche of it) can be recovered right now
+ */
+function checkRecoverable(gift: Gift, part: GiftLockPart | null): string | null {
+  const recoveryAt = part && isGiftTranche(part) ? part.recovery_at : gift.recovery_at;
+  if (gift.status !== 'locked') {
+    return 'Gift is not locked';
+  }
+  if (!gift.recovery_pubkey || !recoveryAt) {
+    return 'Gift has no recovery key';
+  }
+  if (new Date(recoveryAt) > new Date()) {
+    return 'Recovery is not available yet';
+  }
+  return null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const gift = await getGift(id);
+
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { part, error: partError } = await getSpendPart(
+      gift,
+      request.nextUrl.searchParams.get('recipient'),
+      request.nextUrl.searchParams.get('tranche'),
+      'recover'
+    );
+    if (partError) {
+      return NextResponse.json({ message: partError }, { status: 400 });
+    }
+
+    const notRecoverable = checkRecoverable(gift, part);
+    if (notRecoverable) {
+      return NextResponse.json({ message: notRecoverable }, { status: 400 });
+    }
+
+    const { network, chain } = getSpendConfig();
+
+    const destinationAddress = request.nextUrl.searchParams.get('address') || '';
+    if (!validateAddress(destinationAddress, network)) {
+      return NextResponse.json({ message: 'Invalid Bitcoin address' }, { status: 400 });
+    }
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    const lockTerms = getGiftLockTerms(gift, part);
+    const lockOutput = await findLockOutput(
+      gift.lock_txid!,
+      lockTerms,
+      network,
+      chain,
+      lockVout
+    );
+    if (!lockOutput) {
+      return NextResponse.json({ message: 'Lock output not found' }, { status: 404 });
+    }
+
+    const feeRate = await chain.getFeeRate();
+    const recovery = buildRecoveryTransaction({
+      lockTxId: gift.lock_txid!,
+      lockVout: lockOutput.vout,
+      lockAmountSats: lockOutput.amount,
+      lockTerms,
+      destinationAddress,
+      feeRate,
+      network,
+    });
+
+    return NextResponse.json({
+      psbt: recovery.psbt,
+      destinationAddress,
+      recoveryAmount: recovery.claimAmountSats,
+      feeAmount: recovery.feeSats,
+    });
+  } catch (error) {
+    console.error('Build recovery error:', error);
+    return NextResponse.json(
+      { message: 'Failed to build recovery transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { psbt, recipientId, trancheId } = await request.json();
+
+    if (!psbt) {
+      return NextResponse.json({ message: 'Signed PSBT required' }, { status: 400 });
+    }
+
+    const gift = await getGift(id);
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { part, error: partError } = await getSpendPart(gift, recipientId || null, trancheId || null, 'recover');
+    if (partError) {
+      return NextResponse.json({ message: partError }, { status: 400 });
+    }
+
+    const notRecoverable = checkRecoverable(gift, part);
+    if (notRecoverable) {
+      return NextResponse.json({ message: notRecoverable }, { status: 400 });
+    }
+
+    const { network, chain } = getSpendConfig();
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    let finalized: ReturnType<typeof finalizeClaimTransaction>;
+    try {
+      finalized = finalizeClaimTransaction(
+        psbt,
+        getGiftLockTerms(gift, part),
+        'recovery',
+        gift.lock_txid!,
+        network,
+        lockVout
+      );
+    } catch (finalizeError) {
+      return NextResponse.json(
+        { message: finalizeError instanceof Error ? finalizeError.message : 'Invalid PSBT' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryTxid = await chain.broadcast(finalized.txHex);
+
+    // Recorded by the branch actually spent, which the finalizer checked
+    await recordSpend(gift, part, finalized.spendPath, recoveryTxid);
+
+    return NextResponse.json({
+      success: true,
+      recoveryTxId: recoveryTxid,
+    });
+  } catch (error) {
+    console.error('Recovery error:', error);
+    if (error instanceof BroadcastError) {
+      return NextResponse.json(
+        { message: error.message, reason: error.kind },
+        { status: broadcastErrorStatus(error) }
+      );
+    }
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to recover gift' },
+      { status: 500 }
+    );
+  }
+}
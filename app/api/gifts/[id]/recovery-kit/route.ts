@@ -0,0 +1,102 @@
+/**
+ * Recovery Kit API Route
+ * 
+ * GET /api/gifts/[id]/recovery-kit?format=json|txt&recipient=...|tranche=...
+ * Download what the beneficiary needs to claim without LockGift: witness
+ * script, descriptor, lock outpoint, amount, locktime and spending steps
+ * Each recipient of a split gift, and each tranche of a schedule, has a kit of its own
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGift, getGiftRecipient, getGiftTranche, type GiftLockPart } from '@/lib/supabase';
+import { findLockOutput, getConfiguredNetwork, getGiftLockTerms } from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+import { buildRecoveryKit, formatRecoveryKitText } from '@/lib/recoverykit';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (format !== 'json' && format !== 'txt') {
+      return NextResponse.json(
+        { message: 'Format must be json or txt' },
+        { status: 400 }
+      );
+    }
+
+    const gift = await getGift(id);
+
+    if (!gift) {
+      return NextResponse.json(
+        { message: 'Gift not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!gift.lock_txid) {
+      return NextResponse.json(
+        { message: 'Gift is not locked yet' },
+        { status: 400 }
+      );
+    }
+
+    // Gifts locked in several outputs are handled one output at a time
+    const searchParams = request.nextUrl.searchParams;
+    const recipientId = searchParams.get('recipient');
+    const trancheId = searchParams.get('tranche');
+    let part: GiftLockPart | null = null;
+    if (gift.tranche_count > 1) {
+      part = trancheId ? await getGiftTranche(gift.id, trancheId) : null;
+    } else if (gift.recipient_count > 1) {
+      part = recipientId ? await getGiftRecipient(gift.id, recipientId) : null;
+    }
+
+    if (Math.max(gift.recipient_count, gift.tranche_count) > 1 && !part) {
+      return NextResponse.json(
+        { message: 'Choose which recipient or tranche the kit is for' },
+        { status: 400 }
+      );
+    }
+
+    const network = getConfiguredNetwork();
+    const recordedVout = part ? part.lock_vout : gift.lock_vout;
+    const recordedAmount = part ? part.locked_amount_sats : gift.locked_amount_sats;
+
+    // Gifts locked before outputs were recorded need a lookup
+    const lockOutput = recordedVout !== null && recordedAmount !== null
+      ? { vout: recordedVout, amount: recordedAmount }
+      : await findLockOutput(gift.lock_txid, getGiftLockTerms(gift, part), network, getChainBackend(network));
+
+    if (!lockOutput) {
+      return NextResponse.json(
+        { message: 'Lock output not found' },
+        { status: 404 }
+      );
+    }
+
+    const kit = buildRecoveryKit(gift, lockOutput, network, part);
+    const filename = part
+      ? `lockgift-recovery-kit-${gift.id}-${part.position + 1}.${format}`
+      : `lockgift-recovery-kit-${gift.id}.${format}`;
+
+    return new NextResponse(
+      format === 'txt' ? formatRecoveryKitText(kit) : JSON.stringify(kit, null, 2),
+      {
+        headers: {
+          'Content-Type': format === 'txt' ? 'text/plain; charset=utf-8' : 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Recovery kit error:', error);
+    return NextResponse.json(
+      { message: 'Failed to build recovery kit' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Guardian Release Signing API Route
+ *
+ * POST /api/gifts/[id]/release/[requestId]
+ * Add a co-signer's signature to a release request. Once the beneficiary
+ * and any one guardian have signed, finalize and broadcast the release,
+ * which counts as the beneficiary's claim
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGift,
+  getReleaseRequest,
+  updateReleaseRequestPsbt,
+  closeReleaseRequest,
+  recordGiftEvent,
+} from '@/lib/supabase';
+import {
+  combineReleasePsbt,
+  finalizeReleaseTransaction,
+  getGiftLockTerms,
+  getReleaseSignatures,
+} from '@/lib/bitcoin';
+import { BroadcastError, broadcastErrorStatus } from '@/lib/broadcast';
+import { getSpendConfig, getSpendPart, getSpendVout, recordSpend } from '@/lib/spend';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  try {
+    const { id, requestId } = await params;
+    const { psbt } = await request.json();
+
+    if (!psbt) {
+      return NextResponse.json({ message: 'Signed PSBT required' }, { status: 400 });
+    }
+
+    const gift = await getGift(id);
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const releaseRequest = await getReleaseRequest(gift.id, requestId);
+    if (!releaseRequest) {
+      return NextResponse.json({ message: 'Release request not found' }, { status: 404 });
+    }
+    if (releaseRequest.status !== 'pending') {
+      return NextResponse.json({ message: 'Release was already broadcast' }, { status: 400 });
+    }
+
+    const { part, error: partError } = await getSpendPart(
+      gift,
+      releaseRequest.recipient_id,
+      releaseRequest.tranche_id,
+      'release'
+    );
+    if (partError || gift.status !== 'locked') {
+      return NextResponse.json({ message: partError || 'This output is already spent' }, { status: 400 });
+    }
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    const { network, chain } = getSpendConfig();
+    const lockTerms = getGiftLockTerms(gift, part);
+
+    let merged: string;
+    try {
+      merged = combineReleasePsbt(releaseRequest.psbt, psbt, releaseRequest.unsigned_txid, network);
+    } catch (combineError) {
+      return NextResponse.json(
+        { message: combineError instanceof Error ? combineError.message : 'Invalid PSBT' },
+        { status: 400 }
+      );
+    }
+    await updateReleaseRequestPsbt(releaseRequest.id, merged);
+
+    const signatures = getReleaseSignatures(merged, lockTerms, network);
+    const signedByBeneficiary = !!signatures.beneficiary;
+    const signedByGuardians = signatures.guardians.map(sig => sig !== null);
+
+    // Still waiting for the other co-signer
+    if (!signedByBeneficiary || !signedByGuardians.includes(true)) {
+      return NextResponse.json({
+        success: true,
+        broadcast: false,
+        psbt: merged,
+        signedByBeneficiary,
+        signedByGuardians,
+      });
+    }
+
+    const finalized = finalizeReleaseTransaction(
+      merged,
+      lockTerms,
+      gift.lock_txid!,
+      network,
+      lockVout
+    );
+    const releaseTxid = await chain.broadcast(finalized.txHex);
+    await closeReleaseRequest(releaseRequest.id, releaseTxid);
+
+    // The beneficiary signed for the funds, so an early release is their claim
+    await recordSpend(gift, part, 'beneficiary', releaseTxid);
+    await recordGiftEvent(gift.id, 'guardian_release', {
+      requestId: releaseRequest.id,
+      txid: releaseTxid,
+      recipientId: releaseRequest.recipient_id,
+      trancheId: releaseRequest.tranche_id,
+      guardians: signedByGuardians,
+    });
+
+    return NextResponse.json({
+      success: true,
+      broadcast: true,
+      releaseTxId: releaseTxid,
+      signedByBeneficiary,
+      signedByGuardians,
+    });
+  } catch (error) {
+    console.error('Release signing error:', error);
+    if (error instanceof BroadcastError) {
+      return NextResponse.json(
+        { message: error.message, reason: error.kind },
+        { status: broadcastErrorStatus(error) }
+      );
+    }
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to sign release' },
+      { status: 500 }
+    );
+  }
+}
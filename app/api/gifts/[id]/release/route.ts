@@ -0,0 +1,172 @@
+/**
+ * Guardian Release API Route
+ *
+ * GET /api/gifts/[id]/release
+ * List the gift's early-release requests and who has signed each so far
+ *
+ * POST /api/gifts/[id]/release
+ * Start an early release: build the unsigned PSBT that the beneficiary and
+ * any one guardian sign, then post back to /release/[requestId]
+ *
+ * A split gift is released one recipient at a time (recipientId),
+ * a vesting schedule one tranche at a time (trancheId)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getGift,
+  getReleaseRequests,
+  createReleaseRequest,
+  isGiftTranche,
+  type Gift,
+} from '@/lib/supabase';
+import {
+  buildReleaseTransaction,
+  findLockOutput,
+  getGiftLockTerms,
+  getReleaseSignatures,
+  validateAddress,
+} from '@/lib/bitcoin';
+import { getSpendConfig, getSpendPart, getSpendVout } from '@/lib/spend';
+
+/**
+ * Check that a gift can be released early
+ */
+function checkReleasable(gift: Gift): string | null {
+  if (!gift.guardian_pubkeys?.length) {
+    return 'Gift has no guardians';
+  }
+  if (gift.status !== 'locked') {
+    return 'Gift is not locked';
+  }
+  return null;
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const gift = await getGift(id);
+
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { network } = getSpendConfig();
+    const releaseRequests = await getReleaseRequests(gift.id);
+
+    const requests = await Promise.all(releaseRequests.map(async releaseRequest => {
+      const { part } = await getSpendPart(gift, releaseRequest.recipient_id, releaseRequest.tranche_id, 'release');
+      const signatures = getReleaseSignatures(releaseRequest.psbt, getGiftLockTerms(gift, part), network);
+      return {
+        id: releaseRequest.id,
+        createdAt: releaseRequest.created_at,
+        status: releaseRequest.status,
+        recipientId: releaseRequest.recipient_id,
+        trancheId: releaseRequest.tranche_id,
+        destinationAddress: releaseRequest.destination_address,
+        feeAmount: releaseRequest.fee_sats,
+        psbt: releaseRequest.psbt,
+        signedByBeneficiary: !!signatures.beneficiary,
+        signedByGuardians: signatures.guardians.map(sig => sig !== null),
+        txid: releaseRequest.txid,
+      };
+    }));
+
+    return NextResponse.json({ guardians: gift.guardian_pubkeys || [], requests });
+  } catch (error) {
+    console.error('Get release requests error:', error);
+    return NextResponse.json(
+      { message: 'Failed to get release requests' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { address, recipientId, trancheId } = await request.json();
+
+    const gift = await getGift(id);
+    if (!gift) {
+      return NextResponse.json({ message: 'Gift not found' }, { status: 404 });
+    }
+
+    const { network, chain } = getSpendConfig();
+
+    const notReleasable = checkReleasable(gift);
+    if (notReleasable) {
+      return NextResponse.json({ message: notReleasable }, { status: 400 });
+    }
+
+    const { part, error: partError } = await getSpendPart(gift, recipientId || null, trancheId || null, 'release');
+    if (partError) {
+      return NextResponse.json({ message: partError }, { status: 400 });
+    }
+
+    // Default to the beneficiary address given when the gift was created
+    const destinationAddress: string = address
+      || (part && !isGiftTranche(part) ? part.beneficiary_address : gift.beneficiary_address);
+    if (!validateAddress(destinationAddress, network)) {
+      return NextResponse.json({ message: 'Invalid Bitcoin address' }, { status: 400 });
+    }
+
+    const { vout: lockVout, error: voutError } = getSpendVout(gift, part);
+    if (voutError) {
+      return NextResponse.json({ message: voutError }, { status: 400 });
+    }
+
+    const lockTerms = getGiftLockTerms(gift, part);
+    const lockOutput = await findLockOutput(
+      gift.lock_txid!,
+      lockTerms,
+      network,
+      chain,
+      lockVout
+    );
+    if (!lockOutput) {
+      return NextResponse.json({ message: 'Lock output not found' }, { status: 404 });
+    }
+
+    const feeRate = await chain.getFeeRate();
+    const release = buildReleaseTransaction({
+      lockTxId: gift.lock_txid!,
+      lockVout: lockOutput.vout,
+      lockAmountSats: lockOutput.amount,
+      lockTerms,
+      destinationAddress,
+      feeRate,
+      network,
+    });
+
+    const releaseRequest = await createReleaseRequest({
+      giftId: gift.id,
+      recipientId: part && !isGiftTranche(part) ? part.id : null,
+      trancheId: part && isGiftTranche(part) ? part.id : null,
+      psbt: release.psbt,
+      unsignedTxid: release.txid,
+      destinationAddress,
+      feeSats: release.feeSats,
+    });
+
+    return NextResponse.json({
+      requestId: releaseRequest.id,
+      psbt: release.psbt,
+      destinationAddress,
+      releaseAmount: release.claimAmountSats,
+      feeAmount: release.feeSats,
+    });
+  } catch (error) {
+    console.error('Start release error:', error);
+    return NextResponse.json(
+      { message: 'Failed to start release' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,27 @@
  * Gift Status API Route
  * 
  * GET /api/gifts/[id]/status
- * Get current status of a gift
+ * Get current status of a gift, with its recipients or tranches if it has several outputs
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getGift, lockGift, updateConfirmations } from '@/lib/supabase';
-import { getUtxo, getNetwork } from '@/lib/bitcoin';
+import {
+  getGift,
+  getGiftRecipients,
+  getGiftTranches,
+  updateDeposit,
+  updateConfirmations,
+  type Gift,
+} from '@/lib/supabase';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { getChainBackend, type Utxo } from '@/lib/chain';
+import { depositConfirmations } from '@/lib/deposits';
+
+async function withLockParts(gift: Gift) {
+  const recipients = gift.recipient_count > 1 ? await getGiftRecipients(gift.id) : [];
+  const tranches = gift.tranche_count > 1 ? await getGiftTranches(gift.id) : [];
+  return { ...gift, recipients, tranches };
+}
 
 export async function GET(
   request: NextRequest,
@@ -24,26 +39,38 @@ export async function GET(
       );
     }
 
-    // If pending, check for deposits
-    if (gift.status === 'pending') {
-      const network = (process.env.NEXT_PUBLIC_NETWORK || 'testnet') as 'mainnet' | 'testnet';
-      const mempoolUrl = process.env.NEXT_PUBLIC_MEMPOOL_URL || 'https://mempool.space/testnet/api';
+    // If pending, check for deposits (sender-funded gifts have none)
+    if (gift.status === 'pending' && gift.deposit_address) {
+      const network = getConfiguredNetwork();
+      const chain = getChainBackend(network);
       
-      // Check if there's a UTXO at the deposit address
-      const utxo = await getUtxo(gift.deposit_address, mempoolUrl);
+      // Check for UTXOs at the deposit address; if the lookup fails, the
+      // stored status is still right, just not fresh
+      let utxos: Utxo[] = [];
+      try {
+        utxos = await chain.getUtxos(gift.deposit_address);
+      } catch (error) {
+        console.error('Deposit lookup error:', error);
+      }
       
-      if (utxo) {
-        // Update with deposit tx info
-        // Note: In production, you'd trigger the locking tx here
-        await updateConfirmations(id, 1); // Simplified
+      if (utxos.length > 0) {
+        // Record how much has arrived so far
+        // Note: the deposit check decides whether to lock it
+        const receivedSats = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+        await updateDeposit(id, { receivedSats });
+        
+        const tipHeight = await chain.getTipHeight();
+        if (tipHeight !== null) {
+          await updateConfirmations(id, depositConfirmations(utxos, tipHeight));
+        }
         
         // Return updated gift
         const updatedGift = await getGift(id);
-        return NextResponse.json(updatedGift);
+        return NextResponse.json(updatedGift && await withLockParts(updatedGift));
       }
     }
 
-    return NextResponse.json(gift);
+    return NextResponse.json(await withLockParts(gift));
   } catch (error) {
     console.error('Get gift status error:', error);
     return NextResponse.json(
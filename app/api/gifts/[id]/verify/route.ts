@@ -0,0 +1,67 @@
+/**
+ * Verify Gift API Route
+ * 
+ * GET /api/gifts/[id]/verify?recipient=...|tranche=...
+ * Rebuild the gift's lock script from its stored terms and check the lock
+ * transaction against it: output, amount, locktime and beneficiary
+ * Split gifts and vesting schedules are verified one output at a time
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGift, getGiftRecipient, getGiftTranche, type GiftLockPart } from '@/lib/supabase';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+import { verifyGiftLock } from '@/lib/verify';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const gift = await getGift(id);
+
+    if (!gift) {
+      return NextResponse.json(
+        { message: 'Gift not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!gift.lock_txid) {
+      return NextResponse.json(
+        { message: 'Gift is not locked yet' },
+        { status: 400 }
+      );
+    }
+
+    // Gifts locked in several outputs are handled one output at a time
+    const searchParams = request.nextUrl.searchParams;
+    const recipientId = searchParams.get('recipient');
+    const trancheId = searchParams.get('tranche');
+    let part: GiftLockPart | null = null;
+    if (gift.tranche_count > 1) {
+      part = trancheId ? await getGiftTranche(gift.id, trancheId) : null;
+    } else if (gift.recipient_count > 1) {
+      part = recipientId ? await getGiftRecipient(gift.id, recipientId) : null;
+    }
+
+    if (Math.max(gift.recipient_count, gift.tranche_count) > 1 && !part) {
+      return NextResponse.json(
+        { message: 'Choose which recipient or tranche to verify' },
+        { status: 400 }
+      );
+    }
+
+    const network = getConfiguredNetwork();
+    const verification = await verifyGiftLock(gift, getChainBackend(network), network, part);
+
+    return NextResponse.json(verification);
+  } catch (error) {
+    console.error('Verify gift error:', error);
+    return NextResponse.json(
+      { message: 'Failed to verify gift' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,19 +3,87 @@
  * 
  * POST /api/gifts/create
  * Creates a new gift with a unique HD wallet address
+ * Each call is allocated its own HD index, so concurrent creators never
+ * share a deposit address
+ *
+ * Pass recipients: [{ address, key, percent | sats }] instead of a single
+ * beneficiary to split the gift, with one lock output per recipient
+ *
+ * Pass schedule: { count, interval } to unlock in tranches from unlockAt,
+ * with one lock output per tranche
+ *
+ * Pass guardianKeys: [key, ...] to let the beneficiary release the gift early
+ * with any one guardian's co-signature
+ *
+ * Pass funding: { utxos: [{ txid, vout }] | descriptor, changeAddress } to
+ * fund the lock from the sender's own wallet: instead of a deposit address
+ * this returns an unsigned PSBT for the sender to sign and broadcast
+ *
+ * Pass promoCode to discount the fee; the fee quote comes back with the gift
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateHDFeatureAddress, validateAddress, getNetwork } from '@/lib/bitcoin';
-import { createGift, getGiftByDepositAddress, getNextHDIndex } from '@/lib/supabase';
+import { addYears, differenceInDays } from 'date-fns';
+import {
+  validateAddress,
+  parseBeneficiaryKey,
+  estimateBlockDate,
+  LOCKTIME_THRESHOLD,
+  getConfiguredNetwork,
+  getConfiguredAccountPath,
+  getAccountPath,
+  getLockDescriptor,
+  getOpReturnMode,
+  buildSenderFundedLockingPsbt,
+  type LockSplit,
+  type LockTerms,
+  type SenderFundedLockResult,
+} from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
+import { getHDDepositKey } from '@/lib/signer';
+import {
+  createGift,
+  createGiftRecipients,
+  createGiftTranches,
+  allocateHDIndex,
+} from '@/lib/supabase';
+import { MAX_RECIPIENTS, resolveRecipientAmounts, type RecipientShare } from '@/lib/recipients';
+import { buildVestingSchedule, type TranchePlan } from '@/lib/tranches';
+import { parseGuardianKeys } from '@/lib/guardians';
+import { resolveFundingUtxos, type FundingSource } from '@/lib/funding';
+import { getFeePolicy, quoteFee, type FeeQuote } from '@/lib/fees';
+
+interface RecipientInput {
+  address: string;
+  key: string;
+  percent?: number;
+  sats?: number;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { amountSats, beneficiaryAddress, unlockAt, message } = body;
+    const {
+      amountSats,
+      lockType = 'p2wsh',
+      unlockAt,
+      unlockHeight,
+      recoveryKey,
+      recoveryGraceYears,
+      schedule,
+      message,
+      promoCode,
+    } = body;
+
+    // A split gift's first recipient stands in as the gift's beneficiary
+    const recipientInputs: RecipientInput[] | undefined = Array.isArray(body.recipients) && body.recipients.length > 1
+      ? body.recipients
+      : undefined;
+    const beneficiaryAddress: string | undefined = recipientInputs ? recipientInputs[0].address : body.beneficiaryAddress;
+    const beneficiaryKey: string | undefined = recipientInputs ? recipientInputs[0].key : body.beneficiaryKey;
 
     // Validate required fields
-    if (!amountSats || !beneficiaryAddress || !unlockAt) {
+    if (!amountSats || !beneficiaryAddress || !beneficiaryKey || (!unlockAt && !unlockHeight)) {
       return NextResponse.json(
         { message: 'Missing required fields' },
         { status: 400 }
@@ -31,7 +99,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate beneficiary address
-    const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
+    const network = getConfiguredNetwork();
     if (!validateAddress(beneficiaryAddress, network)) {
       return NextResponse.json(
         { message: 'Invalid Bitcoin address' },
@@ -39,57 +107,339 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Resolve the beneficiary key the funds will be locked to
+    let beneficiaryPubkey: string;
+    try {
+      beneficiaryPubkey = parseBeneficiaryKey(beneficiaryKey, network).toString('hex');
+    } catch {
+      return NextResponse.json(
+        { message: 'Invalid beneficiary public key or xpub' },
+        { status: 400 }
+      );
+    }
+
+    // Validate lock output type
+    if (lockType !== 'p2wsh' && lockType !== 'p2tr') {
+      return NextResponse.json(
+        { message: 'Invalid lock type' },
+        { status: 400 }
+      );
+    }
+
+    // Resolve each recipient's key and share of the gift
+    let recipients: { address: string; pubkey: string; share: RecipientShare; amountSats: number }[] | undefined;
+    if (recipientInputs) {
+      if (recipientInputs.length > MAX_RECIPIENTS) {
+        return NextResponse.json(
+          { message: `A gift can be split between at most ${MAX_RECIPIENTS} recipients` },
+          { status: 400 }
+        );
+      }
+
+      const parsed: { address: string; pubkey: string; share: RecipientShare }[] = [];
+      for (let i = 0; i < recipientInputs.length; i++) {
+        const input = recipientInputs[i];
+        if (!input || !validateAddress(input.address, network)) {
+          return NextResponse.json(
+            { message: `Invalid Bitcoin address for recipient ${i + 1}` },
+            { status: 400 }
+          );
+        }
+        let pubkey: string;
+        try {
+          pubkey = parseBeneficiaryKey(input.key, network).toString('hex');
+        } catch {
+          return NextResponse.json(
+            { message: `Invalid public key or xpub for recipient ${i + 1}` },
+            { status: 400 }
+          );
+        }
+        const share: RecipientShare = input.sats !== undefined && input.sats !== null
+          ? { sats: Number(input.sats) }
+          : { percent: Number(input.percent) };
+        parsed.push({ address: input.address, pubkey, share });
+      }
+
+      let amounts: number[];
+      try {
+        amounts = resolveRecipientAmounts(amountSats, parsed.map(r => r.share));
+      } catch (e) {
+        return NextResponse.json(
+          { message: e instanceof Error ? e.message : 'Invalid recipient shares' },
+          { status: 400 }
+        );
+      }
+      recipients = parsed.map((r, i) => ({ ...r, amountSats: amounts[i] }));
+    }
+
+    // Block-height unlock: must be ahead of the tip; the date is an estimate
+    let unlockDate = new Date(unlockAt);
+    if (unlockHeight !== undefined) {
+      const tipHeight = await getChainBackend(network).getTipHeight();
+      if (tipHeight === null) {
+        return NextResponse.json(
+          { message: 'Could not fetch current block height' },
+          { status: 502 }
+        );
+      }
+      if (!Number.isInteger(unlockHeight) || unlockHeight <= tipHeight || unlockHeight >= LOCKTIME_THRESHOLD) {
+        return NextResponse.json(
+          { message: `Unlock height must be above the current height (${tipHeight})` },
+          { status: 400 }
+        );
+      }
+      unlockDate = estimateBlockDate(unlockHeight, tipHeight);
+    }
+
     // Validate unlock date (must be in the future)
-    const unlockDate = new Date(unlockAt);
-    if (unlockDate <= new Date()) {
+    if (!(unlockDate > new Date())) {
       return NextResponse.json(
         { message: 'Unlock date must be in the future' },
         { status: 400 }
       );
     }
 
-    // Get HD seed
-    const hdSeed = process.env.HD_SEED;
-    if (!hdSeed) {
+    // Vesting schedule: tranches from the unlock date, for one beneficiary
+    let tranches: TranchePlan[] | undefined;
+    if (schedule) {
+      if (recipients || unlockHeight !== undefined) {
+        return NextResponse.json(
+          { message: 'A vesting schedule needs a single beneficiary and an unlock date' },
+          { status: 400 }
+        );
+      }
+      try {
+        tranches = buildVestingSchedule(amountSats, unlockDate, {
+          count: Number(schedule.count),
+          interval: schedule.interval,
+        });
+      } catch (e) {
+        return NextResponse.json(
+          { message: e instanceof Error ? e.message : 'Invalid vesting schedule' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Resolve the optional sender recovery branch
+    let recoveryPubkey: string | undefined;
+    let recoveryAt: string | undefined;
+    let graceYears = 0;
+    if (recoveryKey) {
+      try {
+        recoveryPubkey = parseBeneficiaryKey(recoveryKey, network).toString('hex');
+      } catch {
+        return NextResponse.json(
+          { message: 'Invalid recovery public key or xpub' },
+          { status: 400 }
+        );
+      }
+
+      // Recovery opens a grace period after the beneficiary could first claim
+      graceYears = Number(recoveryGraceYears ?? process.env.RECOVERY_GRACE_YEARS ?? 5);
+      if (!Number.isInteger(graceYears) || graceYears < 1 || graceYears > 50) {
+        return NextResponse.json(
+          { message: 'Recovery grace period must be 1 to 50 years' },
+          { status: 400 }
+        );
+      }
+      recoveryAt = addYears(unlockDate, graceYears).toISOString();
+    }
+
+    // Resolve the optional guardians of the early-release branch
+    let guardianPubkeys: string[] | undefined;
+    if (Array.isArray(body.guardianKeys) && body.guardianKeys.length > 0) {
+      try {
+        guardianPubkeys = parseGuardianKeys(
+          body.guardianKeys,
+          recipients ? recipients.map(r => r.pubkey) : [beneficiaryPubkey],
+          network
+        );
+      } catch (e) {
+        return NextResponse.json(
+          { message: e instanceof Error ? e.message : 'Invalid guardian keys' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // New locks use the miniscript template, so the descriptor is importable
+    const lockTerms: LockTerms = {
+      lockType,
+      script: 'miniscript',
+      beneficiaryPubkey,
+      unlockLocktime: unlockHeight ?? Math.floor(unlockDate.getTime() / 1000),
+      recoveryPubkey,
+      recoveryTimestamp: recoveryAt ? Math.floor(new Date(recoveryAt).getTime() / 1000) : null,
+      guardianPubkeys,
+    };
+    // Each tranche's recovery opens the same grace period after it unlocks
+    const getTrancheRecoveryAt = (tranche: TranchePlan) =>
+      recoveryPubkey ? addYears(tranche.unlockAt, graceYears) : null;
+
+    // Split gifts and schedules lock one output per recipient or tranche
+    const splits: LockSplit[] | undefined = recipients
+      ? recipients.map(recipient => ({
+          lockTerms: { ...lockTerms, beneficiaryPubkey: recipient.pubkey },
+          weight: recipient.amountSats,
+        }))
+      : tranches?.map(tranche => {
+          const trancheRecoveryAt = getTrancheRecoveryAt(tranche);
+          return {
+            lockTerms: {
+              ...lockTerms,
+              unlockLocktime: Math.floor(tranche.unlockAt.getTime() / 1000),
+              recoveryTimestamp: trancheRecoveryAt ? Math.floor(trancheRecoveryAt.getTime() / 1000) : null,
+            },
+            weight: tranche.amountSats,
+          };
+        });
+    // ...and have a descriptor per output instead of one for the gift
+    const descriptor = splits ? undefined : getLockDescriptor(lockTerms, network);
+
+    // Quote the fee now; the gift is charged exactly this at lock
+    let fee: FeeQuote;
+    try {
+      fee = quoteFee({
+        amountSats,
+        lockDays: differenceInDays(unlockDate, new Date()),
+        promoCode: typeof promoCode === 'string' ? promoCode : null,
+      }, getFeePolicy());
+    } catch (e) {
       return NextResponse.json(
-        { message: 'HD wallet not configured' },
-        { status: 500 }
+        { message: e instanceof Error ? e.message : 'Invalid promo code' },
+        { status: 400 }
       );
     }
 
-    // Get next HD index
-    const hdIndex = await getNextHDIndex();
+    let depositAddress: string | undefined;
+    let hdIndex: number | undefined;
+    let hdPath: string | undefined;
+    let funding: SenderFundedLockResult | undefined;
+    if (body.funding) {
+      // Sender-funded: the lock tx spends the sender's own UTXOs
+      const feeAddress = process.env.FEE_ADDRESS;
+      if (!feeAddress) {
+        return NextResponse.json(
+          { message: 'Fee address not configured' },
+          { status: 500 }
+        );
+      }
+      const { changeAddress } = body.funding;
+      if (!changeAddress || !validateAddress(changeAddress, network)) {
+        return NextResponse.json(
+          { message: 'Invalid change address' },
+          { status: 400 }
+        );
+      }
 
-    // Generate unique deposit address for this gift
-    const { address: depositAddress, privateKey } = generateHDFeatureAddress(
-      hdSeed,
-      hdIndex,
-      network
-    );
+      const chain = getChainBackend(network);
+      try {
+        const source: FundingSource = {
+          utxos: Array.isArray(body.funding.utxos) ? body.funding.utxos : undefined,
+          descriptor: typeof body.funding.descriptor === 'string' ? body.funding.descriptor : undefined,
+        };
+        funding = buildSenderFundedLockingPsbt({
+          utxos: await resolveFundingUtxos(source, chain, network),
+          lockTerms,
+          splits,
+          amountSats,
+          feeSats: fee.feeSats,
+          feeAddress,
+          changeAddress,
+          opReturn: getOpReturnMode(),
+          feeRate: await chain.getFeeRate(),
+          network,
+        });
+      } catch (e) {
+        return NextResponse.json(
+          { message: e instanceof Error ? e.message : 'Could not fund the gift from these UTXOs' },
+          { status: 400 }
+        );
+      }
+    } else {
+      // HD_XPUB (watch-only) or HD_SEED
+      if (!process.env.HD_XPUB && !process.env.HD_SEED) {
+        return NextResponse.json(
+          { message: 'HD wallet not configured' },
+          { status: 500 }
+        );
+      }
 
-    // Check if this address already has a pending gift
-    const existingGift = await getGiftByDepositAddress(depositAddress);
-    if (existingGift && existingGift.status === 'pending') {
-      // Return existing pending gift
-      return NextResponse.json({
-        giftId: existingGift.id,
-        depositAddress: existingGift.deposit_address,
-        status: existingGift.status,
-      });
+      // Allocate this gift's HD index in the configured account (BIP84 by default)
+      const accountPath = getConfiguredAccountPath(network);
+      hdIndex = await allocateHDIndex(accountPath, accountPath === getAccountPath(network, 'bip44'));
+
+      // Generate unique deposit address for this gift; the unique index on
+      // deposit_address rejects the gift rather than share one
+      const deposit = getHDDepositKey(hdIndex, network, accountPath);
+      depositAddress = deposit.address;
+      hdPath = deposit.path;
     }
 
     // Create gift record in database
-    const feePercent = parseFloat(process.env.FEE_PERCENT || '1');
     const gift = await createGift({
+      fundingMode: funding ? 'sender' : 'deposit',
       depositAddress,
+      fundingPsbt: funding?.psbt,
+      fundingTxid: funding?.txid,
       amountSats,
       beneficiaryAddress,
-      unlockAt,
+      beneficiaryPubkey,
+      lockType,
+      lockScript: lockTerms.script,
+      descriptor,
+      unlockAt: unlockDate.toISOString(),
+      unlockHeight,
+      recoveryPubkey,
+      recoveryAt,
+      guardianPubkeys,
       message,
-      feePercent,
+      feePercent: fee.percent,
+      feeSats: fee.feeSats,
+      feePromoCode: fee.promoCode,
       hdIndex,
+      hdPath,
+      recipientCount: recipients ? recipients.length : 1,
+      trancheCount: tranches ? tranches.length : 1,
     });
 
+    if (recipients) {
+      await createGiftRecipients(gift.id, recipients.map((recipient, i) => ({
+        beneficiaryAddress: recipient.address,
+        beneficiaryPubkey: recipient.pubkey,
+        sharePercent: recipient.share.percent,
+        shareSats: recipient.share.sats,
+        amountSats: recipient.amountSats,
+        descriptor: getLockDescriptor(splits![i].lockTerms, network),
+      })));
+    }
+
+    if (tranches) {
+      await createGiftTranches(gift.id, tranches.map((tranche, i) => ({
+        unlockAt: tranche.unlockAt.toISOString(),
+        recoveryAt: getTrancheRecoveryAt(tranche)?.toISOString(),
+        amountSats: tranche.amountSats,
+        descriptor: getLockDescriptor(splits![i].lockTerms, network),
+      })));
+    }
+
+    // Nothing to watch but the lock output: the sender signs and broadcasts
+    if (funding) {
+      return NextResponse.json({
+        giftId: gift.id,
+        psbt: funding.psbt,
+        txid: funding.txid,
+        lockedAmountSats: funding.lockedAmountSats,
+        serviceFeeSats: funding.serviceFeeSats,
+        minerFeeSats: funding.minerFeeSats,
+        changeSats: funding.changeSats,
+        fee,
+        status: 'waiting_for_lock',
+        message: 'Sign this PSBT in your wallet and broadcast it. The gift is locked once the lock transaction is seen.',
+      });
+    }
+
     // In production: store the private key securely (encrypted in DB orHSM)
     // For now, we just return the address - the backend will watch for deposits
     // and use the HD seed to create the lock transaction
@@ -97,6 +447,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       giftId: gift.id,
       depositAddress: gift.deposit_address,
+      fee,
       status: 'waiting_for_deposit',
       message: 'Send any amount of Bitcoin to the address above. The gift will be locked once deposit is detected.',
     });
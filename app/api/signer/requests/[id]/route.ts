@@ -0,0 +1,82 @@
+/**
+ * Signed Lock PSBT API Route
+ *
+ * POST /api/signer/requests/[id]
+ * The external signer returns a signed lock PSBT: it is checked against the
+ * request, finalized and broadcast, and its gifts are locked
+ *
+ * Or it refuses the PSBT with `{ "error": "..." }` (say, an output it doesn't
+ * expect): the request fails and its gifts get a fresh PSBT
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { closeSigningRequest, getSigningRequest } from '@/lib/supabase';
+import { finalizeSignedLockingPsbt, getConfiguredNetwork } from '@/lib/bitcoin';
+import { BroadcastError, broadcastErrorStatus } from '@/lib/broadcast';
+import { getChainBackend } from '@/lib/chain';
+import { checkSignerAuth, completeSigningRequest } from '@/lib/signer';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!checkSignerAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const { psbt, error: refusal } = await request.json();
+
+    if (!psbt && !refusal) {
+      return NextResponse.json({ message: 'Signed PSBT required' }, { status: 400 });
+    }
+
+    const signingRequest = await getSigningRequest(id);
+    if (!signingRequest) {
+      return NextResponse.json({ message: 'Signing request not found' }, { status: 404 });
+    }
+    if (signingRequest.status !== 'pending') {
+      return NextResponse.json(
+        { message: `Signing request is already ${signingRequest.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (!psbt) {
+      await closeSigningRequest(signingRequest, 'failed', `Refused by the signer: ${refusal}`);
+      return NextResponse.json({ success: true, status: 'failed' });
+    }
+
+    const network = getConfiguredNetwork();
+
+    let finalized: { txHex: string; txid: string };
+    try {
+      finalized = finalizeSignedLockingPsbt(psbt, signingRequest.txid, network);
+    } catch (finalizeError) {
+      return NextResponse.json(
+        { message: finalizeError instanceof Error ? finalizeError.message : 'Invalid PSBT' },
+        { status: 400 }
+      );
+    }
+
+    const lockTxid = await completeSigningRequest(signingRequest, finalized.txHex, getChainBackend(network));
+
+    return NextResponse.json({
+      success: true,
+      lockTxId: lockTxid,
+    });
+  } catch (error) {
+    console.error('Signed PSBT error:', error);
+    if (error instanceof BroadcastError) {
+      return NextResponse.json(
+        { message: error.message, reason: error.kind },
+        { status: broadcastErrorStatus(error) }
+      );
+    }
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to complete signing request' },
+      { status: 500 }
+    );
+  }
+}
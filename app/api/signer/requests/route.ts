@@ -0,0 +1,46 @@
+/**
+ * Signer Requests API Route
+ *
+ * GET /api/signer/requests
+ * Lists the unsigned lock PSBTs waiting for the external signer
+ * (watch-only deployments, HD_XPUB set)
+ *
+ * The signer polls this with `Authorization: Bearer $SIGNER_TOKEN`, signs each
+ * PSBT with its seed and POSTs it back to /api/signer/requests/[id]
+ * Each lock's terms come along, so the signer can rebuild the lock outputs
+ * before it signs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingSigningRequests } from '@/lib/supabase';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { checkSignerAuth } from '@/lib/signer';
+
+export async function GET(request: NextRequest) {
+  if (!checkSignerAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const requests = await getPendingSigningRequests();
+
+    return NextResponse.json({
+      network: getConfiguredNetwork(),
+      requests: requests.map(r => ({
+        id: r.id,
+        createdAt: r.created_at,
+        psbt: r.psbt,
+        txid: r.txid,
+        giftIds: r.locks.map(lock => lock.giftId),
+        // Requests queued before lock terms were stored have none, the signer refuses them
+        lockTerms: r.locks.flatMap(lock => lock.lockTerms ?? []),
+      })),
+    });
+  } catch (error) {
+    console.error('Signer requests error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch signing requests' },
+      { status: 500 }
+    );
+  }
+}
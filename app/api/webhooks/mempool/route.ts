@@ -3,23 +3,26 @@
  * 
  * POST /api/webhooks/mempool
  * Called when a deposit is detected at our address
- * Builds and broadcasts the CLTV locking transaction
+ * Records the deposit and its confirmations; the lock tx is built by
+ * /api/admin/check-deposits, which holds the batching and signer logic
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getGiftByDepositAddress, lockGift, getGift } from '@/lib/supabase';
-import { 
-  buildLockingTransaction, 
-  broadcastTransaction, 
-  getNetwork,
-  getFeeRate,
-  getUtxo 
-} from '@/lib/bitcoin';
+import { getGiftByDepositAddress, updateDeposit, updateConfirmations } from '@/lib/supabase';
+import {
+  evaluateDeposit,
+  getDepositPolicy,
+  getConfirmationPolicy,
+  requiredConfirmations,
+  depositConfirmations,
+} from '@/lib/deposits';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import { getChainBackend } from '@/lib/chain';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { address, txid, vout } = body;
+    const { address } = body;
 
     if (!address) {
       return NextResponse.json({ message: 'Address required' }, { status: 400 });
@@ -36,66 +39,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ message: 'Gift already processed' }, { status: 200 });
     }
 
-    // Get UTXO details
-    const network = (process.env.NEXT_PUBLIC_NETWORK || 'testnet') as 'mainnet' | 'testnet';
-    const mempoolUrl = process.env.NEXT_PUBLIC_MEMPOOL_URL || 'https://mempool.space/testnet/api';
-    const hotWalletWif = process.env.HOT_WALLET_WIF;
-    const feeAddress = process.env.FEE_ADDRESS;
-
-    if (!hotWalletWif || !feeAddress) {
-      return NextResponse.json({ message: 'Server configuration error' }, { status: 500 });
-    }
-
-    // Get the UTXO that was just deposited
-    const utxo = await getUtxo(address, mempoolUrl);
-    if (!utxo) {
+    // Get every UTXO deposited so far
+    const network = getConfiguredNetwork();
+    const chain = getChainBackend(network);
+    const utxos = await chain.getUtxos(address);
+    if (utxos.length === 0) {
       return NextResponse.json({ message: 'UTXO not found' }, { status: 404 });
     }
 
-    // Get current fee rate
-    const feeRate = await getFeeRate(mempoolUrl);
-    
-    // Build the CLTV locking transaction
-    const unlockTimestamp = Math.floor(new Date(gift.unlock_at).getTime() / 1000);
-    
-    try {
-      const lockingResult = buildLockingTransaction({
-        utxoTxId: utxo.txid,
-        utxoVout: utxo.vout,
-        utxoAmountSats: utxo.amount,
-        hotWalletWif,
-        beneficiaryAddress: gift.beneficiary_address,
-        unlockTimestamp,
-        feePercent: gift.fee_percent,
-        feeAddress,
-        network,
-      });
-
-      // Broadcast the locking transaction
-      const lockTxId = await broadcastTransaction(lockingResult.psbt, mempoolUrl);
-
-      // Update gift status
-      await lockGift(gift.id, {
-        depositTxid: txid || utxo.txid,
-        lockTxid: lockTxId,
-        utxoTxid: utxo.txid,
-        utxoVout: utxo.vout,
-        utxoAmountSats: utxo.amount,
-      });
+    // Compare everything received with the gift amount
+    const receivedSats = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+    const decision = evaluateDeposit(receivedSats, gift.amount_sats, getDepositPolicy());
+    await updateDeposit(gift.id, {
+      receivedSats,
+      outcome: decision.outcome,
+      needsReview: decision.action === 'flag',
+    });
 
+    if (decision.action !== 'lock') {
       return NextResponse.json({
         success: true,
-        lockTxId,
-        lockedAmount: lockingResult.lockedAmountSats,
-        feeAmount: lockingResult.feeSats,
+        outcome: decision.outcome,
+        action: decision.action,
+        receivedSats,
+        expectedSats: gift.amount_sats,
       });
-    } catch (buildError) {
-      console.error('Locking transaction failed:', buildError);
-      return NextResponse.json(
-        { message: 'Failed to build locking transaction' },
-        { status: 500 }
-      );
     }
+
+    // Record how deep the deposit is buried; check-deposits locks it once
+    // it is deep enough, with the gift's own key (or via the signer queue)
+    const tipHeight = await chain.getTipHeight();
+    if (tipHeight === null) {
+      return NextResponse.json({ message: 'Failed to fetch block height' }, { status: 502 });
+    }
+    const confirmations = depositConfirmations(utxos, tipHeight);
+    await updateConfirmations(gift.id, confirmations);
+    const required = requiredConfirmations(receivedSats, getConfirmationPolicy());
+
+    return NextResponse.json({
+      success: true,
+      outcome: decision.outcome,
+      action: confirmations < required ? 'wait' : 'lock',
+      receivedSats,
+      confirmations,
+      requiredConfirmations: required,
+    });
   } catch (error) {
     console.error('Webhook error:', error);
     return NextResponse.json(
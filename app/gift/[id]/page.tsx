@@ -10,18 +10,19 @@
 import { useEffect, useState } from 'react';
 import { notFound } from 'next/navigation';
 import { GiftStatus } from '@/components/gift-status';
-import type { Gift } from '@/lib/supabase';
+import type { GiftWithLockParts } from '@/lib/supabase';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
 
 interface GiftPageProps {
   params: Promise<{ id: string }>;
 }
 
 export default function GiftPage({ params }: GiftPageProps) {
-  const [gift, setGift] = useState<Gift | null>(null);
+  const [gift, setGift] = useState<GiftWithLockParts | null>(null);
   const [loading, setLoading] = useState(true);
   const [giftId, setGiftId] = useState<string>('');
 
-  const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
+  const network = getConfiguredNetwork();
 
   useEffect(() => {
     params.then(({ id }) => {
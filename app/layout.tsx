@@ -1,4 +1,5 @@
 import type { Metadata } from 'next';
+import Link from 'next/link';
 import { Inter } from 'next/font/google';
 import './globals.css';
 
@@ -20,12 +21,12 @@ export default function RootLayout({
         <div className="min-h-screen bg-gradient-to-b from-background to-muted">
           <header className="border-b">
             <div className="container mx-auto px-4 py-4 flex items-center justify-between">
-              <a href="/" className="text-xl font-bold flex items-center gap-2">
+              <Link href="/" className="text-xl font-bold flex items-center gap-2">
                 🔒 LockGift
-              </a>
+              </Link>
               <nav className="flex items-center gap-4">
-                <a href="/" className="text-sm hover:underline">Create</a>
-                <a href="/admin" className="text-sm hover:underline">Admin</a>
+                <Link href="/" className="text-sm hover:underline">Create</Link>
+                <Link href="/admin" className="text-sm hover:underline">Admin</Link>
               </nav>
             </div>
           </header>
@@ -9,17 +9,19 @@ import { GiftForm } from '@/components/gift-form';
 import { GiftStatus } from '@/components/gift-status';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Lock, Clock, Wallet, Shield } from 'lucide-react';
+import { getConfiguredNetwork } from '@/lib/bitcoin';
+import type { GiftWithLockParts } from '@/lib/supabase';
 
 export default function HomePage() {
   const [createdGift, setCreatedGift] = useState<{
     id: string;
-    depositAddress: string;
+    depositAddress: string | null;
   } | null>(null);
-  const [giftData, setGiftData] = useState<any>(null);
+  const [giftData, setGiftData] = useState<GiftWithLockParts | null>(null);
 
-  const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
+  const network = getConfiguredNetwork();
 
-  const handleSuccess = async (giftId: string, depositAddress: string) => {
+  const handleSuccess = async (giftId: string, depositAddress: string | null) => {
     setCreatedGift({ id: giftId, depositAddress });
     
     // Fetch the gift data
@@ -37,9 +39,16 @@ export default function HomePage() {
         <GiftStatus gift={giftData} network={network} />
         
         <p className="text-center text-sm text-muted-foreground">
-          <a href="/" className="underline hover:text-foreground">
+          <button
+            type="button"
+            onClick={() => {
+              setCreatedGift(null);
+              setGiftData(null);
+            }}
+            className="underline hover:text-foreground"
+          >
             Create another gift
-          </a>
+          </button>
         </p>
       </div>
     );
@@ -89,7 +98,7 @@ export default function HomePage() {
           </CardHeader>
           <CardContent>
             <p className="text-sm text-muted-foreground">
-              Once locked, even we can't touch it. The code is open source.
+              Once locked, even we can&apos;t touch it. The code is open source.
             </p>
           </CardContent>
         </Card>
@@ -104,8 +113,8 @@ export default function HomePage() {
           <p className="text-sm text-yellow-800">
             <strong>Note:</strong> This is a trust-minimized system but you trust the 
             operator to broadcast the correct locking transaction. Always verify 
-            the lock transaction on mempool.space before considering the gift complete. 
-            A 5% fee is taken on the deposited amount.
+            the lock on the gift page, which checks it on-chain, before considering the gift complete. 
+            The service fee is quoted before you create the gift and taken from the deposit.
           </p>
         </CardContent>
       </Card>
@@ -7,46 +7,192 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format, addYears, addMonths, addDays, min as dateMin } from 'date-fns';
-import { Lock, Calendar, Copy, Check, Wallet, ArrowRight, Dollar, PoundSterling, Euro } from 'lucide-react';
+import { Lock, Calendar, Copy, Check, Wallet, ArrowRight, DollarSign, PoundSterling, Euro, Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { validateAddress } from '@/lib/bitcoin';
-
-const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
+import {
+  validateAddress,
+  validateBeneficiaryKey,
+  parseBeneficiaryKey,
+  estimateBlockHeight,
+  estimateBlockDate,
+  getConfiguredNetwork,
+  getAddressPrefix,
+  LOCKTIME_THRESHOLD,
+} from '@/lib/bitcoin';
+import { MAX_RECIPIENTS, resolveRecipientAmounts, type RecipientShare } from '@/lib/recipients';
+import { MAX_TRANCHES, buildVestingSchedule, type TranchePlan } from '@/lib/tranches';
+import { MAX_GUARDIANS, parseGuardianKeys } from '@/lib/guardians';
+import { formatDate, formatSatsHuman, getNetworkLabel } from '@/lib/utils';
+import type { FeeQuote } from '@/lib/fees';
 
 type Currency = 'gbp' | 'usd' | 'eur';
 
 const currencySymbols: Record<Currency, { symbol: string; icon: React.ReactNode }> = {
   gbp: { symbol: '£', icon: <PoundSterling className="w-3 h-3" /> },
-  usd: { symbol: '$', icon: <Dollar className="w-3 h-3" /> },
+  usd: { symbol: '$', icon: <DollarSign className="w-3 h-3" /> },
   eur: { symbol: '€', icon: <Euro className="w-3 h-3" /> },
 };
 
-const network = (process.env.NEXT_PUBLIC_NETWORK || 'mainnet') as 'mainnet' | 'testnet';
+const network = getConfiguredNetwork();
+const networkLabel = getNetworkLabel(network);
+const addressPrefix = getAddressPrefix(network);
+const xpubPrefix = network === 'mainnet' ? 'xpub' : 'tpub';
 
-// Form validation schema
-const giftSchema = z.object({
-  amountSats: z.coerce.number().min(6000, 'Minimum 6,000 sats (to cover fees)'),
-  beneficiaryAddress: z.string().min(1, 'Beneficiary address required').refine(
+// One beneficiary, or one of several splitting the gift
+const recipientSchema = z.object({
+  address: z.string().min(1, 'Beneficiary address required').refine(
     (addr) => validateAddress(addr, network),
     'Invalid Bitcoin address'
   ),
+  key: z.string().min(1, 'Beneficiary public key required').refine(
+    (key) => validateBeneficiaryKey(key, network),
+    'Invalid public key or xpub'
+  ),
+  shareMode: z.enum(['percent', 'sats']).default('percent'),
+  share: z.string().default(''),
+});
+
+type RecipientFormData = z.infer<typeof recipientSchema>;
+
+function toShare(recipient: RecipientFormData): RecipientShare {
+  return recipient.shareMode === 'sats'
+    ? { sats: Number(recipient.share) }
+    : { percent: Number(recipient.share) };
+}
+
+// Guardian keys are entered one per line
+function splitGuardianKeys(text: string): string[] {
+  return text.split('\n').map(key => key.trim()).filter(Boolean);
+}
+
+// The sender's coins: a descriptor, or outpoints as txid:vout, one per line
+function toFundingSource(text: string): { descriptor: string } | { utxos: { txid: string; vout: number }[] } {
+  const trimmed = text.trim();
+  if (trimmed.includes('(')) {
+    return { descriptor: trimmed };
+  }
+  return {
+    utxos: trimmed.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+      const [txid, vout] = line.split(':');
+      return { txid, vout: Number(vout) };
+    }),
+  };
+}
+
+// Form validation schema
+const giftSchema = z.object({
+  amountSats: z.coerce.number().min(6000, 'Minimum 6,000 sats (to cover fees)'),
+  recipients: z.array(recipientSchema).min(1).max(MAX_RECIPIENTS),
+  lockType: z.enum(['p2wsh', 'p2tr']).default('p2wsh'),
+  recoveryKey: z.string().refine(
+    (key) => !key || validateBeneficiaryKey(key, network),
+    'Invalid public key or xpub'
+  ).optional(),
+  recoveryGraceYears: z.coerce.number().int().min(1).max(50).default(5),
+  guardianKeys: z.string().default(''),
+  unlockMode: z.enum(['date', 'height']).default('date'),
   unlockDate: z.string().min(1, 'Unlock date required'),
   unlockTime: z.string().default('00:00'),
+  unlockHeight: z.string().optional(),
+  vesting: z.boolean().default(false),
+  trancheCount: z.coerce.number().int().default(12),
+  trancheInterval: z.enum(['week', 'month', 'quarter', 'year']).default('month'),
   message: z.string().max(500, 'Message too long').optional(),
+  fundingMode: z.enum(['deposit', 'sender']).default('deposit'),
+  fundingSource: z.string().default(''),
+  changeAddress: z.string().default(''),
+  promoCode: z.string().max(32).default(''),
+}).refine(
+  (data) => data.unlockMode !== 'height' || (
+    /^\d+$/.test(data.unlockHeight || '') && Number(data.unlockHeight) < LOCKTIME_THRESHOLD
+  ),
+  { message: 'Enter a valid block height', path: ['unlockHeight'] }
+).superRefine((data, ctx) => {
+  // Block-height unlocks keep to a single tranche
+  if (data.vesting && data.unlockMode === 'date') {
+    if (data.recipients.length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'A vesting schedule needs a single beneficiary',
+        path: ['trancheCount'],
+      });
+      return;
+    }
+    try {
+      buildVestingSchedule(data.amountSats, new Date(`${data.unlockDate}T${data.unlockTime}`), {
+        count: data.trancheCount,
+        interval: data.trancheInterval,
+      });
+    } catch (e) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: e instanceof Error ? e.message : 'Invalid schedule',
+        path: ['trancheCount'],
+      });
+    }
+  }
+  const guardianKeys = splitGuardianKeys(data.guardianKeys);
+  if (guardianKeys.length > 0) {
+    try {
+      parseGuardianKeys(
+        guardianKeys,
+        data.recipients
+          .filter(recipient => validateBeneficiaryKey(recipient.key, network))
+          .map(recipient => parseBeneficiaryKey(recipient.key, network).toString('hex')),
+        network
+      );
+    } catch (e) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: e instanceof Error ? e.message : 'Invalid guardian keys',
+        path: ['guardianKeys'],
+      });
+    }
+  }
+  if (data.fundingMode === 'sender') {
+    const source = toFundingSource(data.fundingSource);
+    if ('utxos' in source && (
+      source.utxos.length === 0
+      || source.utxos.some(utxo => !/^[0-9a-fA-F]{64}$/.test(utxo.txid) || !Number.isInteger(utxo.vout))
+    )) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Enter a descriptor, or UTXOs as txid:vout',
+        path: ['fundingSource'],
+      });
+    }
+    if (!validateAddress(data.changeAddress, network)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Invalid Bitcoin address',
+        path: ['changeAddress'],
+      });
+    }
+  }
+  if (data.recipients.length < 2) return;
+  try {
+    resolveRecipientAmounts(data.amountSats, data.recipients.map(toShare));
+  } catch (e) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: e instanceof Error ? e.message : 'Invalid shares',
+      path: ['recipients'],
+    });
+  }
 });
 
 type GiftFormData = z.infer<typeof giftSchema>;
 
 interface GiftFormProps {
-  onSuccess: (giftId: string, depositAddress: string) => void;
+  onSuccess: (giftId: string, depositAddress: string | null) => void; // No deposit address for sender-funded gifts
 }
 
 export function GiftForm({ onSuccess }: GiftFormProps) {
@@ -54,6 +200,7 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
   const [copied, setCopied] = useState(false);
   const [currency, setCurrency] = useState<Currency>('gbp');
   const [prices, setPrices] = useState<Record<Currency, number>>({ gbp: 0, usd: 0, eur: 0 });
+  const [tipHeight, setTipHeight] = useState<number | null>(null);
 
   // Fetch BTC prices in multiple currencies on mount
   useEffect(() => {
@@ -73,17 +220,49 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
     fetchPrices();
   }, []);
 
+  // Fetch the current block height for height <-> date estimates
+  useEffect(() => {
+    async function fetchTipHeight() {
+      try {
+        const res = await fetch('/api/chain/tip');
+        if (res.ok) {
+          const data = await res.json();
+          setTipHeight(data.height);
+        }
+      } catch (e) {
+        console.error('Failed to fetch block height:', e);
+      }
+    }
+    fetchTipHeight();
+  }, []);
+
   const {
     register,
     handleSubmit,
     watch,
+    setValue,
+    control,
     formState: { errors },
   } = useForm<GiftFormData>({
     resolver: zodResolver(giftSchema),
     defaultValues: {
+      recipients: [{ address: '', key: '', shareMode: 'percent', share: '' }],
       unlockDate: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
       unlockTime: '00:00',
+      unlockMode: 'date',
+      unlockHeight: '',
+      vesting: false,
+      trancheCount: 12,
+      trancheInterval: 'month',
+      lockType: 'p2wsh',
+      recoveryKey: '',
+      recoveryGraceYears: 5,
+      guardianKeys: '',
       message: '',
+      fundingMode: 'deposit',
+      fundingSource: '',
+      changeAddress: '',
+      promoCode: '',
     },
   });
 
@@ -92,22 +271,123 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
   const btcAmount = amountSats / 100000000;
   const fiatEquivalent = btcAmount * prices[currency];
   const currentSymbol = currencySymbols[currency].symbol;
+  const lockType = watch('lockType');
+  const fundingMode = watch('fundingMode');
+
+  // Split gifts: one lock output per recipient
+  const { fields: recipientFields, append: appendRecipient, remove: removeRecipient } = useFieldArray({
+    control,
+    name: 'recipients',
+  });
+  const recipients = watch('recipients');
+  const isSplit = recipientFields.length > 1;
+  let recipientAmounts: number[] | null = null;
+  if (isSplit) {
+    try {
+      recipientAmounts = resolveRecipientAmounts(Number(amountSats), recipients.map(toShare));
+    } catch {
+      recipientAmounts = null;
+    }
+  }
+
+  // Height <-> date estimates for the unlock picker
+  const unlockMode = watch('unlockMode');
+  const chosenDate = new Date(`${watch('unlockDate')}T${watch('unlockTime') || '00:00'}`);
+  const heightForDate = tipHeight !== null && !isNaN(chosenDate.getTime())
+    ? estimateBlockHeight(chosenDate, tipHeight)
+    : null;
+  const chosenHeight = Number(watch('unlockHeight'));
+  const dateForHeight = tipHeight !== null && chosenHeight > tipHeight
+    ? estimateBlockDate(chosenHeight, tipHeight)
+    : null;
+
+  // Vesting schedule preview, from the unlock date
+  const vesting = watch('vesting');
+  const trancheInterval = watch('trancheInterval');
+  let tranchePreview: TranchePlan[] | null = null;
+  if (vesting && !isNaN(chosenDate.getTime())) {
+    try {
+      tranchePreview = buildVestingSchedule(Number(amountSats), chosenDate, {
+        count: Number(watch('trancheCount')),
+        interval: trancheInterval,
+      });
+    } catch {
+      tranchePreview = null;
+    }
+  }
+
+  // Live fee quote, the same one the gift is charged
+  const promoCode = (watch('promoCode') || '').trim();
+  const quoteDate = unlockMode === 'height' ? dateForHeight : chosenDate;
+  const quoteUnlockAt = quoteDate && !isNaN(quoteDate.getTime()) ? quoteDate.toISOString() : null;
+  const [feeQuote, setFeeQuote] = useState<FeeQuote | null>(null);
+  const [feeQuoteError, setFeeQuoteError] = useState('');
+
+  useEffect(() => {
+    if (!quoteUnlockAt || Number(amountSats) < 6000) {
+      setFeeQuote(null);
+      setFeeQuoteError('');
+      return;
+    }
+    const params = new URLSearchParams({ amountSats: String(amountSats), unlockAt: quoteUnlockAt });
+    if (promoCode) params.set('promoCode', promoCode);
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/fees/quote?${params}`);
+        const data = await res.json();
+        if (cancelled) return;
+        setFeeQuote(res.ok ? data : null);
+        setFeeQuoteError(res.ok ? '' : data.message || 'Could not quote the fee');
+      } catch (e) {
+        console.error('Failed to fetch fee quote:', e);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [amountSats, quoteUnlockAt, promoCode]);
 
   const onSubmit = async (data: GiftFormData) => {
     setIsLoading(true);
     
     try {
-      // Combine date and time
+      // Combine date and time (ignored by the server for block-height unlocks)
       const unlockAt = new Date(`${data.unlockDate}T${data.unlockTime}`);
+      const unlockHeight = data.unlockMode === 'height' ? Number(data.unlockHeight) : undefined;
+      const [firstRecipient] = data.recipients;
+      const guardianKeys = splitGuardianKeys(data.guardianKeys);
       
       const response = await fetch('/api/gifts/create', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           amountSats: data.amountSats,
-          beneficiaryAddress: data.beneficiaryAddress,
+          beneficiaryAddress: firstRecipient.address,
+          beneficiaryKey: firstRecipient.key,
+          recipients: data.recipients.length > 1
+            ? data.recipients.map(recipient => ({
+                address: recipient.address,
+                key: recipient.key,
+                ...toShare(recipient),
+              }))
+            : undefined,
+          lockType: data.lockType,
+          recoveryKey: data.recoveryKey || undefined,
+          recoveryGraceYears: data.recoveryKey ? data.recoveryGraceYears : undefined,
+          guardianKeys: guardianKeys.length > 0 ? guardianKeys : undefined,
           unlockAt: unlockAt.toISOString(),
+          unlockHeight,
+          schedule: data.vesting && data.unlockMode === 'date'
+            ? { count: data.trancheCount, interval: data.trancheInterval }
+            : undefined,
           message: data.message,
+          promoCode: data.promoCode.trim() || undefined,
+          funding: data.fundingMode === 'sender'
+            ? { ...toFundingSource(data.fundingSource), changeAddress: data.changeAddress }
+            : undefined,
         }),
       });
 
@@ -117,7 +397,7 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
       }
 
       const { giftId, depositAddress } = await response.json();
-      onSuccess(giftId, depositAddress);
+      onSuccess(giftId, depositAddress ?? null);
     } catch (error) {
       alert(error instanceof Error ? error.message : 'Something went wrong');
     } finally {
@@ -143,6 +423,11 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
         <CardDescription>
           Send Bitcoin that can only be claimed after a specific date
         </CardDescription>
+        {networkLabel && (
+          <p className="text-xs font-medium text-orange-600">
+            Running on {networkLabel} - only send {networkLabel.toLowerCase()} coins
+          </p>
+        )}
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
@@ -189,46 +474,345 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
             </p>
           </div>
 
-          {/* Beneficiary Address */}
+          {/* Beneficiaries: one, or several splitting the gift */}
+          {recipientFields.map((field, i) => (
+            <div key={field.id} className={isSplit ? 'space-y-3 p-3 border rounded-lg' : 'space-y-4'}>
+              {isSplit && (
+                <div className="flex items-center justify-between">
+                  <Label>Recipient {i + 1}</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeRecipient(i)}
+                    title="Remove recipient"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
+              {/* Beneficiary Address */}
+              <div className="space-y-2">
+                <Label htmlFor={`recipients.${i}.address`}>Beneficiary Bitcoin Address</Label>
+                <Input
+                  id={`recipients.${i}.address`}
+                  placeholder={`${addressPrefix}...`}
+                  {...register(`recipients.${i}.address`)}
+                />
+                {errors.recipients?.[i]?.address && (
+                  <p className="text-sm text-red-500">{errors.recipients[i]?.address?.message}</p>
+                )}
+                {!isSplit && (
+                  <p className="text-xs text-muted-foreground">
+                    {networkLabel ? `${networkLabel} ` : ''}bech32 address (starts with {addressPrefix})
+                  </p>
+                )}
+              </div>
+
+              {/* Beneficiary Key */}
+              <div className="space-y-2">
+                <Label htmlFor={`recipients.${i}.key`}>Beneficiary Public Key or xpub</Label>
+                <Input
+                  id={`recipients.${i}.key`}
+                  placeholder={`02... or ${xpubPrefix}...`}
+                  {...register(`recipients.${i}.key`)}
+                />
+                {errors.recipients?.[i]?.key && (
+                  <p className="text-sm text-red-500">{errors.recipients[i]?.key?.message}</p>
+                )}
+                {!isSplit && (
+                  <p className="text-xs text-muted-foreground">
+                    The Bitcoin is locked to this key. Only the beneficiary&apos;s wallet can sign the claim.
+                  </p>
+                )}
+              </div>
+
+              {/* Share of the gift */}
+              {isSplit && (
+                <div className="space-y-2">
+                  <Label htmlFor={`recipients.${i}.share`}>Share</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`recipients.${i}.share`}
+                      type="number"
+                      placeholder={recipients[i]?.shareMode === 'sats' ? '10000' : '50'}
+                      {...register(`recipients.${i}.share`)}
+                    />
+                    <div className="flex gap-1">
+                      {([['percent', '%'], ['sats', 'sats']] as const).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => setValue(`recipients.${i}.shareMode`, mode)}
+                          className={`px-2 py-1 text-xs rounded ${
+                            recipients[i]?.shareMode === mode
+                              ? 'bg-primary text-primary-foreground'
+                              : 'bg-muted hover:bg-muted/80'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {recipientAmounts && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatSatsHuman(recipientAmounts[i])} of the gift, before fees
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
           <div className="space-y-2">
-            <Label htmlFor="beneficiaryAddress">Beneficiary Bitcoin Address</Label>
-            <Input
-              id="beneficiaryAddress"
-              placeholder="bc1q..."
-              {...register('beneficiaryAddress')}
-            />
-            {errors.beneficiaryAddress && (
-              <p className="text-sm text-red-500">{errors.beneficiaryAddress.message}</p>
+            {errors.recipients?.message && (
+              <p className="text-sm text-red-500">{errors.recipients.message}</p>
+            )}
+            {errors.recipients?.root?.message && (
+              <p className="text-sm text-red-500">{errors.recipients.root.message}</p>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={recipientFields.length >= MAX_RECIPIENTS || vesting}
+              onClick={() => appendRecipient({ address: '', key: '', shareMode: 'percent', share: '' })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {isSplit ? 'Add Recipient' : 'Split Between Recipients'}
+            </Button>
+            {isSplit && (
+              <p className="text-xs text-muted-foreground">
+                Each recipient gets a lock output of their own. Fixed amounts come off the top,
+                percentages split the rest and must add up to 100. Fees are shared pro rata.
+              </p>
             )}
+          </div>
+
+          {/* Lock Type */}
+          <div className="space-y-2">
+            <Label>Lock Type</Label>
+            <div className="flex gap-1">
+              {([['p2wsh', 'SegWit (P2WSH)'], ['p2tr', 'Taproot (P2TR)']] as const).map(([type, label]) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setValue('lockType', type)}
+                  className={`px-3 py-1 text-xs rounded ${
+                    lockType === type
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted hover:bg-muted/80'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <p className="text-xs text-muted-foreground">
-              bech32 address (starts with bc1q or tb1q)
+              {lockType === 'p2tr'
+                ? 'Looks like an ordinary Taproot output on-chain. The claiming wallet must support Taproot script-path signing.'
+                : 'Widely supported by wallets that can sign PSBTs.'}
             </p>
           </div>
 
-          {/* Unlock Date */}
+          {/* Unlock Mode */}
           <div className="space-y-2">
-            <Label htmlFor="unlockDate">Unlock Date</Label>
+            <Label>Unlock At</Label>
+            <div className="flex gap-1">
+              {([['date', 'Date'], ['height', 'Block Height']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => {
+                    setValue('unlockMode', mode);
+                    if (mode === 'height' && !watch('unlockHeight') && heightForDate) {
+                      setValue('unlockHeight', String(heightForDate));
+                    }
+                  }}
+                  className={`px-3 py-1 text-xs rounded ${
+                    unlockMode === mode
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted hover:bg-muted/80'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {unlockMode === 'height' ? (
+            /* Unlock Height */
+            <div className="space-y-2">
+              <Label htmlFor="unlockHeight">Unlock Block Height</Label>
+              <Input
+                id="unlockHeight"
+                type="number"
+                placeholder={heightForDate ? String(heightForDate) : '1000000'}
+                {...register('unlockHeight')}
+              />
+              {errors.unlockHeight && (
+                <p className="text-sm text-red-500">{errors.unlockHeight.message}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {tipHeight !== null && `Current height ${tipHeight.toLocaleString()}. `}
+                {dateForHeight && `Estimated around ${formatDate(dateForHeight)} (10 min blocks).`}
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Unlock Date */}
+              <div className="space-y-2">
+                <Label htmlFor="unlockDate">Unlock Date</Label>
+                <Input
+                  id="unlockDate"
+                  type="date"
+                  min={minDate}
+                  {...register('unlockDate')}
+                />
+                {errors.unlockDate && (
+                  <p className="text-sm text-red-500">{errors.unlockDate.message}</p>
+                )}
+              </div>
+
+              {/* Unlock Time */}
+              <div className="space-y-2">
+                <Label htmlFor="unlockTime">Unlock Time (UTC)</Label>
+                <Input
+                  id="unlockTime"
+                  type="time"
+                  {...register('unlockTime')}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Default: midnight UTC
+                  {heightForDate && ` • about block ${heightForDate.toLocaleString()}`}
+                </p>
+              </div>
+
+              {/* Vesting Schedule */}
+              {!isSplit && (
+                <div className="space-y-2">
+                  <Label>Unlock Schedule</Label>
+                  <div className="flex gap-1">
+                    {([[false, 'All at Once'], [true, 'In Tranches']] as const).map(([mode, label]) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => setValue('vesting', mode)}
+                        className={`px-3 py-1 text-xs rounded ${
+                          vesting === mode
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-muted hover:bg-muted/80'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {vesting && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="trancheCount"
+                          type="number"
+                          min={2}
+                          max={MAX_TRANCHES}
+                          className="w-20"
+                          {...register('trancheCount')}
+                        />
+                        <span className="text-xs text-muted-foreground">tranches, every</span>
+                        <div className="flex gap-1">
+                          {(['week', 'month', 'quarter', 'year'] as const).map((interval) => (
+                            <button
+                              key={interval}
+                              type="button"
+                              onClick={() => setValue('trancheInterval', interval)}
+                              className={`px-2 py-1 text-xs rounded ${
+                                trancheInterval === interval
+                                  ? 'bg-primary text-primary-foreground'
+                                  : 'bg-muted hover:bg-muted/80'
+                              }`}
+                            >
+                              {interval}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      {errors.trancheCount && (
+                        <p className="text-sm text-red-500">{errors.trancheCount.message}</p>
+                      )}
+                      {tranchePreview && (
+                        <ul className="p-2 bg-muted rounded text-xs space-y-1 max-h-40 overflow-y-auto">
+                          {tranchePreview.map((tranche, i) => (
+                            <li key={i} className="flex justify-between">
+                              <span>{i + 1}. {formatDate(tranche.unlockAt)}</span>
+                              <span>{formatSatsHuman(tranche.amountSats)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        The first tranche unlocks on the date above. Each tranche is a lock output
+                        of its own; amounts are before fees, which are shared pro rata.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Optional Sender Recovery */}
+          <div className="space-y-2">
+            <Label htmlFor="recoveryKey">Your Recovery Public Key or xpub (optional)</Label>
             <Input
-              id="unlockDate"
-              type="date"
-              min={minDate}
-              {...register('unlockDate')}
+              id="recoveryKey"
+              placeholder={`02... or ${xpubPrefix}...`}
+              {...register('recoveryKey')}
             />
-            {errors.unlockDate && (
-              <p className="text-sm text-red-500">{errors.unlockDate.message}</p>
+            {errors.recoveryKey && (
+              <p className="text-sm text-red-500">{errors.recoveryKey.message}</p>
             )}
+            <div className="flex items-center gap-2">
+              <Label htmlFor="recoveryGraceYears" className="text-xs font-normal">
+                Recoverable if unclaimed for
+              </Label>
+              <Input
+                id="recoveryGraceYears"
+                type="number"
+                min={1}
+                max={50}
+                className="w-20"
+                {...register('recoveryGraceYears')}
+              />
+              <span className="text-xs text-muted-foreground">years after unlock</span>
+            </div>
+            {errors.recoveryGraceYears && (
+              <p className="text-sm text-red-500">{errors.recoveryGraceYears.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              A safety net if the beneficiary loses their key. Leave empty for no recovery.
+            </p>
           </div>
 
-          {/* Unlock Time */}
+          {/* Optional Guardians */}
           <div className="space-y-2">
-            <Label htmlFor="unlockTime">Unlock Time (UTC)</Label>
-            <Input
-              id="unlockTime"
-              type="time"
-              {...register('unlockTime')}
+            <Label htmlFor="guardianKeys">Guardian Public Keys or xpubs (optional)</Label>
+            <Textarea
+              id="guardianKeys"
+              rows={2}
+              placeholder={`One per line, up to ${MAX_GUARDIANS}: 02... or ${xpubPrefix}...`}
+              className="font-mono text-xs"
+              {...register('guardianKeys')}
             />
+            {errors.guardianKeys && (
+              <p className="text-sm text-red-500">{errors.guardianKeys.message}</p>
+            )}
             <p className="text-xs text-muted-foreground">
-              Default: midnight UTC
+              The beneficiary can release the gift early together with any one guardian,
+              such as a parent or trustee. Leave empty to keep the time lock strict.
             </p>
           </div>
 
@@ -245,6 +829,71 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
             )}
           </div>
 
+          {/* Promo Code */}
+          <div className="space-y-2">
+            <Label htmlFor="promoCode">Promo Code (optional)</Label>
+            <Input
+              id="promoCode"
+              placeholder="e.g. LAUNCH"
+              {...register('promoCode')}
+            />
+            {feeQuoteError && (
+              <p className="text-sm text-red-500">{feeQuoteError}</p>
+            )}
+          </div>
+
+          {/* Funding */}
+          <div className="space-y-2">
+            <Label>Pay With</Label>
+            <div className="flex gap-1">
+              {([['deposit', 'Deposit Address'], ['sender', 'My Wallet (PSBT)']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setValue('fundingMode', mode)}
+                  className={`px-3 py-1 text-xs rounded ${
+                    fundingMode === mode
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted hover:bg-muted/80'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {fundingMode === 'sender' ? (
+              <>
+                <Textarea
+                  id="fundingSource"
+                  rows={2}
+                  placeholder={`wpkh([fingerprint/84h/0h/0h]${xpubPrefix}.../<0;1>/*) or txid:vout, one per line`}
+                  className="font-mono text-xs"
+                  {...register('fundingSource')}
+                />
+                {errors.fundingSource && (
+                  <p className="text-sm text-red-500">{errors.fundingSource.message}</p>
+                )}
+                <Input
+                  id="changeAddress"
+                  placeholder={`Change address, ${addressPrefix}...`}
+                  {...register('changeAddress')}
+                />
+                {errors.changeAddress && (
+                  <p className="text-sm text-red-500">{errors.changeAddress.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  You get an unsigned PSBT spending these coins straight into the lock. Sign and
+                  broadcast it from your own wallet; LockGift never holds the Bitcoin. Native SegWit
+                  and Taproot coins only.
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Send the amount to a one-off deposit address; LockGift locks it once it confirms.
+              </p>
+            )}
+          </div>
+
           {/* Submit */}
           <Button type="submit" className="w-full" size="lg" disabled={isLoading}>
             {isLoading ? (
@@ -258,7 +907,11 @@ export function GiftForm({ onSuccess }: GiftFormProps) {
           </Button>
 
           <p className="text-xs text-center text-muted-foreground">
-            5% fee • Bitcoin locked immediately after deposit confirmation
+            {feeQuote
+              ? `${formatSatsHuman(feeQuote.feeSats)} fee${feeQuote.discountSats > 0 ? ` (${formatSatsHuman(feeQuote.discountSats)} off)` : ''}`
+              : 'Fee quoted from the amount and unlock date'} • {fundingMode === 'sender'
+              ? 'Bitcoin locked as soon as you broadcast'
+              : 'Bitcoin locked immediately after deposit confirmation'}
           </p>
         </form>
       </CardContent>
@@ -18,24 +18,33 @@ import {
   RefreshCw,
   MessageSquare,
   Share2,
-  Wallet
+  Download,
+  Printer,
+  Users,
+  CalendarClock,
+  ShieldCheck
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { SpendPanel } from '@/components/spend-panel';
+import { VerificationPanel } from '@/components/verification-panel';
+import { GuardianReleasePanel } from '@/components/guardian-release-panel';
 import { 
   formatSatsHuman, 
   formatDate, 
   formatRelativeDate,
   getExplorerTxLink,
-  getExplorerAddressLink 
+  getExplorerAddressLink,
+  getNetworkLabel
 } from '@/lib/utils';
-import type { Gift } from '@/lib/supabase';
+import type { GiftLockPart, GiftWithLockParts } from '@/lib/supabase';
+import type { Network } from '@/lib/bitcoin';
 
 interface GiftStatusProps {
-  gift: Gift;
-  network: 'mainnet' | 'testnet';
+  gift: GiftWithLockParts;
+  network: Network;
 }
 
 type StatusDisplay = {
@@ -52,6 +61,12 @@ const statusConfig: Record<string, StatusDisplay> = {
     description: 'Send Bitcoin to the deposit address below',
     color: 'text-yellow-500',
   },
+  awaitingLock: {
+    icon: <Clock className="w-6 h-6" />,
+    label: 'Waiting for Lock Transaction',
+    description: 'Sign the PSBT below in your wallet and broadcast it',
+    color: 'text-yellow-500',
+  },
   locked: {
     icon: <Lock className="w-6 h-6" />,
     label: 'Bitcoin Locked!',
@@ -67,18 +82,56 @@ const statusConfig: Record<string, StatusDisplay> = {
   expired: {
     icon: <AlertCircle className="w-6 h-6" />,
     label: 'Expired',
-    description: 'This gift was not claimed within the validity period',
+    description: 'This gift was not claimed in time and the sender recovered it',
     color: 'text-red-500',
   },
 };
 
+function getPartState(part: GiftLockPart): { label: string; color: string } {
+  if (part.claim_txid) return { label: 'Claimed', color: 'text-blue-500' };
+  if (part.recovery_txid) return { label: 'Recovered', color: 'text-red-500' };
+  if (part.lock_vout !== null) return { label: 'Locked', color: 'text-green-500' };
+  return { label: 'Waiting', color: 'text-yellow-500' };
+}
+
 export function GiftStatus({ gift, network }: GiftStatusProps) {
   const [copied, setCopied] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [currentGift, setCurrentGift] = useState(gift);
+  const [tipHeight, setTipHeight] = useState<number | null>(null);
+  const [recipientId, setRecipientId] = useState<string | null>(gift.recipients[0]?.id ?? null);
+  const [trancheId, setTrancheId] = useState<string | null>(
+    (gift.tranches.find(t => !t.claim_txid && !t.recovery_txid) || gift.tranches[0])?.id ?? null
+  );
+
+  // Block-height gifts count down in blocks, so track the chain tip
+  useEffect(() => {
+    if (currentGift.unlock_height === null) return;
+    fetch('/api/chain/tip')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data && setTipHeight(data.height))
+      .catch(e => console.error('Failed to fetch block height:', e));
+  }, [currentGift.unlock_height]);
+
+  // Split gifts and schedules are verified, downloaded and spent one output at a time
+  const recipients = currentGift.recipients || [];
+  const tranches = currentGift.tranches || [];
+  const isSplit = recipients.length > 0;
+  const selectedRecipient = recipients.find(r => r.id === recipientId) || null;
+  const selectedTranche = tranches.find(t => t.id === trancheId) || null;
+  const selectedPart = selectedRecipient || selectedTranche;
+  const selectedUnspent = !selectedPart
+    || (!selectedPart.claim_txid && !selectedPart.recovery_txid);
+  const kitQuery = selectedRecipient
+    ? `&recipient=${selectedRecipient.id}`
+    : selectedTranche ? `&tranche=${selectedTranche.id}` : '';
+  const partKey = selectedPart?.id || 'gift';
 
-  const status = statusConfig[currentGift.status] || statusConfig.pending;
-  const mempoolUrl = network === 'mainnet' ? 'https://mempool.space' : 'https://mempool.space/testnet';
+  const isSenderFunded = currentGift.funding_mode === 'sender';
+  const status = currentGift.status === 'pending' && isSenderFunded
+    ? statusConfig.awaitingLock
+    : statusConfig[currentGift.status] || statusConfig.pending;
+  const networkLabel = getNetworkLabel(network);
 
   const copyToClipboard = async (text: string, field: string) => {
     await navigator.clipboard.writeText(text);
@@ -114,8 +167,25 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
     }
   };
 
-  const isUnlocked = new Date(currentGift.unlock_at) <= new Date();
-  const canClaim = isUnlocked && currentGift.status === 'locked';
+  const isUnlocked = selectedTranche
+    ? new Date(selectedTranche.unlock_at) <= new Date()
+    : currentGift.unlock_height !== null
+      ? tipHeight !== null && tipHeight >= currentGift.unlock_height
+      : new Date(currentGift.unlock_at) <= new Date();
+  const recoveryAt = selectedTranche ? selectedTranche.recovery_at : currentGift.recovery_at;
+  const blocksRemaining = currentGift.unlock_height !== null && tipHeight !== null
+    ? Math.max(0, currentGift.unlock_height - tipHeight)
+    : null;
+  const canClaim = isUnlocked && currentGift.status === 'locked' && selectedUnspent;
+  const canRecover = currentGift.status === 'locked'
+    && selectedUnspent
+    && recoveryAt !== null
+    && new Date(recoveryAt) <= new Date();
+  const guardianPubkeys = currentGift.guardian_pubkeys || [];
+  const canRelease = guardianPubkeys.length > 0
+    && !isUnlocked
+    && currentGift.status === 'locked'
+    && selectedUnspent;
 
   return (
     <Card className="w-full max-w-lg mx-auto">
@@ -145,6 +215,11 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
           </div>
         </div>
         <CardDescription>{status.description}</CardDescription>
+        {networkLabel && (
+          <p className="text-xs font-medium text-orange-600">
+            {networkLabel} gift - these coins have no real value
+          </p>
+        )}
       </CardHeader>
       
       <CardContent className="space-y-6">
@@ -152,7 +227,18 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
         <div className="text-center py-4 bg-muted rounded-lg">
           <p className="text-sm text-muted-foreground">Amount</p>
           <p className="text-3xl font-bold">{formatSatsHuman(currentGift.amount_sats)}</p>
-          {currentGift.fee_percent > 0 && (
+          {currentGift.locked_amount_sats !== null ? (
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatSatsHuman(currentGift.locked_amount_sats)} locked
+              {' • '}{formatSatsHuman(currentGift.service_fee_sats || 0)} service fee
+              {currentGift.miner_fee_sats !== null && <>{' • '}{formatSatsHuman(currentGift.miner_fee_sats)} miner fee</>}
+            </p>
+          ) : currentGift.fee_sats !== null ? (
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatSatsHuman(currentGift.fee_sats)} service fee
+              {currentGift.fee_promo_code && <>{' • '}promo {currentGift.fee_promo_code}</>}
+            </p>
+          ) : currentGift.fee_percent > 0 && (
             <p className="text-xs text-muted-foreground mt-1">
               {currentGift.fee_percent}% fee applied
             </p>
@@ -167,13 +253,36 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
               Message
             </Label>
             <div className="p-4 bg-muted rounded-lg">
-              <p className="text-sm italic">"{currentGift.message}"</p>
+              <p className="text-sm italic">&ldquo;{currentGift.message}&rdquo;</p>
+            </div>
+          </div>
+        )}
+
+        {/* Funding PSBT (if pending and sender-funded) */}
+        {currentGift.status === 'pending' && currentGift.funding_psbt && (
+          <div className="space-y-2">
+            <Label>Lock Transaction PSBT</Label>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-3 bg-muted rounded text-xs break-all max-h-24 overflow-y-auto">
+                {currentGift.funding_psbt}
+              </code>
+              <Button 
+                variant="outline" 
+                size="icon"
+                onClick={() => copyToClipboard(currentGift.funding_psbt!, 'funding')}
+              >
+                {copied === 'funding' ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
             </div>
+            <p className="text-xs text-muted-foreground">
+              Load it into your wallet, check it locks {formatSatsHuman(currentGift.amount_sats)} plus
+              the {formatSatsHuman(currentGift.fee_sats ?? 0)} service fee, then sign and broadcast it yourself. The coins never pass through LockGift.
+            </p>
           </div>
         )}
 
         {/* Deposit Address (if pending) */}
-        {currentGift.status === 'pending' && (
+        {currentGift.status === 'pending' && currentGift.deposit_address && (
           <div className="space-y-2">
             <Label>Deposit Address</Label>
             <div className="flex items-center gap-2">
@@ -183,7 +292,7 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
               <Button 
                 variant="outline" 
                 size="icon"
-                onClick={() => copyToClipboard(currentGift.deposit_address, 'deposit')}
+                onClick={() => copyToClipboard(currentGift.deposit_address!, 'deposit')}
               >
                 {copied === 'deposit' ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
               </Button>
@@ -191,50 +300,237 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
             <p className="text-xs text-muted-foreground">
               Send exactly {formatSatsHuman(currentGift.amount_sats)} to this address
             </p>
+            {currentGift.received_sats > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Received {formatSatsHuman(currentGift.received_sats)} of {formatSatsHuman(currentGift.amount_sats)}
+                {' • '}{currentGift.deposit_confirmations} confirmation{currentGift.deposit_confirmations === 1 ? '' : 's'}
+                {currentGift.needs_review && ' - held for review'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Recipients of a split gift, each with a lock output of their own */}
+        {isSplit && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Recipients ({recipients.length})
+            </Label>
+            <ul className="space-y-2">
+              {recipients.map(recipient => {
+                const state = getPartState(recipient);
+                const selected = recipient.id === recipientId;
+                return (
+                  <li key={recipient.id}>
+                    <button
+                      type="button"
+                      onClick={() => setRecipientId(recipient.id)}
+                      className={`w-full text-left p-2 rounded border text-xs space-y-1 ${selected ? 'border-primary bg-muted' : 'border-transparent bg-muted/50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <code className="break-all">{recipient.beneficiary_address}</code>
+                        <span className={`font-medium shrink-0 ${state.color}`}>{state.label}</span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {recipient.share_percent !== null ? `${recipient.share_percent}%` : 'Fixed'}
+                        {' • '}{formatSatsHuman(recipient.locked_amount_sats ?? recipient.amount_sats)}
+                        {recipient.locked_amount_sats !== null ? ' locked' : ''}
+                        {recipient.lock_vout !== null && ` • output ${recipient.lock_vout}`}
+                      </p>
+                      {(recipient.claim_txid || recipient.recovery_txid) && (
+                        <p className="text-muted-foreground break-all">
+                          {recipient.claim_txid ? 'Claim' : 'Recovery'} tx: {recipient.claim_txid || recipient.recovery_txid}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              Select a recipient to verify, download the recovery kit for or spend their output.
+            </p>
+          </div>
+        )}
+
+        {/* Tranches of a vesting schedule, each unlocking on its own date */}
+        {tranches.length > 0 && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Vesting Schedule ({tranches.length} tranches)
+            </Label>
+            <ul className="space-y-2">
+              {tranches.map(tranche => {
+                const state = getPartState(tranche);
+                const unlocked = new Date(tranche.unlock_at) <= new Date();
+                const selected = tranche.id === trancheId;
+                return (
+                  <li key={tranche.id}>
+                    <button
+                      type="button"
+                      onClick={() => setTrancheId(tranche.id)}
+                      className={`w-full text-left p-2 rounded border text-xs space-y-1 ${selected ? 'border-primary bg-muted' : 'border-transparent bg-muted/50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {tranche.position + 1}. {formatDate(tranche.unlock_at)}
+                        </span>
+                        <span className={`font-medium shrink-0 ${state.color}`}>
+                          {state.label === 'Locked' && unlocked ? 'Unlocked' : state.label}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        {formatSatsHuman(tranche.locked_amount_sats ?? tranche.amount_sats)}
+                        {tranche.locked_amount_sats !== null ? ' locked' : ''}
+                        {tranche.lock_vout !== null && ` • output ${tranche.lock_vout}`}
+                        {!tranche.claim_txid && !tranche.recovery_txid && ` • ${unlocked ? 'claimable' : formatRelativeDate(tranche.unlock_at)}`}
+                      </p>
+                      {(tranche.claim_txid || tranche.recovery_txid) && (
+                        <p className="text-muted-foreground break-all">
+                          {tranche.claim_txid ? 'Claim' : 'Recovery'} tx: {tranche.claim_txid || tranche.recovery_txid}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              Select a tranche to verify, download the recovery kit for or claim it.
+            </p>
           </div>
         )}
 
         {/* Beneficiary */}
-        <div className="space-y-2">
-          <Label>Beneficiary Address</Label>
-          <div className="flex items-center gap-2">
-            <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
-              {currentGift.beneficiary_address}
-            </code>
-            <Button 
-              variant="outline" 
-              size="icon"
-              onClick={() => copyToClipboard(currentGift.beneficiary_address, 'beneficiary')}
-            >
-              {copied === 'beneficiary' ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-            </Button>
+        {!isSplit && (
+          <div className="space-y-2">
+            <Label>Beneficiary Address</Label>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
+                {currentGift.beneficiary_address}
+              </code>
+              <Button 
+                variant="outline" 
+                size="icon"
+                onClick={() => copyToClipboard(currentGift.beneficiary_address, 'beneficiary')}
+              >
+                {copied === 'beneficiary' ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
           </div>
+        )}
+
+        {/* Beneficiary Key */}
+        <div className="space-y-2">
+          <Label>Locked To Key ({currentGift.lock_type === 'p2tr' ? 'Taproot' : 'P2WSH'})</Label>
+          <code className="block p-2 bg-muted rounded text-xs break-all">
+            {selectedRecipient ? selectedRecipient.beneficiary_pubkey : currentGift.beneficiary_pubkey}
+          </code>
         </div>
 
+        {/* Output descriptor, for watching and spending the lock in another wallet */}
+        {(selectedPart ? selectedPart.descriptor : currentGift.descriptor) && (
+          <div className="space-y-2">
+            <Label>Output Descriptor</Label>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
+                {selectedPart ? selectedPart.descriptor : currentGift.descriptor}
+              </code>
+              <Button 
+                variant="outline" 
+                size="icon"
+                onClick={() => copyToClipboard((selectedPart ? selectedPart.descriptor : currentGift.descriptor)!, 'descriptor')}
+              >
+                {copied === 'descriptor' ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Import into Sparrow, Liana or Bitcoin Core (importdescriptors) to watch the lock and claim it there.
+            </p>
+          </div>
+        )}
+
         {/* Unlock Date */}
         <div className="space-y-2">
-          <Label>Unlocks At</Label>
-          <div className="flex items-center gap-2 text-lg">
-            <Clock className="w-5 h-5 text-muted-foreground" />
-            <span>{formatDate(currentGift.unlock_at)}</span>
-            <span className="text-sm text-muted-foreground">
-              ({formatRelativeDate(currentGift.unlock_at)})
-            </span>
-          </div>
+          <Label>{tranches.length > 0 ? 'First Tranche Unlocks' : 'Unlocks At'}</Label>
+          {currentGift.unlock_height !== null ? (
+            <>
+              <div className="flex items-center gap-2 text-lg">
+                <Clock className="w-5 h-5 text-muted-foreground" />
+                <span>Block {currentGift.unlock_height.toLocaleString()}</span>
+                {blocksRemaining !== null && (
+                  <span className="text-sm text-muted-foreground">
+                    ({blocksRemaining > 0 ? `${blocksRemaining.toLocaleString()} blocks remaining` : 'Unlocked!'})
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Estimated around {formatDate(currentGift.unlock_at)}
+              </p>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-lg">
+              <Clock className="w-5 h-5 text-muted-foreground" />
+              <span>{formatDate(currentGift.unlock_at)}</span>
+              <span className="text-sm text-muted-foreground">
+                ({formatRelativeDate(currentGift.unlock_at)})
+              </span>
+            </div>
+          )}
         </div>
 
+        {/* Recovery (if the sender kept a recovery key) */}
+        {currentGift.recovery_at && (
+          <div className="space-y-2">
+            <Label>Sender Recovery Opens</Label>
+            <div className="flex items-center gap-2 text-sm">
+              <Unlock className="w-4 h-4 text-muted-foreground" />
+              <span>{formatDate(currentGift.recovery_at)}</span>
+              <span className="text-muted-foreground">
+                ({formatRelativeDate(currentGift.recovery_at)})
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              If the beneficiary hasn&apos;t claimed by then, the sender can take the Bitcoin back.
+              {tranches.length > 0 && ' Each later tranche opens the same grace period after it unlocks.'}
+            </p>
+          </div>
+        )}
+
+        {/* Guardians (if the gift can be released early) */}
+        {guardianPubkeys.length > 0 && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              Guardians
+            </Label>
+            <ul className="space-y-1">
+              {guardianPubkeys.map(pubkey => (
+                <li key={pubkey}>
+                  <code className="block p-2 bg-muted rounded text-xs break-all">{pubkey}</code>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              The beneficiary can release the gift before it unlocks, together with any one guardian.
+            </p>
+          </div>
+        )}
+
         {/* Message (if any) */}
         {currentGift.message && (
           <div className="space-y-2">
             <Label>Message</Label>
             <p className="p-3 bg-muted rounded text-sm italic">
-              "{currentGift.message}"
+              &ldquo;{currentGift.message}&rdquo;
             </p>
           </div>
         )}
 
         {/* Transaction IDs */}
-        {(currentGift.deposit_txid || currentGift.lock_txid) && (
+        {(currentGift.deposit_txid || currentGift.lock_txid || currentGift.claim_txid || currentGift.recovery_txid) && (
           <div className="space-y-3 pt-4 border-t">
             {currentGift.deposit_txid && (
               <div className="space-y-1">
@@ -243,15 +539,17 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
                   <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
                     {currentGift.deposit_txid}
                   </code>
-                  <Button variant="outline" size="icon" asChild>
-                    <a 
-                      href={getExplorerTxLink(currentGift.deposit_txid, network)} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </a>
-                  </Button>
+                  {getExplorerTxLink(currentGift.deposit_txid, network) && (
+                    <Button variant="outline" size="icon" asChild>
+                      <a 
+                        href={getExplorerTxLink(currentGift.deposit_txid, network)!} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
@@ -263,33 +561,144 @@ export function GiftStatus({ gift, network }: GiftStatusProps) {
                   <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
                     {currentGift.lock_txid}
                   </code>
-                  <Button variant="outline" size="icon" asChild>
-                    <a 
-                      href={getExplorerTxLink(currentGift.lock_txid, network)} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </a>
-                  </Button>
+                  {getExplorerTxLink(currentGift.lock_txid, network) && (
+                    <Button variant="outline" size="icon" asChild>
+                      <a 
+                        href={getExplorerTxLink(currentGift.lock_txid, network)!} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {currentGift.claim_txid && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Claim Transaction</Label>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
+                    {currentGift.claim_txid}
+                  </code>
+                  {getExplorerTxLink(currentGift.claim_txid, network) && (
+                    <Button variant="outline" size="icon" asChild>
+                      <a 
+                        href={getExplorerTxLink(currentGift.claim_txid, network)!} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {currentGift.recovery_txid && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Recovery Transaction</Label>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 p-2 bg-muted rounded text-xs break-all">
+                    {currentGift.recovery_txid}
+                  </code>
+                  {getExplorerTxLink(currentGift.recovery_txid, network) && (
+                    <Button variant="outline" size="icon" asChild>
+                      <a 
+                        href={getExplorerTxLink(currentGift.recovery_txid, network)!} 
+                        target="_blank" 
+                        rel="noopener noreferrer"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
           </div>
         )}
 
-        {/* Claim button (if locked and unlock date passed) */}
-        {canClaim && (
-          <div className="space-y-3 pt-4">
-            <p className="text-sm text-center text-muted-foreground">
-              This gift is ready to claim! Enter your wallet address to claim.
+        {/* On-chain check of the lock against the gift's terms */}
+        {currentGift.lock_txid && (
+          <VerificationPanel
+            key={partKey}
+            giftId={gift.id}
+            recipientId={selectedRecipient?.id}
+            trancheId={selectedTranche?.id}
+          />
+        )}
+
+        {/* Recovery kit, so the beneficiary can claim without LockGift */}
+        {currentGift.status === 'locked' && (
+          <div className="space-y-2 pt-4 border-t">
+            <Label>Recovery Kit</Label>
+            <p className="text-xs text-muted-foreground">
+              Keep a copy with the beneficiary key. It holds the lock script and the steps to
+              claim with any Bitcoin wallet, even if LockGift is gone by the unlock date.
             </p>
-            <Button className="w-full" size="lg">
-              <Wallet className="w-4 h-4 mr-2" />
-              Claim Bitcoin
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/gifts/${gift.id}/recovery-kit?format=json${kitQuery}`} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Recovery Kit
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/gifts/${gift.id}/recovery-kit?format=txt${kitQuery}`} download>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Printable Version
+                </a>
+              </Button>
+            </div>
           </div>
         )}
+
+        {/* Claim flow (if locked and unlock date passed) */}
+        {canClaim && (
+          <SpendPanel
+            key={`claim-${partKey}`}
+            giftId={gift.id}
+            recipientId={selectedRecipient?.id}
+            trancheId={selectedTranche?.id}
+            action="claim"
+            intro="This gift is ready to claim! Enter your wallet address to claim."
+            buttonLabel="Claim Bitcoin"
+            addressPlaceholder={selectedRecipient ? selectedRecipient.beneficiary_address : currentGift.beneficiary_address}
+            onComplete={refreshStatus}
+          />
+        )}
+
+        {/* Early release (if still locked and the gift has guardians) */}
+        {canRelease && (
+          <GuardianReleasePanel
+            key={`release-${partKey}`}
+            giftId={gift.id}
+            recipientId={selectedRecipient?.id}
+            trancheId={selectedTranche?.id}
+            guardianPubkeys={guardianPubkeys}
+            addressPlaceholder={selectedRecipient ? selectedRecipient.beneficiary_address : currentGift.beneficiary_address}
+            onComplete={refreshStatus}
+          />
+        )}
+
+        {/* Sender recovery (if locked and the recovery branch has opened) */}
+        {canRecover && (
+          <SpendPanel
+            key={`recover-${partKey}`}
+            giftId={gift.id}
+            recipientId={selectedRecipient?.id}
+            trancheId={selectedTranche?.id}
+            action="recover"
+            intro="This gift was never claimed. The sender can now recover it with their recovery key."
+            buttonLabel="Recover Bitcoin"
+            addressPlaceholder="Sender wallet address"
+            onComplete={refreshStatus}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,207 @@
+'use client';
+
+/**
+ * Guardian Release Panel Component
+ *
+ * Co-signing flow for an early release: start a release PSBT, pass it to
+ * the beneficiary and a guardian to sign, paste each signed copy back.
+ * The release broadcasts once both have signed.
+ */
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, Circle, Copy, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ReleaseRequestState {
+  id: string;
+  status: 'pending' | 'broadcast';
+  recipientId: string | null;
+  trancheId: string | null;
+  psbt: string;
+  signedByBeneficiary: boolean;
+  signedByGuardians: boolean[];
+}
+
+interface GuardianReleasePanelProps {
+  giftId: string;
+  recipientId?: string; // Which output of a split gift to release
+  trancheId?: string; // Which tranche of a vesting schedule to release
+  guardianPubkeys: string[];
+  addressPlaceholder: string;
+  onComplete: () => void;
+}
+
+export function GuardianReleasePanel({
+  giftId,
+  recipientId,
+  trancheId,
+  guardianPubkeys,
+  addressPlaceholder,
+  onComplete,
+}: GuardianReleasePanelProps) {
+  const [address, setAddress] = useState('');
+  const [releaseRequest, setReleaseRequest] = useState<ReleaseRequestState | null>(null);
+  const [signedPsbt, setSignedPsbt] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  // Pick up a release already waiting for signatures
+  useEffect(() => {
+    fetch(`/api/gifts/${giftId}/release`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        const pending = (data?.requests as ReleaseRequestState[] | undefined)?.find(r =>
+          r.status === 'pending'
+          && r.recipientId === (recipientId ?? null)
+          && r.trancheId === (trancheId ?? null)
+        );
+        if (pending) setReleaseRequest(pending);
+      })
+      .catch(e => console.error('Failed to fetch release requests:', e));
+  }, [giftId, recipientId, trancheId]);
+
+  const copyPsbt = async (psbt: string) => {
+    await navigator.clipboard.writeText(psbt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const startRelease = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/gifts/${giftId}/release`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: address || undefined, recipientId, trancheId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to start release');
+      }
+      setReleaseRequest({
+        id: data.requestId,
+        status: 'pending',
+        recipientId: recipientId ?? null,
+        trancheId: trancheId ?? null,
+        psbt: data.psbt,
+        signedByBeneficiary: false,
+        signedByGuardians: guardianPubkeys.map(() => false),
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitSignedPsbt = async () => {
+    if (!releaseRequest) return;
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/gifts/${giftId}/release/${releaseRequest.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ psbt: signedPsbt.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to add signature');
+      }
+      setSignedPsbt('');
+      if (data.broadcast) {
+        setReleaseRequest(null);
+        onComplete();
+        return;
+      }
+      setReleaseRequest({
+        ...releaseRequest,
+        psbt: data.psbt,
+        signedByBeneficiary: data.signedByBeneficiary,
+        signedByGuardians: data.signedByGuardians,
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signer = (label: string, signed: boolean) => (
+    <li className="flex items-center gap-2" key={label}>
+      {signed
+        ? <CheckCircle className="w-4 h-4 text-green-500" />
+        : <Circle className="w-4 h-4 text-muted-foreground" />}
+      <span className="break-all">{label}</span>
+    </li>
+  );
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <p className="text-sm text-center text-muted-foreground">
+        Still time-locked, but the beneficiary can release it now with any one guardian&apos;s signature.
+      </p>
+
+      {!releaseRequest ? (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="releaseAddress">Beneficiary Wallet Address</Label>
+            <Input
+              id="releaseAddress"
+              placeholder={addressPlaceholder}
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+          </div>
+          <Button className="w-full" variant="outline" onClick={startRelease} disabled={busy}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Start Early Release
+          </Button>
+        </>
+      ) : (
+        <div className="space-y-3">
+          <Label>Release PSBT</Label>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-2 bg-muted rounded text-xs break-all max-h-24 overflow-y-auto">
+              {releaseRequest.psbt}
+            </code>
+            <Button variant="outline" size="icon" onClick={() => copyPsbt(releaseRequest.psbt)}>
+              {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+          <ul className="space-y-1 text-xs">
+            {signer('Beneficiary', releaseRequest.signedByBeneficiary)}
+            {guardianPubkeys.map((pubkey, i) =>
+              signer(`Guardian ${i + 1} (${pubkey.slice(0, 16)}...)`, !!releaseRequest.signedByGuardians[i])
+            )}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            The beneficiary and one guardian each sign this PSBT in their own wallet and paste
+            it back here. It broadcasts once both signatures are in.
+          </p>
+          <Textarea
+            placeholder="Signed PSBT (base64)"
+            value={signedPsbt}
+            onChange={(e) => setSignedPsbt(e.target.value)}
+          />
+          <Button
+            className="w-full"
+            onClick={submitSignedPsbt}
+            disabled={busy || !signedPsbt}
+          >
+            {busy ? 'Submitting...' : 'Add Signature'}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * Spend Panel Component
+ *
+ * PSBT round trip for spending a lock: fetch an unsigned PSBT,
+ * sign it in an external wallet, paste it back to broadcast
+ */
+
+import { useState } from 'react';
+import { CheckCircle, Copy, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface SpendPanelProps {
+  giftId: string;
+  recipientId?: string; // Which output of a split gift to spend
+  trancheId?: string; // Which tranche of a vesting schedule to spend
+  action: 'claim' | 'recover';
+  intro: string;
+  buttonLabel: string;
+  addressPlaceholder: string;
+  onComplete: () => void;
+}
+
+export function SpendPanel({
+  giftId,
+  recipientId,
+  trancheId,
+  action,
+  intro,
+  buttonLabel,
+  addressPlaceholder,
+  onComplete,
+}: SpendPanelProps) {
+  const [address, setAddress] = useState('');
+  const [unsignedPsbt, setUnsignedPsbt] = useState<string | null>(null);
+  const [signedPsbt, setSignedPsbt] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const copyPsbt = async (psbt: string) => {
+    await navigator.clipboard.writeText(psbt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const requestPsbt = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const params = new URLSearchParams();
+      if (address) params.set('address', address);
+      if (recipientId) params.set('recipient', recipientId);
+      if (trancheId) params.set('tranche', trancheId);
+      const query = params.toString() ? `?${params}` : '';
+      const response = await fetch(`/api/gifts/${giftId}/${action}${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to build transaction');
+      }
+      setUnsignedPsbt(data.psbt);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitSignedPsbt = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/gifts/${giftId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ psbt: signedPsbt.trim(), recipientId, trancheId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to broadcast transaction');
+      }
+      setUnsignedPsbt(null);
+      setSignedPsbt('');
+      onComplete();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <p className="text-sm text-center text-muted-foreground">{intro}</p>
+      <div className="space-y-2">
+        <Label htmlFor={`${action}Address`}>Your Wallet Address</Label>
+        <Input
+          id={`${action}Address`}
+          placeholder={addressPlaceholder}
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+        />
+      </div>
+      <Button className="w-full" size="lg" onClick={requestPsbt} disabled={busy}>
+        <Wallet className="w-4 h-4 mr-2" />
+        {buttonLabel}
+      </Button>
+
+      {unsignedPsbt && (
+        <div className="space-y-3">
+          <Label>Unsigned PSBT</Label>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 p-2 bg-muted rounded text-xs break-all max-h-24 overflow-y-auto">
+              {unsignedPsbt}
+            </code>
+            <Button variant="outline" size="icon" onClick={() => copyPsbt(unsignedPsbt)}>
+              {copied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sign this PSBT in the wallet that holds the key, then paste the signed PSBT below.
+          </p>
+          <Textarea
+            placeholder="Signed PSBT (base64)"
+            value={signedPsbt}
+            onChange={(e) => setSignedPsbt(e.target.value)}
+          />
+          <Button
+            className="w-full"
+            onClick={submitSignedPsbt}
+            disabled={busy || !signedPsbt}
+          >
+            {busy ? 'Broadcasting...' : 'Broadcast Transaction'}
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -8,35 +8,42 @@ import { cn } from '@/lib/utils';
 export interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost' | 'link';
   size?: 'default' | 'sm' | 'lg' | 'icon';
+  asChild?: boolean; // Render the single child element (e.g. a link) with button styles
 }
 
 const Button = React.forwardRef<HTMLButtonElement, ButtonProps>(
-  ({ className, variant = 'default', size = 'default', ...props }, ref) => {
+  ({ className, variant = 'default', size = 'default', asChild = false, children, ...props }, ref) => {
+    const classes = cn(
+      'inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50',
+      {
+        'bg-primary text-primary-foreground shadow hover:bg-primary/90':
+          variant === 'default',
+        'bg-destructive text-destructive-foreground shadow-sm hover:bg-destructive/90':
+          variant === 'destructive',
+        'border border-input bg-background shadow-sm hover:bg-accent hover:text-accent-foreground':
+          variant === 'outline',
+        'bg-secondary text-secondary-foreground shadow-sm hover:bg-secondary/80':
+          variant === 'secondary',
+        'hover:bg-accent hover:text-accent-foreground': variant === 'ghost',
+        'text-primary underline-offset-4 hover:underline': variant === 'link',
+        'h-9 px-4 py-2': size === 'default',
+        'h-8 rounded-md px-3 text-xs': size === 'sm',
+        'h-10 rounded-md px-8': size === 'lg',
+        'h-9 w-9': size === 'icon',
+      },
+      className
+    );
+
+    if (asChild && React.isValidElement<{ className?: string }>(children)) {
+      return React.cloneElement(children, {
+        className: cn(classes, children.props.className),
+      });
+    }
+
     return (
-      <button
-        className={cn(
-          'inline-flex items-center justify-center whitespace-nowrap rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50',
-          {
-            'bg-primary text-primary-foreground shadow hover:bg-primary/90':
-              variant === 'default',
-            'bg-destructive text-destructive-foreground shadow-sm hover:bg-destructive/90':
-              variant === 'destructive',
-            'border border-input bg-background shadow-sm hover:bg-accent hover:text-accent-foreground':
-              variant === 'outline',
-            'bg-secondary text-secondary-foreground shadow-sm hover:bg-secondary/80':
-              variant === 'secondary',
-            'hover:bg-accent hover:text-accent-foreground': variant === 'ghost',
-            'text-primary underline-offset-4 hover:underline': variant === 'link',
-            'h-9 px-4 py-2': size === 'default',
-            'h-8 rounded-md px-3 text-xs': size === 'sm',
-            'h-10 rounded-md px-8': size === 'lg',
-            'h-9 w-9': size === 'icon',
-          },
-          className
-        )}
-        ref={ref}
-        {...props}
-      />
+      <button className={classes} ref={ref} {...props}>
+        {children}
+      </button>
     );
   }
 );
@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * Verification Panel Component
+ *
+ * Checks the lock transaction on-chain against the script rebuilt
+ * from the gift's terms, and shows a pass or fail for each check
+ */
+
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, Clock, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { GiftVerification, VerificationStatus } from '@/lib/verify';
+
+interface VerificationPanelProps {
+  giftId: string;
+  recipientId?: string; // Which output of a split gift to check
+  trancheId?: string; // Which tranche of a vesting schedule to check
+}
+
+const statusIcon: Record<VerificationStatus, React.ReactNode> = {
+  pass: <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />,
+  fail: <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />,
+  pending: <Clock className="w-4 h-4 text-yellow-500 shrink-0" />,
+};
+
+export function VerificationPanel({ giftId, recipientId, trancheId }: VerificationPanelProps) {
+  const [verification, setVerification] = useState<GiftVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const verify = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const query = recipientId
+        ? `?recipient=${encodeURIComponent(recipientId)}`
+        : trancheId ? `?tranche=${encodeURIComponent(trancheId)}` : '';
+      const response = await fetch(`/api/gifts/${giftId}/verify${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to verify gift');
+      }
+      setVerification(data);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          On-chain Verification
+        </Label>
+        <Button variant="outline" size="sm" onClick={verify} disabled={busy}>
+          {busy ? 'Checking...' : verification ? 'Check Again' : 'Verify Lock'}
+        </Button>
+      </div>
+
+      {verification && (
+        <div className="space-y-2">
+          <p className={`text-sm font-medium ${verification.verified ? 'text-green-600' : 'text-red-600'}`}>
+            {verification.verified
+              ? 'The lock transaction matches this gift'
+              : 'The lock transaction does not fully match this gift yet'}
+          </p>
+          <ul className="space-y-2">
+            {verification.checks.map(check => (
+              <li key={check.id} className="flex items-start gap-2 text-sm">
+                {statusIcon[check.status]}
+                <div>
+                  <p className="font-medium">{check.label}</p>
+                  <p className="text-xs text-muted-foreground break-all">{check.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Rebuilt scripts</summary>
+            <p className="mt-2">Witness script</p>
+            <code className="block p-2 bg-muted rounded break-all">{verification.witnessScript}</code>
+            <p className="mt-2">Expected output script</p>
+            <code className="block p-2 bg-muted rounded break-all">{verification.expectedOutputScript}</code>
+          </details>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+    </div>
+  );
+}
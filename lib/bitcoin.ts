@@ -7,17 +7,31 @@ import * as bitcoin from 'bitcoinjs-lib';
 import { ECPairFactory } from 'ecpair';
 import * as tinysecp from 'tiny-secp256k1';
 import * as bip32 from 'bip32';
-import { payments, lazy } from 'bitcoinjs-lib';
+import { payments } from 'bitcoinjs-lib';
+import type { Gift, GiftLockPart, GiftRecipient, GiftTranche } from './supabase';
+import type { ChainBackend, TxOutput, Utxo } from './chain';
 
 // Use ECPair for key handling
 const ECPair = ECPairFactory(tinysecp);
 
+// Taproot payments need an ECC library for tweaking
+bitcoin.initEccLib(tinysecp);
+
 // Network configuration
-export type Network = 'mainnet' | 'testnet';
+export type Network = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export const NETWORKS: Network[] = ['mainnet', 'testnet', 'signet', 'regtest'];
 
+// Lock output type
+export type LockType = 'p2wsh' | 'p2tr';
+
+// Signet shares testnet's address and key versions (bech32 "tb"),
+// regtest only differs in its bech32 prefix ("bcrt")
 export const networks = {
   mainnet: bitcoin.networks.bitcoin,
   testnet: bitcoin.networks.testnet,
+  signet: bitcoin.networks.testnet,
+  regtest: bitcoin.networks.regtest,
 };
 
 /**
@@ -27,6 +41,29 @@ export function getNetwork(network: Network) {
   return networks[network] || bitcoin.networks.testnet;
 }
 
+/**
+ * Get the network this deployment runs on (NEXT_PUBLIC_NETWORK)
+ * Falls back to mainnet when unset or unknown
+ */
+export function getConfiguredNetwork(): Network {
+  const network = process.env.NEXT_PUBLIC_NETWORK as Network;
+  return NETWORKS.includes(network) ? network : 'mainnet';
+}
+
+/**
+ * BIP44/BIP84 coin type: 0 for Bitcoin, 1 for every test network
+ */
+export function getCoinType(network: Network): number {
+  return network === 'mainnet' ? 0 : 1;
+}
+
+/**
+ * Example address prefix, for input placeholders
+ */
+export function getAddressPrefix(network: Network): string {
+  return `${getNetwork(network).bech32}1q`;
+}
+
 /**
  * Validate a Bitcoin address (bech32/p2wpkh)
  */
@@ -39,6 +76,41 @@ export function validateAddress(address: string, network: Network): boolean {
   }
 }
 
+/**
+ * Resolve a beneficiary (or recovery) key to a compressed public key
+ * Accepts a hex-encoded public key, or an xpub/tpub (first receive key at 0/0)
+ */
+export function parseBeneficiaryKey(key: string, network: Network): Buffer {
+  const trimmed = key.trim();
+
+  if (/^0[23][0-9a-fA-F]{64}$/.test(trimmed)) {
+    const pubkey = Buffer.from(trimmed, 'hex');
+    if (!tinysecp.isPoint(pubkey)) {
+      throw new Error('Invalid public key');
+    }
+    return pubkey;
+  }
+
+  // Throws if the version bytes don't match the network
+  const node = bip32.fromBase58(trimmed, getNetwork(network));
+  if (!node.isNeutered()) {
+    throw new Error('Extended private keys are not accepted');
+  }
+  return node.derive(0).derive(0).publicKey;
+}
+
+/**
+ * Validate a beneficiary public key or xpub
+ */
+export function validateBeneficiaryKey(key: string, network: Network): boolean {
+  try {
+    parseBeneficiaryKey(key, network);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Generate a deposit address from private key
  * Returns a native segwit (bech32) address
@@ -52,30 +124,99 @@ export function generateDepositAddress(wif: string, network: Network): string {
   return address!;
 }
 
+/**
+ * HD derivation scheme for deposit addresses
+ * BIP84 is what wallets restoring the seed look for native segwit under;
+ * BIP44 is the legacy path earlier gifts were derived at
+ */
+export type DerivationScheme = 'bip44' | 'bip84';
+
+export const DERIVATION_SCHEMES: DerivationScheme[] = ['bip44', 'bip84'];
+
+const DERIVATION_PURPOSE: Record<DerivationScheme, number> = {
+  bip44: 44,
+  bip84: 84,
+};
+
+/**
+ * Account that deposit addresses are derived under: m/purpose'/coin'/account'
+ * coin_type': 0 for Bitcoin, 1 for the test networks
+ */
+export function getAccountPath(
+  network: Network,
+  scheme: DerivationScheme = 'bip84',
+  account: number = 0
+): string {
+  return `m/${DERIVATION_PURPOSE[scheme]}'/${getCoinType(network)}'/${account}'`;
+}
+
+/**
+ * Check an account path: hardened steps only, e.g. m/84'/0'/0'
+ */
+export function isValidAccountPath(path: string): boolean {
+  return /^m(\/\d+')+$/.test(path);
+}
+
+/**
+ * Get the account path this deployment derives new deposit addresses under
+ * HD_ACCOUNT_PATH if set, otherwise HD_DERIVATION (bip84 by default) and HD_ACCOUNT
+ */
+export function getConfiguredAccountPath(network: Network): string {
+  const accountPath = process.env.HD_ACCOUNT_PATH;
+  if (accountPath) {
+    if (!isValidAccountPath(accountPath)) {
+      throw new Error(`Invalid HD_ACCOUNT_PATH: ${accountPath}`);
+    }
+    return accountPath;
+  }
+
+  const scheme = (process.env.HD_DERIVATION || 'bip84') as DerivationScheme;
+  if (!DERIVATION_SCHEMES.includes(scheme)) {
+    throw new Error(`Unknown HD_DERIVATION: ${scheme}`);
+  }
+  return getAccountPath(network, scheme, parseInt(process.env.HD_ACCOUNT || '0', 10));
+}
+
+/**
+ * Full path of a deposit address: the account's external chain, then the index
+ */
+export function getDepositPath(accountPath: string, index: number): string {
+  return `${accountPath}/0/${index}`;
+}
+
+/**
+ * Whether a path is a deposit address of a known scheme on this network,
+ * e.g. m/84'/coin'/account'/0/index
+ */
+export function isDepositPath(path: string, network: Network): boolean {
+  const match = /^m\/(\d+)'\/(\d+)'\/\d+'\/0\/\d+$/.exec(path);
+  return !!match &&
+    DERIVATION_SCHEMES.some(scheme => DERIVATION_PURPOSE[scheme] === Number(match[1])) &&
+    Number(match[2]) === getCoinType(network);
+}
+
 /**
  * Generate a unique HD wallet deposit address for a specific gift
- * Uses BIP44 derivation: m/44'/0'/0'/0/index
+ * Derived at accountPath/0/index, e.g. m/84'/0'/0'/0/index
  * 
  * @param rootSeed - BIP39 seed phrase
  * @param index - Gift index (increments for each gift)
- * @param network - mainnet or testnet
+ * @param network - mainnet, testnet, signet or regtest
+ * @param accountPath - Account to derive under, see getConfiguredAccountPath
  * @returns Unique deposit address for this gift
  */
 export function generateHDFeatureAddress(
   seedHex: string,
   index: number,
-  network: Network
-): { address: string; privateKey: string } {
+  network: Network,
+  accountPath: string
+): { address: string; privateKey: string; path: string } {
   const networkConfig = getNetwork(network);
   
   // Create root node from seed
   const root = bip32.fromSeed(Buffer.from(seedHex, 'hex'), networkConfig);
   
-  // Derive path: m/44'/0'/0'/0/index (BIP44 for native segwit)
-  // coin_type': 0 for Bitcoin, 1 for Testnet
-  const coinType = network === 'mainnet' ? 0 : 1;
-  const path = `m/44'/${coinType}'/0'/0/${index}`;
-  
+  const path = getDepositPath(accountPath, index);
   const child = root.derivePath(path);
   
   // Generate bech32 (native segwit) address
@@ -87,6 +228,60 @@ export function generateHDFeatureAddress(
   return {
     address: address!,
     privateKey: child.toWIF(),
+    path,
+  };
+}
+
+/**
+ * Account xpub and seed fingerprint for a watch-only deployment
+ * Run this next to the seed; only the result goes to the web server
+ */
+export function getAccountXpub(
+  seedHex: string,
+  network: Network,
+  accountPath: string
+): { xpub: string; masterFingerprint: string } {
+  const root = bip32.fromSeed(Buffer.from(seedHex, 'hex'), getNetwork(network));
+  
+  return {
+    xpub: root.derivePath(accountPath).neutered().toBase58(),
+    masterFingerprint: root.fingerprint.toString('hex'),
+  };
+}
+
+/**
+ * Derive a gift's deposit address from the account xpub
+ * Same address as generateHDFeatureAddress, but no private key
+ */
+export function deriveWatchOnlyDepositAddress(
+  accountXpub: string,
+  masterFingerprint: string,
+  accountPath: string,
+  index: number,
+  network: Network
+): { address: string; depositKey: WatchOnlyKey } {
+  const networkConfig = getNetwork(network);
+  
+  let account: bip32.BIP32Interface;
+  try {
+    account = bip32.fromBase58(accountXpub, networkConfig);
+  } catch {
+    throw new Error(`Invalid account xpub for ${network}`);
+  }
+  
+  const child = account.derive(0).derive(index);
+  const { address } = payments.p2wpkh({
+    pubkey: child.publicKey,
+    network: networkConfig,
+  });
+  
+  return {
+    address: address!,
+    depositKey: {
+      pubkey: child.publicKey.toString('hex'),
+      masterFingerprint,
+      path: getDepositPath(accountPath, index),
+    },
   };
 }
 
@@ -97,30 +292,85 @@ export function getPubkeyHash(pubkey: Buffer): Buffer {
   return bitcoin.crypto.ripemd160(bitcoin.crypto.sha256(pubkey));
 }
 
+/**
+ * Script template of a CLTV branch
+ * - cltv: <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <pubkey> OP_CHECKSIG (gifts created before descriptors)
+ * - miniscript: <pubkey> OP_CHECKSIGVERIFY <locktime> OP_CHECKLOCKTIMEVERIFY, i.e. and_v(v:pk(KEY),after(T))
+ */
+export type LockScript = 'cltv' | 'miniscript';
+
+/**
+ * Everything a lock output commits to
+ * Rebuilding the output from the same terms must give the same script
+ */
+export interface LockTerms {
+  lockType: LockType;
+  script?: LockScript; // Defaults to cltv
+  beneficiaryPubkey: string; // Compressed public key (hex)
+  unlockLocktime: number; // Unix timestamp, or block height if below LOCKTIME_THRESHOLD
+  
+  // Optional sender recovery branch, spendable after recoveryTimestamp
+  recoveryPubkey?: string | null;
+  recoveryTimestamp?: number | null;
+
+  // Optional early release: the beneficiary plus any one guardian, at any time
+  // (miniscript template only)
+  guardianPubkeys?: string[] | null;
+}
+
+/**
+ * Which branch of a lock is being spent
+ */
+export type SpendPath = 'beneficiary' | 'recovery' | 'guardian';
+
+/**
+ * Get the lock terms stored on a gift
+ * For a gift locked in several outputs, pass the recipient (its key) or
+ * the tranche (its unlock and recovery times) whose output it is
+ */
+export function getGiftLockTerms(
+  gift: Gift,
+  part: Partial<Pick<GiftRecipient, 'beneficiary_pubkey'> & Pick<GiftTranche, 'unlock_at' | 'recovery_at'>> | null = null
+): LockTerms {
+  const recoveryAt = part?.recovery_at !== undefined ? part.recovery_at : gift.recovery_at;
+  return {
+    lockType: gift.lock_type,
+    script: gift.lock_script,
+    beneficiaryPubkey: part?.beneficiary_pubkey ?? gift.beneficiary_pubkey,
+    unlockLocktime: part?.unlock_at
+      ? Math.floor(new Date(part.unlock_at).getTime() / 1000)
+      : gift.unlock_height ?? Math.floor(new Date(gift.unlock_at).getTime() / 1000),
+    recoveryPubkey: gift.recovery_pubkey,
+    recoveryTimestamp: recoveryAt
+      ? Math.floor(new Date(recoveryAt).getTime() / 1000)
+      : null,
+    guardianPubkeys: gift.guardian_pubkeys,
+  };
+}
+
 /**
  * Build a CLTV (CheckLockTimeVerify) locking transaction
  * 
- * This creates a P2WSH output that can ONLY be spent by the beneficiary
- * after the unlock timestamp has passed.
+ * This creates a P2WSH output that can ONLY be spent by the holder of the
+ * beneficiary's private key after the unlock time (or block height) has passed.
  * 
  * @param params Configuration for the locking tx
  * @returns Signed PSBT in base64
  */
 export interface LockingTxParams {
-  // UTXO to spend (from sender's deposit)
-  utxoTxId: string;
-  utxoVout: number;
-  utxoAmountSats: number;
+  // UTXOs to spend (every payment to the deposit address)
+  utxos: Pick<Utxo, 'txid' | 'vout' | 'amount'>[];
   
   // Keys
   hotWalletWif: string;
-  beneficiaryAddress: string;
   
   // Lock settings
-  unlockTimestamp: number; // Unix timestamp
-  feePercent: number;
+  lockTerms: LockTerms;
+  splits?: LockSplit[]; // One lock output per split instead of lockTerms
+  feeSats: number; // Service fee from the gift's fee quote
   feeAddress: string;
-  claimUrl: string; // URL for beneficiary to claim
+  opReturn: OpReturnMode; // Gift commitment output, or none
+  feeRate: number; // Miner fee rate, sat/vB
   
   // Network
   network: Network;
@@ -128,214 +378,1673 @@ export interface LockingTxParams {
 
 export interface LockingTxResult {
   psbt: string;
+  txHex: string; // Finalized raw transaction, ready to broadcast
   txid: string;
-  feeSats: number;
+  lockVout: number; // Index of the (first) lock output
+  outputs: LockOutputResult[]; // Every lock output, in split order
+  serviceFeeSats: number; // Paid to the operator's fee address
+  minerFeeSats: number; // Left for miners (inputs minus outputs)
   lockedAmountSats: number;
+  vsize: number;
 }
 
 /**
- * Build the CLTV redeem script
- * Pattern: <unlockTime> OP_CHECKLOCKTIMEVERIFY OP_DROP <beneficiaryPubkeyHash> OP_CHECKSIG
+ * Outputs below this value are non-standard and won't relay
  */
-function createCLTVRedeemScript(
-  beneficiaryPubkeyHash: Buffer,
-  unlockTimestamp: number,
-  network: Network
-): Buffer {
-  const networkConfig = getNetwork(network);
-  
-  // CLTV expects locktime as OP_0 through OP_16 or a number
-  // We'll use a numeric push for the timestamp
-  const lockTimeBuffer = Buffer.alloc(4);
-  lockTimeBuffer.writeUInt32LE(unlockTimestamp, 0);
-  
-  return bitcoin.script.fromASM(
-    `${lockTimeBuffer.toString('hex')} OP_CHECKLOCKTIMEVERIFY OP_DROP ${beneficiaryPubkeyHash.toString('hex')} OP_CHECKSIG`
+export const DUST_LIMIT_SATS = 546;
+
+/**
+ * Estimate the vsize of a transaction spending P2WPKH inputs
+ * 
+ * Each P2WPKH input is 41 bytes plus ~107 bytes of witness (68 vB);
+ * each output is 8 bytes of value plus its length-prefixed script.
+ */
+export function estimateVsize(p2wpkhInputs: number, outputScripts: Buffer[]): number {
+  const overheadWeight = 4 * 10 + 2; // version, locktime, counts + segwit marker/flag
+  const inputWeight = 4 * 41 + 108;
+  const outputsWeight = outputScripts.reduce(
+    (sum, script) => sum + 4 * (8 + 1 + script.length),
+    0
   );
+  return Math.ceil((overheadWeight + p2wpkhInputs * inputWeight + outputsWeight) / 4);
 }
 
 /**
- * Build and sign the CLTV locking transaction
+ * Input sequence that opts in to replace-by-fee (BIP125)
+ * Anything with bit 31 clear would also be a BIP68 relative lock,
+ * so this stays above 0x80000000 but below 0xfffffffe
  */
-export function buildLockingTransaction(params: LockingTxParams): LockingTxResult {
-  const {
-    utxoTxId,
-    utxoVout,
-    utxoAmountSats,
-    hotWalletWif,
-    beneficiaryAddress,
-    unlockTimestamp,
-    feePercent,
-    feeAddress,
-    claimUrl,
-    network,
-  } = params;
+export const RBF_SEQUENCE = 0xfffffffd;
 
-  const networkConfig = getNetwork(network);
-  const hotKeyPair = ECPair.fromWIF(hotWalletWif, networkConfig);
-  
-  // Get beneficiary pubkey hash
-  // First validate the beneficiary address to get info
-  const beneficiaryOutputScript = bitcoin.address.toOutputScript(beneficiaryAddress, networkConfig);
-  
-  // For P2WSH, we need the full pubkey, but for simplicity we'll use the address
-  // as the hash (this works with the pattern)
-  const beneficiaryPubkeyHash = bitcoin.crypto.ripemd160(bitcoin.crypto.sha256(hotKeyPair.publicKey));
-  
-  // Create the CLTV redeem script
-  const redeemScript = createCLTVRedeemScript(beneficiaryPubkeyHash, unlockTimestamp, network);
-  
-  // Calculate amounts
-  const feeSats = Math.floor(utxoAmountSats * (feePercent / 100));
-  // Reserve 546 sats for OP_RETURN (dust)
-  const opReturnDust = 546;
-  const lockedAmountSats = utxoAmountSats - feeSats - opReturnDust;
-  
-  if (lockedAmountSats <= 0) {
-    throw new Error('Amount too small to cover fee');
+/**
+ * Fee rate for replacing a transaction paid at previousRate
+ * At least 25% (and 1 sat/vB) above the old rate so relays accept it,
+ * or the current target rate if that's higher, capped at maxRate
+ */
+export function bumpFeeRate(previousRate: number, targetRate: number, maxRate: number): number {
+  const minimumRate = Math.max(previousRate * 1.25, previousRate + 1);
+  return Math.min(Math.ceil(Math.max(minimumRate, targetRate)), maxRate);
+}
+
+/**
+ * nLockTime values below this are block heights, at or above are Unix timestamps
+ */
+export const LOCKTIME_THRESHOLD = 500_000_000;
+
+/**
+ * Target spacing between blocks, used for height <-> date estimates
+ */
+export const BLOCK_INTERVAL_SECONDS = 600;
+
+/**
+ * Check whether a locktime is a block height rather than a timestamp
+ */
+export function isBlockHeightLocktime(locktime: number): boolean {
+  return locktime < LOCKTIME_THRESHOLD;
+}
+
+/**
+ * Estimate the block height that will be reached at a given date
+ */
+export function estimateBlockHeight(date: Date, tipHeight: number, now: Date = new Date()): number {
+  const seconds = (date.getTime() - now.getTime()) / 1000;
+  return tipHeight + Math.max(0, Math.ceil(seconds / BLOCK_INTERVAL_SECONDS));
+}
+
+/**
+ * Estimate the date at which a block height will be reached
+ */
+export function estimateBlockDate(height: number, tipHeight: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + (height - tipHeight) * BLOCK_INTERVAL_SECONDS * 1000);
+}
+
+/**
+ * Build the CLTV redeem script
+ * Pattern: <locktime> OP_CHECKLOCKTIMEVERIFY OP_DROP <pubkey> OP_CHECKSIG,
+ * or <pubkey> OP_CHECKSIGVERIFY <locktime> OP_CHECKLOCKTIMEVERIFY for the miniscript template
+ * 
+ * The locktime is pushed as a minimally encoded script number, as
+ * OP_CHECKLOCKTIMEVERIFY reads it (up to 5 bytes for values >= 2^31).
+ */
+function createCLTVRedeemScript(pubkey: Buffer, locktime: number, template: LockScript = 'cltv'): Buffer {
+  if (template === 'miniscript') {
+    return bitcoin.script.compile([
+      pubkey,
+      bitcoin.opcodes.OP_CHECKSIGVERIFY,
+      bitcoin.script.number.encode(locktime),
+      bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY,
+    ]);
   }
-  
-  // Build the PSBT
-  const psbt = new bitcoin.Psbt({ network: networkConfig });
-  
-  // Add input (the UTXO we're spending)
-  psbt.addInput({
-    hash: utxoTxId,
-    index: utxoVout,
-    sequence: 0xe0, // Enable locktime
-  });
-  
-  // Output 1: Fee to operator (spendable immediately)
-  psbt.addOutput({
-    address: feeAddress,
-    value: feeSats,
-  });
-  
-  // Output 2: Time-locked to beneficiary (P2WSH)
-  const p2wsh = bitcoin.payments.p2wsh({
-    redeem: { output: redeemScript },
-    network: networkConfig,
-  });
-  
-  psbt.addOutput({
-    address: p2wsh.address,
-    value: lockedAmountSats,
-  });
-  
-  // Output 3: OP_RETURN with claim instructions
-  // Encode claim URL as OP_RETURN
-  const message = `Claim at ${claimUrl}`;
-  const data = Buffer.from(message, 'utf8');
-  const opReturnScript = bitcoin.script.compile([
-    bitcoin.opcodes.OP_RETURN,
-    data,
+  return bitcoin.script.compile([
+    bitcoin.script.number.encode(locktime),
+    bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY,
+    bitcoin.opcodes.OP_DROP,
+    pubkey,
+    bitcoin.opcodes.OP_CHECKSIG,
   ]);
-  
-  psbt.addOutput({
-    script: opReturnScript,
-    value: 0,
-  });
-  
-  // Sign with hot wallet key
-  psbt.signAllInputs(hotKeyPair);
-  
-  // Finalize inputs
-  psbt.finalizeAllInputs();
-  
-  return {
-    psbt: psbt.toBase64(),
-    txid: psbt.extractTransaction().getId(),
-    feeSats,
-    lockedAmountSats,
-  };
 }
 
 /**
- * Broadcast a transaction via Mempool.space API
+ * Build the guardian leaf of a Taproot lock, and_v(v:pk(B),multi_a(1,G...)):
+ * <beneficiary> OP_CHECKSIGVERIFY <g1> OP_CHECKSIG <g2> OP_CHECKSIGADD ... 1 OP_NUMEQUAL
  */
-export async function broadcastTransaction(
-  psbtBase64: string,
-  mempoolUrl: string
-): Promise<string> {
-  const response = await fetch(`${mempoolUrl}/tx`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'text/plain',
-    },
-    body: psbtBase64,
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Broadcast failed: ${error}`);
+function createGuardianLeaf(beneficiaryKey: Buffer, guardianKeys: Buffer[]): Buffer {
+  return bitcoin.script.compile([
+    beneficiaryKey,
+    bitcoin.opcodes.OP_CHECKSIGVERIFY,
+    ...guardianKeys.flatMap((key, i) => [
+      key,
+      i === 0 ? bitcoin.opcodes.OP_CHECKSIG : bitcoin.opcodes.OP_CHECKSIGADD,
+    ]),
+    bitcoin.opcodes.OP_1,
+    bitcoin.opcodes.OP_NUMEQUAL,
+  ]);
+}
+
+/**
+ * Build a P2WSH beneficiary branch with a guardian early release,
+ * and_v(v:pk(B),or_i(after(T),multi(1,G...))):
+ * <beneficiary> OP_CHECKSIGVERIFY OP_IF <locktime> OP_CLTV OP_ELSE 1 <guardian>... <n> OP_CHECKMULTISIG OP_ENDIF
+ * The beneficiary key appears once, as miniscript wallets reject duplicate keys
+ */
+function createGuardedCLTVScript(beneficiaryKey: Buffer, locktime: number, guardianKeys: Buffer[]): Buffer {
+  return bitcoin.script.compile([
+    beneficiaryKey,
+    bitcoin.opcodes.OP_CHECKSIGVERIFY,
+    bitcoin.opcodes.OP_IF,
+    bitcoin.script.number.encode(locktime),
+    bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY,
+    bitcoin.opcodes.OP_ELSE,
+    bitcoin.opcodes.OP_1,
+    ...guardianKeys,
+    bitcoin.script.number.encode(guardianKeys.length),
+    bitcoin.opcodes.OP_CHECKMULTISIG,
+    bitcoin.opcodes.OP_ENDIF,
+  ]);
+}
+
+// The branches a lock has, which decides the shape of its witnesses
+interface LockLayout {
+  lockType: LockType;
+  hasRecovery: boolean;
+  hasGuardians: boolean;
+}
+
+function buildSpendWitness(
+  layout: LockLayout,
+  spendPath: SpendPath,
+  signature: Buffer,
+  guardianSignatures: (Buffer | null)[]
+): Buffer[] {
+  const one = Buffer.from([1]);
+  const empty = Buffer.alloc(0);
+
+  // Taproot: one leaf per branch, the control block picks it.
+  // multi_a checks the first guardian's item last, so they go in reverse
+  if (layout.lockType === 'p2tr') {
+    return spendPath === 'guardian'
+      ? [...guardianSignatures.map(sig => sig || empty).reverse(), signature]
+      : [signature];
   }
-  
-  return response.text();
+
+  // P2WSH: OP_IF takes the beneficiary's side, OP_ELSE the sender's
+  const outer = layout.hasRecovery ? [spendPath === 'recovery' ? empty : one] : [];
+  if (spendPath === 'recovery' || !layout.hasGuardians) {
+    return [signature, ...outer];
+  }
+  if (spendPath === 'beneficiary') {
+    return [one, signature, ...outer];
+  }
+  // OP_CHECKMULTISIG takes one guardian signature over a dummy item
+  const guardianSignature = guardianSignatures.find(sig => sig !== null);
+  if (!guardianSignature) {
+    throw new Error('Release needs a guardian signature');
+  }
+  return [empty, guardianSignature, empty, signature, ...outer];
 }
 
 /**
- * Get UTXO details from Mempool.space
+ * Witness stack items for spending a lock, before the script (and control block)
+ * The signature is the beneficiary's, or the sender's on the recovery branch.
+ * Guardian signatures follow terms.guardianPubkeys, null where a guardian didn't sign.
  */
-export async function getUtxo(
-  address: string,
-  mempoolUrl: string
-): Promise<{ txid: string; vout: number; amount: number } | null> {
-  const response = await fetch(`${mempoolUrl}/address/${address}/utxo`);
-  
-  if (!response.ok) {
-    return null;
+export function getSpendWitness(
+  terms: LockTerms,
+  spendPath: SpendPath,
+  signature: Buffer,
+  guardianSignatures: (Buffer | null)[] = []
+): Buffer[] {
+  return buildSpendWitness({
+    lockType: terms.lockType,
+    hasRecovery: !!(terms.recoveryPubkey && terms.recoveryTimestamp),
+    hasGuardians: !!terms.guardianPubkeys?.length,
+  }, spendPath, signature, guardianSignatures);
+}
+
+/**
+ * BIP341 NUMS point (x-only): nobody knows its private key,
+ * so a Taproot output using it as internal key has no key-path spend
+ */
+const NUMS_INTERNAL_KEY = Buffer.from(
+  '50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0',
+  'hex'
+);
+
+/**
+ * Leaf version for BIP342 tapscript
+ */
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+
+/**
+ * Build the payment for a gift's CLTV lock
+ * Used both when locking and when spending, so the two always agree
+ * 
+ * - p2wsh: witness script <unlockLocktime> OP_CLTV OP_DROP <pubkey> OP_CHECKSIG,
+ *   or with a recovery branch:
+ *   OP_IF <unlock branch> OP_ELSE <recoveryTime> OP_CLTV OP_DROP <recoveryPubkey> OP_CHECKSIG OP_ENDIF
+ *   (branches follow terms.script, see LockScript). Guardians add an OP_ELSE
+ *   to the beneficiary branch, see createGuardedCLTVScript.
+ * - p2tr: NUMS internal key with one leaf per branch, using x-only keys.
+ *   The redeem is set to the leaf for `spendPath`, so `witness` ends with
+ *   the control block for that leaf.
+ */
+export function createLockPayment(
+  terms: LockTerms,
+  network: Network,
+  spendPath: SpendPath = 'beneficiary'
+): bitcoin.Payment {
+  const beneficiaryKey = parseBeneficiaryKey(terms.beneficiaryPubkey, network);
+  const recoveryKey = terms.recoveryPubkey && terms.recoveryTimestamp
+    ? parseBeneficiaryKey(terms.recoveryPubkey, network)
+    : null;
+
+  const guardianKeys = (terms.guardianPubkeys || []).map(key => parseBeneficiaryKey(key, network));
+
+  if (spendPath === 'recovery' && !recoveryKey) {
+    throw new Error('Lock has no recovery branch');
   }
-  
-  const utxos = await response.json();
-  
-  // Return first confirmed UTXO (or first unconfirmed)
-  if (utxos.length > 0) {
-    const utxo = utxos[0];
-    return {
-      txid: utxo.txid,
-      vout: utxo.vout,
-      amount: utxo.value,
-    };
+  if (spendPath === 'guardian' && guardianKeys.length === 0) {
+    throw new Error('Lock has no guardian branch');
   }
-  
-  return null;
+  if (guardianKeys.length > 0 && terms.script !== 'miniscript') {
+    throw new Error('Guardian branches need the miniscript template');
+  }
+
+  if (terms.lockType === 'p2tr') {
+    const xOnly = (key: Buffer) => key.subarray(1, 33);
+    const beneficiaryLeaf = createCLTVRedeemScript(xOnly(beneficiaryKey), terms.unlockLocktime, terms.script);
+    const recoveryLeaf = recoveryKey
+      ? createCLTVRedeemScript(xOnly(recoveryKey), terms.recoveryTimestamp!, terms.script)
+      : null;
+    const guardianLeaf = guardianKeys.length > 0
+      ? createGuardianLeaf(xOnly(beneficiaryKey), guardianKeys.map(xOnly))
+      : null;
+    const spentLeaf = spendPath === 'recovery' ? recoveryLeaf!
+      : spendPath === 'guardian' ? guardianLeaf!
+      : beneficiaryLeaf;
+
+    // {beneficiary, recovery}, {beneficiary, guardian} or {beneficiary, {recovery, guardian}}
+    const otherLeaves = [recoveryLeaf, guardianLeaf]
+      .filter((leaf): leaf is Buffer => leaf !== null)
+      .map(output => ({ output }));
+    return bitcoin.payments.p2tr({
+      internalPubkey: NUMS_INTERNAL_KEY,
+      scriptTree: otherLeaves.length === 0
+        ? { output: beneficiaryLeaf }
+        : [{ output: beneficiaryLeaf }, otherLeaves.length === 1 ? otherLeaves[0] : [otherLeaves[0], otherLeaves[1]]],
+      redeem: { output: spentLeaf, redeemVersion: TAPSCRIPT_LEAF_VERSION },
+      network: getNetwork(network),
+    });
+  }
+
+  const beneficiaryScript = guardianKeys.length > 0
+    ? createGuardedCLTVScript(beneficiaryKey, terms.unlockLocktime, guardianKeys)
+    : createCLTVRedeemScript(beneficiaryKey, terms.unlockLocktime, terms.script);
+  const redeemScript = recoveryKey
+    ? bitcoin.script.compile([
+        bitcoin.opcodes.OP_IF,
+        ...bitcoin.script.decompile(beneficiaryScript)!,
+        bitcoin.opcodes.OP_ELSE,
+        ...bitcoin.script.decompile(
+          createCLTVRedeemScript(recoveryKey, terms.recoveryTimestamp!, terms.script)
+        )!,
+        bitcoin.opcodes.OP_ENDIF,
+      ])
+    : beneficiaryScript;
+
+  return bitcoin.payments.p2wsh({
+    redeem: { output: redeemScript },
+    network: getNetwork(network),
+  });
 }
 
 /**
- * Get address info from Mempool.space
+ * Read the first CLTV branch of a lock script, in either LockScript template
+ * For a P2WSH lock with a recovery branch, that is the beneficiary's branch
  */
-export async function getAddressInfo(
-  address: string,
-  mempoolUrl: string
-): Promise<{ confirmed: number; unconfirmed: number; txCount: number }> {
-  const response = await fetch(`${mempoolUrl}/address/${address}`);
+export function decodeCLTVScript(script: Buffer): { locktime: number; pubkey: string } | null {
+  const chunks = bitcoin.script.decompile(script);
+  if (!chunks) return null;
   
-  if (!response.ok) {
-    return { confirmed: 0, unconfirmed: 0, txCount: 0 };
-  }
+  const cltv = chunks.indexOf(bitcoin.opcodes.OP_CHECKLOCKTIMEVERIFY);
+  if (cltv < 1) return null;
+  
+  const locktime = chunks[cltv - 1];
+  const pubkey = chunks[cltv + 1] === bitcoin.opcodes.OP_DROP
+    ? chunks[cltv + 2]
+    : chunks[cltv - 2] === bitcoin.opcodes.OP_CHECKSIGVERIFY ? chunks[cltv - 3]
+    // A guardian release puts an OP_IF between the key and the locktime
+    : chunks[cltv - 2] === bitcoin.opcodes.OP_IF && chunks[cltv - 3] === bitcoin.opcodes.OP_CHECKSIGVERIFY ? chunks[cltv - 4]
+    : null;
+  if (!Buffer.isBuffer(pubkey)) return null;
   
-  const info = await response.json();
+  // Locktimes up to 16 compile to small-number opcodes
   return {
-    confirmed: info.chain_stats?.funded_txo_sum || 0,
-    unconfirmed: info.mempool_stats?.funded_txo_sum || 0,
-    txCount: info.chain_stats?.tx_count || 0,
+    locktime: Buffer.isBuffer(locktime)
+      ? bitcoin.script.number.decode(locktime, 5)
+      : locktime === bitcoin.opcodes.OP_0 ? 0 : locktime - bitcoin.opcodes.OP_1 + 1,
+    pubkey: pubkey.toString('hex'),
   };
 }
 
 /**
- * Estimate fee rate from Mempool.space
+ * Output descriptor checksums (BIP380)
  */
-export async function getFeeRate(
-  mempoolUrl: string,
-  targetBlocks: number = 6
-): Promise<number> {
-  try {
-    const response = await fetch(`${mempoolUrl}/fees/recommended`);
-    if (!response.ok) return 1000; // Default 10 sat/vbyte
-    
-    const fees = await response.json();
-    return fees[`${targetBlocks}blocks`] || fees.hour || 1000;
-  } catch {
-    return 1000; // Default fallback
+const DESCRIPTOR_INPUT_CHARSET =
+  '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const DESCRIPTOR_CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const DESCRIPTOR_GENERATOR = [
+  '0xf5dee51989', '0xa9fdca3312', '0x1bab10e32d', '0x3706b1677a', '0x644d626ffd',
+].map(g => BigInt(g));
+
+function descriptorPolymod(c: bigint, value: number): bigint {
+  const c0 = c >> BigInt(35);
+  let next = ((c & BigInt('0x7ffffffff')) << BigInt(5)) ^ BigInt(value);
+  DESCRIPTOR_GENERATOR.forEach((generator, i) => {
+    if ((c0 >> BigInt(i)) & BigInt(1)) next ^= generator;
+  });
+  return next;
+}
+
+/**
+ * Append the BIP380 checksum to a descriptor, as `desc#checksum`
+ */
+export function addDescriptorChecksum(descriptor: string): string {
+  let c = BigInt(1);
+  let group = 0;
+  let groupCount = 0;
+  for (const ch of descriptor.split('')) {
+    const pos = DESCRIPTOR_INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new Error(`Invalid descriptor character: ${ch}`);
+    }
+    c = descriptorPolymod(c, pos & 31);
+    group = group * 3 + (pos >> 5);
+    if (++groupCount === 3) {
+      c = descriptorPolymod(c, group);
+      group = 0;
+      groupCount = 0;
+    }
+  }
+  if (groupCount > 0) c = descriptorPolymod(c, group);
+  for (let i = 0; i < 8; i++) c = descriptorPolymod(c, 0);
+  c ^= BigInt(1);
+
+  let checksum = '';
+  for (let i = 0; i < 8; i++) {
+    checksum += DESCRIPTOR_CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & BigInt(31))];
   }
+  return `${descriptor}#${checksum}`;
+}
+
+/**
+ * Miniscript after() only takes locktimes below 2^31 (early 2038 as a timestamp)
+ */
+const MINISCRIPT_MAX_LOCKTIME = 0x80000000;
+
+/**
+ * Get a descriptor for a gift's lock output, with checksum
+ * Miniscript locks give wsh(and_v(v:pk(KEY),after(T))) or tr(NUMS,...), with
+ * or_i / a second leaf for the recovery branch and multi / multi_a for guardians,
+ * which wallets can watch and sign for. Otherwise this is the addr() descriptor, enough to watch the output.
+ */
+export function getLockDescriptor(terms: LockTerms, network: Network): string {
+  const locktimes = [terms.unlockLocktime];
+  const recovery = terms.recoveryPubkey && terms.recoveryTimestamp
+    ? { pubkey: terms.recoveryPubkey, locktime: terms.recoveryTimestamp }
+    : null;
+  if (recovery) locktimes.push(recovery.locktime);
+
+  if (terms.script !== 'miniscript' || locktimes.some(t => t >= MINISCRIPT_MAX_LOCKTIME)) {
+    return addDescriptorChecksum(`addr(${createLockPayment(terms, network).address!})`);
+  }
+
+  // Taproot leaves take x-only keys
+  const key = (pubkey: string) => {
+    const parsed = parseBeneficiaryKey(pubkey, network);
+    return (terms.lockType === 'p2tr' ? parsed.subarray(1, 33) : parsed).toString('hex');
+  };
+  const guardians = terms.guardianPubkeys?.length ? terms.guardianPubkeys.map(key).join(',') : null;
+  const sender = recovery ? `and_v(v:pk(${key(recovery.pubkey)}),after(${recovery.locktime}))` : null;
+
+  if (terms.lockType === 'p2tr') {
+    const beneficiary = `and_v(v:pk(${key(terms.beneficiaryPubkey)}),after(${terms.unlockLocktime}))`;
+    const guardian = guardians ? `and_v(v:pk(${key(terms.beneficiaryPubkey)}),multi_a(1,${guardians}))` : null;
+    const others = [sender, guardian].filter(Boolean);
+    const tree = others.length === 0 ? beneficiary
+      : `{${beneficiary},${others.length === 1 ? others[0] : `{${others[0]},${others[1]}}`}}`;
+    return addDescriptorChecksum(`tr(${NUMS_INTERNAL_KEY.toString('hex')},${tree})`);
+  }
+  const beneficiary = guardians
+    ? `and_v(v:pk(${key(terms.beneficiaryPubkey)}),or_i(after(${terms.unlockLocktime}),multi(1,${guardians})))`
+    : `and_v(v:pk(${key(terms.beneficiaryPubkey)}),after(${terms.unlockLocktime}))`;
+  return addDescriptorChecksum(sender ? `wsh(or_i(${beneficiary},${sender}))` : `wsh(${beneficiary})`);
+}
+
+/**
+ * Whether lock transactions carry a gift commitment OP_RETURN
+ */
+export type OpReturnMode = 'commitment' | 'none';
+
+/**
+ * Get the operator's OP_RETURN setting (LOCK_OP_RETURN, default commitment)
+ */
+export function getOpReturnMode(): OpReturnMode {
+  return process.env.LOCK_OP_RETURN === 'none' ? 'none' : 'commitment';
+}
+
+/**
+ * Gift commitment OP_RETURN payload, 23 bytes:
+ * "LGFT" | version | first lock vout | lock count | sha256(lock scripts)[0..16]
+ */
+export const GIFT_COMMITMENT_TAG = Buffer.from('LGFT', 'ascii');
+export const GIFT_COMMITMENT_VERSION = 1;
+const GIFT_COMMITMENT_HASH_BYTES = 16;
+
+export interface GiftCommitment {
+  version: number;
+  firstLockVout: number;
+  lockCount: number;
+  commitment: string; // Hex, truncated hash of the lock output scripts
+}
+
+function hashLockScripts(lockScripts: Buffer[]): Buffer {
+  return bitcoin.crypto.sha256(Buffer.concat(lockScripts)).subarray(0, GIFT_COMMITMENT_HASH_BYTES);
+}
+
+/**
+ * Build the OP_RETURN script committing to a lock tx's lock outputs
+ */
+export function encodeGiftCommitment(lockScripts: Buffer[], firstLockVout: number): Buffer {
+  if (lockScripts.length === 0 || lockScripts.length > 255 || firstLockVout > 255) {
+    throw new Error('Lock outputs out of range for a gift commitment');
+  }
+  return bitcoin.script.compile([
+    bitcoin.opcodes.OP_RETURN,
+    Buffer.concat([
+      GIFT_COMMITMENT_TAG,
+      Buffer.from([GIFT_COMMITMENT_VERSION, firstLockVout, lockScripts.length]),
+      hashLockScripts(lockScripts),
+    ]),
+  ]);
+}
+
+/**
+ * Decode a gift commitment from an output script (Buffer or hex)
+ * Returns null for anything that isn't a LockGift commitment this code understands
+ */
+export function decodeGiftCommitment(script: Buffer | string): GiftCommitment | null {
+  const buffer = typeof script === 'string' ? Buffer.from(script, 'hex') : script;
+  
+  let chunks: ReturnType<typeof bitcoin.script.decompile>;
+  try {
+    chunks = bitcoin.script.decompile(buffer);
+  } catch {
+    return null;
+  }
+  if (!chunks || chunks.length !== 2 || chunks[0] !== bitcoin.opcodes.OP_RETURN) return null;
+  
+  const payload = chunks[1];
+  if (!Buffer.isBuffer(payload) || payload.length !== GIFT_COMMITMENT_TAG.length + 3 + GIFT_COMMITMENT_HASH_BYTES) {
+    return null;
+  }
+  if (!payload.subarray(0, GIFT_COMMITMENT_TAG.length).equals(GIFT_COMMITMENT_TAG)) return null;
+  
+  const version = payload[GIFT_COMMITMENT_TAG.length];
+  if (version !== GIFT_COMMITMENT_VERSION) return null;
+  
+  return {
+    version,
+    firstLockVout: payload[GIFT_COMMITMENT_TAG.length + 1],
+    lockCount: payload[GIFT_COMMITMENT_TAG.length + 2],
+    commitment: payload.subarray(GIFT_COMMITMENT_TAG.length + 3).toString('hex'),
+  };
+}
+
+/**
+ * Recognize a LockGift lock tx from its outputs
+ * Returns the lock outputs if a commitment output matches them, otherwise null
+ */
+export function findCommittedLockOutputs(outputs: TxOutput[]): TxOutput[] | null {
+  for (const output of outputs) {
+    const decoded = decodeGiftCommitment(output.script);
+    if (!decoded) continue;
+    
+    const locks = outputs
+      .filter(o => o.vout >= decoded.firstLockVout && o.vout < decoded.firstLockVout + decoded.lockCount)
+      .sort((a, b) => a.vout - b.vout);
+    if (locks.length !== decoded.lockCount) continue;
+    
+    const hash = hashLockScripts(locks.map(o => Buffer.from(o.script, 'hex')));
+    if (hash.toString('hex') === decoded.commitment) return locks;
+  }
+  return null;
+}
+
+/**
+ * Build and sign the CLTV locking transaction
+ * A single lock is a batch of one
+ */
+export function buildLockingTransaction(params: LockingTxParams): LockingTxResult {
+  const batch = buildBatchLockingTransaction({
+    entries: [{
+      giftId: '',
+      utxos: params.utxos,
+      hotWalletWif: params.hotWalletWif,
+      lockTerms: params.lockTerms,
+      splits: params.splits,
+      feeSats: params.feeSats,
+    }],
+    feeAddress: params.feeAddress,
+    opReturn: params.opReturn,
+    feeRate: params.feeRate,
+    network: params.network,
+  });
+  const [lock] = batch.locks;
+  
+  return {
+    psbt: batch.psbt,
+    txHex: batch.txHex,
+    txid: batch.txid,
+    lockVout: lock.vout,
+    outputs: lock.outputs,
+    serviceFeeSats: lock.serviceFeeSats,
+    minerFeeSats: lock.minerFeeSats,
+    lockedAmountSats: lock.lockedAmountSats,
+    vsize: batch.vsize,
+  };
+}
+
+/**
+ * One of several lock outputs a gift is split into (one per recipient or tranche)
+ * The gift's locked amount is divided in proportion to the weights
+ */
+export interface LockSplit {
+  lockTerms: LockTerms;
+  weight: number;
+}
+
+export interface LockOutputResult {
+  vout: number;
+  lockedAmountSats: number;
+}
+
+/**
+ * Get the lock splits of a gift with several recipients or tranches, weighted
+ * by their part of the gift amount; undefined for a single lock output
+ */
+export function getGiftLockSplits(gift: Gift, parts: GiftLockPart[]): LockSplit[] | undefined {
+  if (parts.length < 2) return undefined;
+  return parts.map(part => ({
+    lockTerms: getGiftLockTerms(gift, part),
+    weight: part.amount_sats,
+  }));
+}
+
+/**
+ * Divide an amount by weight, rounding down; the first part takes the remainder
+ */
+function splitAmount(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const parts = weights.map(weight => Math.floor(amount * weight / totalWeight));
+  parts[0] += amount - parts.reduce((sum, part) => sum + part, 0);
+  return parts;
+}
+
+/**
+ * One gift in a batched lock transaction
+ */
+export interface BatchLockEntry {
+  giftId: string;
+  utxos: Pick<Utxo, 'txid' | 'vout' | 'amount'>[];
+  hotWalletWif: string; // Key for this gift's deposit address
+  lockTerms: LockTerms;
+  splits?: LockSplit[]; // One lock output per split instead of lockTerms
+  feeSats: number; // Service fee from the gift's fee quote
+}
+
+export interface BatchLockingTxParams {
+  entries: BatchLockEntry[];
+  feeAddress: string;
+  opReturn: OpReturnMode; // One commitment covers every lock output
+  feeRate: number; // Miner fee rate, sat/vB
+  network: Network;
+}
+
+export interface BatchLockResult {
+  giftId: string;
+  vout: number; // Index of this gift's (first) lock output
+  outputs: LockOutputResult[]; // Every lock output of this gift, in split order
+  serviceFeeSats: number; // This gift's part of the aggregated fee output
+  minerFeeSats: number; // This gift's share of the miner fee
+  lockedAmountSats: number;
+}
+
+export interface BatchLockingTxResult {
+  psbt: string;
+  txHex: string;
+  txid: string;
+  vsize: number;
+  serviceFeeSats: number; // Aggregated fee output, 0 if below dust
+  minerFeeSats: number;
+  locks: BatchLockResult[];
+}
+
+/**
+ * A deposit key the server only has the public half of
+ * The derivation tells an external signer which key to sign with
+ */
+export interface WatchOnlyKey {
+  pubkey: string; // Hex
+  masterFingerprint: string; // Hex, of the signer's seed
+  path: string; // Full derivation path, e.g. m/44'/0'/0'/0/7
+}
+
+export interface UnsignedLockEntry extends Omit<BatchLockEntry, 'hotWalletWif'> {
+  depositKey: WatchOnlyKey;
+}
+
+export interface UnsignedBatchLockingTxParams extends Omit<BatchLockingTxParams, 'entries'> {
+  entries: UnsignedLockEntry[];
+}
+
+export type UnsignedBatchLockingTxResult = Omit<BatchLockingTxResult, 'txHex'>;
+
+/**
+ * Lay out the (unsigned) lock transaction for a batch of gifts
+ *
+ * Outputs: one aggregated service fee output (if above dust), the CLTV
+ * lock outputs in entry order (one per gift, or one per split), then the
+ * OP_RETURN commitment (unless the operator turned it off).
+ * Each gift pays the miner fee for its own inputs and lock output, plus
+ * a share of the common parts in proportion to its own size.
+ */
+function createBatchLockingPsbt(
+  entries: { entry: Omit<BatchLockEntry, 'hotWalletWif'>; pubkey: Buffer; derivation?: WatchOnlyKey }[],
+  params: Omit<BatchLockingTxParams, 'entries'>
+): Omit<BatchLockingTxResult, 'psbt' | 'txHex' | 'txid'> & { psbt: bitcoin.Psbt } {
+  const { feeAddress, opReturn, feeRate, network } = params;
+
+  if (entries.length === 0) {
+    throw new Error('No gifts to lock');
+  }
+  for (const { entry } of entries) {
+    if (entry.utxos.length === 0) {
+      throw new Error('No deposit UTXOs to lock');
+    }
+  }
+
+  const networkConfig = getNetwork(network);
+  
+  // Create the CLTV lock outputs
+  // Each lock commits to the beneficiary's own key, never the hot wallet key
+  const entryScripts = entries.map(({ entry }) =>
+    (entry.splits || [{ lockTerms: entry.lockTerms, weight: 1 }])
+      .map(split => createLockPayment(split.lockTerms, network).output!)
+  );
+  const lockScripts = entryScripts.reduce<Buffer[]>((all, scripts) => all.concat(scripts), []);
+  
+  // Service fee to operator, all gifts in one output; a dust-sized fee
+  // can't be an output, so it is left to the miners instead
+  const feeOutputScript = bitcoin.address.toOutputScript(feeAddress, networkConfig);
+  const depositSats = entries.map(({ entry }) => entry.utxos.reduce((sum, utxo) => sum + utxo.amount, 0));
+  const quotedFees = entries.map(({ entry }) => entry.feeSats);
+  const totalQuotedFee = quotedFees.reduce((sum, fee) => sum + fee, 0);
+  const hasFeeOutput = totalQuotedFee >= DUST_LIMIT_SATS;
+  const firstLockVout = hasFeeOutput ? 1 : 0;
+  
+  // OP_RETURN committing to the lock outputs, so tools can recognize the gift
+  const opReturnScript = opReturn === 'commitment'
+    ? encodeGiftCommitment(lockScripts, firstLockVout)
+    : null;
+  
+  const outputScripts = [...lockScripts];
+  if (hasFeeOutput) outputScripts.unshift(feeOutputScript);
+  if (opReturnScript) outputScripts.push(opReturnScript);
+  
+  // Miner fee for the actual inputs and outputs at the target rate,
+  // split by each gift's own weight (its inputs and its lock outputs)
+  const inputCount = entries.reduce((sum, { entry }) => sum + entry.utxos.length, 0);
+  const vsize = estimateVsize(inputCount, outputScripts);
+  const totalRateFee = Math.ceil(vsize * feeRate);
+  const ownWeights = entries.map(({ entry }, i) =>
+    entry.utxos.length * (4 * 41 + 108) +
+    entryScripts[i].reduce((sum, script) => sum + 4 * (8 + 1 + script.length), 0)
+  );
+  const totalOwnWeight = ownWeights.reduce((sum, weight) => sum + weight, 0);
+  
+  let nextVout = firstLockVout;
+  const locks: BatchLockResult[] = entries.map(({ entry }, i) => {
+    const serviceFeeSats = hasFeeOutput ? quotedFees[i] : 0;
+    const minerFeeSats = Math.ceil(totalRateFee * ownWeights[i] / totalOwnWeight) +
+      (quotedFees[i] - serviceFeeSats);
+    const lockedAmountSats = depositSats[i] - serviceFeeSats - minerFeeSats;
+    const outputAmounts = entry.splits
+      ? splitAmount(lockedAmountSats, entry.splits.map(split => split.weight))
+      : [lockedAmountSats];
+    
+    if (outputAmounts.some(amount => amount < DUST_LIMIT_SATS)) {
+      throw new Error(
+        entries.length > 1 ? `Gift ${entry.giftId}: Amount too small to cover fees` : 'Amount too small to cover fees'
+      );
+    }
+    
+    const outputs = outputAmounts.map(amount => ({ vout: nextVout++, lockedAmountSats: amount }));
+    return { giftId: entry.giftId, vout: outputs[0].vout, outputs, serviceFeeSats, minerFeeSats, lockedAmountSats };
+  });
+  
+  // Build the PSBT
+  const psbt = new bitcoin.Psbt({ network: networkConfig });
+  
+  // Add inputs (every deposit UTXO of every gift)
+  for (const { entry, pubkey, derivation } of entries) {
+    const depositPayment = bitcoin.payments.p2wpkh({
+      pubkey,
+      network: networkConfig,
+    });
+    
+    for (const utxo of entry.utxos) {
+      psbt.addInput({
+        hash: utxo.txid,
+        index: utxo.vout,
+        sequence: RBF_SEQUENCE,
+        witnessUtxo: {
+          script: depositPayment.output!,
+          value: utxo.amount,
+        },
+        ...(derivation && {
+          bip32Derivation: [{
+            masterFingerprint: Buffer.from(derivation.masterFingerprint, 'hex'),
+            path: derivation.path,
+            pubkey,
+          }],
+        }),
+      });
+    }
+  }
+  
+  // Output 1: Fee to operator (spendable immediately)
+  if (hasFeeOutput) {
+    psbt.addOutput({
+      script: feeOutputScript,
+      value: totalQuotedFee,
+    });
+  }
+  
+  // Next: Time-locked to each beneficiary (P2WSH or P2TR)
+  locks.forEach((lock, i) => {
+    lock.outputs.forEach((output, j) => {
+      psbt.addOutput({
+        script: entryScripts[i][j],
+        value: output.lockedAmountSats,
+      });
+    });
+  });
+  
+  // Last: OP_RETURN gift commitment
+  if (opReturnScript) {
+    psbt.addOutput({
+      script: opReturnScript,
+      value: 0,
+    });
+  }
+  
+  return {
+    psbt,
+    vsize,
+    serviceFeeSats: hasFeeOutput ? totalQuotedFee : 0,
+    minerFeeSats: locks.reduce((sum, lock) => sum + lock.minerFeeSats, 0),
+    locks,
+  };
+}
+
+/**
+ * Build and sign one transaction locking several gifts
+ */
+export function buildBatchLockingTransaction(params: BatchLockingTxParams): BatchLockingTxResult {
+  const networkConfig = getNetwork(params.network);
+  const keyed = params.entries.map(entry => ({
+    entry,
+    keyPair: ECPair.fromWIF(entry.hotWalletWif, networkConfig),
+  }));
+  const { psbt, ...batch } = createBatchLockingPsbt(
+    keyed.map(({ entry, keyPair }) => ({ entry, pubkey: keyPair.publicKey })),
+    params
+  );
+  
+  // Sign each deposit input with its own gift's key
+  let inputIndex = 0;
+  for (const { entry, keyPair } of keyed) {
+    for (let i = 0; i < entry.utxos.length; i++) {
+      psbt.signInput(inputIndex++, keyPair);
+    }
+  }
+  
+  // Finalize inputs
+  psbt.finalizeAllInputs();
+  const lockTx = psbt.extractTransaction();
+  
+  return {
+    ...batch,
+    psbt: psbt.toBase64(),
+    txHex: lockTx.toHex(),
+    txid: lockTx.getId(),
+  };
+}
+
+/**
+ * Build the lock transaction for a batch of gifts without signing it
+ * Watch-only deployments hand the PSBT to an external signer; the txid is
+ * already fixed, segwit signatures don't change it
+ */
+export function buildUnsignedBatchLockingPsbt(params: UnsignedBatchLockingTxParams): UnsignedBatchLockingTxResult {
+  const { psbt, ...batch } = createBatchLockingPsbt(
+    params.entries.map(entry => ({
+      entry,
+      pubkey: Buffer.from(entry.depositKey.pubkey, 'hex'),
+      derivation: entry.depositKey,
+    })),
+    params
+  );
+  
+  return {
+    ...batch,
+    psbt: psbt.toBase64(),
+    txid: getUnsignedTxid(psbt),
+  };
+}
+
+/**
+ * Txid of a PSBT's unsigned transaction
+ */
+function getUnsignedTxid(psbt: bitcoin.Psbt): string {
+  return bitcoin.Transaction.fromBuffer(psbt.data.globalMap.unsignedTx.toBuffer()).getId();
+}
+
+/**
+ * What a lock PSBT may pay: the operator's fee address and the terms of
+ * every lock output, in output order
+ */
+export interface LockingPsbtOutputs {
+  feeAddress: string;
+  lockTerms: LockTerms[];
+}
+
+/**
+ * Check a lock PSBT pays nothing but the service fee (one output to the fee
+ * address, none if the fee was dust), the lock outputs rebuilt from their
+ * terms and the gift commitment over them, laid out as
+ * createBatchLockingPsbt does
+ */
+export function checkLockingPsbtOutputs(psbt: bitcoin.Psbt, expected: LockingPsbtOutputs, network: Network): void {
+  if (expected.lockTerms.length === 0) {
+    throw new Error('No lock outputs to check');
+  }
+  const feeScript = bitcoin.address.toOutputScript(expected.feeAddress, getNetwork(network));
+  const lockScripts = expected.lockTerms.map(terms => createLockPayment(terms, network).output!);
+  const outputs = psbt.txOutputs;
+
+  const firstLockVout = outputs.length > 0 && outputs[0].script.equals(feeScript) ? 1 : 0;
+  lockScripts.forEach((script, i) => {
+    const output = outputs[firstLockVout + i];
+    if (!output || !output.script.equals(script)) {
+      throw new Error(`Output ${firstLockVout + i} is not the expected lock output`);
+    }
+  });
+
+  const extra = outputs.slice(firstLockVout + lockScripts.length);
+  const commitment = encodeGiftCommitment(lockScripts, firstLockVout);
+  if (extra.length > 1 || (extra.length === 1 && (!extra[0].script.equals(commitment) || extra[0].value !== 0))) {
+    throw new Error(`Unexpected output ${firstLockVout + lockScripts.length}, not the gift commitment`);
+  }
+}
+
+/**
+ * Sign a lock PSBT with the seed (runs on the signer, see scripts/signer.ts)
+ * Only inputs on a deposit chain (BIP44 or BIP84, any account) of this
+ * network are signed, and only if the outputs are what the signer expects
+ */
+export function signLockingPsbt(
+  psbtBase64: string,
+  seedHex: string,
+  expected: LockingPsbtOutputs,
+  network: Network
+): string {
+  const networkConfig = getNetwork(network);
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: networkConfig });
+  const root = bip32.fromSeed(Buffer.from(seedHex, 'hex'), networkConfig);
+
+  checkLockingPsbtOutputs(psbt, expected, network);
+
+  psbt.data.inputs.forEach((input, i) => {
+    const derivation = input.bip32Derivation?.find(d => d.masterFingerprint.equals(root.fingerprint));
+    if (!derivation || !isDepositPath(derivation.path, network)) {
+      throw new Error(`Input ${i} is not a deposit of this wallet`);
+    }
+    const child = root.derivePath(derivation.path);
+    if (!child.publicKey.equals(derivation.pubkey)) {
+      throw new Error(`Input ${i} key does not match its derivation path`);
+    }
+    psbt.signInput(i, child);
+  });
+
+  return psbt.toBase64();
+}
+
+/**
+ * Finalize a lock PSBT returned by the external signer
+ * The signer must not have changed the transaction, and every input
+ * needs a valid signature
+ */
+export function finalizeSignedLockingPsbt(
+  psbtBase64: string,
+  expectedTxid: string,
+  network: Network
+): { txHex: string; txid: string } {
+  let psbt: bitcoin.Psbt;
+  try {
+    psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: getNetwork(network) });
+  } catch {
+    throw new Error('Invalid PSBT');
+  }
+  
+  if (getUnsignedTxid(psbt) !== expectedTxid) {
+    throw new Error('Signed PSBT does not match the signing request');
+  }
+  
+  psbt.data.inputs.forEach((input, i) => {
+    if (input.finalScriptWitness) return; // Finalized by the signer
+    if (!input.partialSig?.length) {
+      throw new Error(`Input ${i} is not signed`);
+    }
+    if (!psbt.validateSignaturesOfInput(i, validateEcdsaSignature)) {
+      throw new Error(`Input ${i} has an invalid signature`);
+    }
+    psbt.finalizeInput(i);
+  });
+  
+  const tx = psbt.extractTransaction();
+  return {
+    txHex: tx.toHex(),
+    txid: tx.getId(),
+  };
+}
+
+function validateEcdsaSignature(pubkey: Buffer, msghash: Buffer, signature: Buffer): boolean {
+  return ECPair.fromPublicKey(pubkey).verify(msghash, signature);
+}
+
+/**
+ * Output types a sender-funded lock can spend
+ * Both are segwit v0/v1 key spends, so the sender's signatures can't
+ * change the txid the server watches for
+ */
+export type FundingInputType = 'p2wpkh' | 'p2tr';
+
+// Outpoint, sequence and an empty scriptSig (41 bytes), plus the witness:
+// a signature and pubkey for P2WPKH, a lone Schnorr signature for Taproot
+const FUNDING_INPUT_WEIGHT: Record<FundingInputType, number> = {
+  p2wpkh: 4 * 41 + 108,
+  p2tr: 4 * 41 + 66,
+};
+
+/**
+ * Type of a sender's output script, null if it can't fund a lock
+ */
+export function getFundingInputType(script: Buffer): FundingInputType | null {
+  if (script.length === 22 && script[0] === bitcoin.opcodes.OP_0 && script[1] === 20) return 'p2wpkh';
+  if (script.length === 34 && script[0] === bitcoin.opcodes.OP_1 && script[1] === 32) return 'p2tr';
+  return null;
+}
+
+function estimateFundingVsize(inputScripts: Buffer[], outputScripts: Buffer[]): number {
+  const overheadWeight = 4 * 10 + 2;
+  const inputsWeight = inputScripts.reduce(
+    (sum, script) => sum + FUNDING_INPUT_WEIGHT[getFundingInputType(script) || 'p2wpkh'],
+    0
+  );
+  const outputsWeight = outputScripts.reduce(
+    (sum, script) => sum + 4 * (8 + 1 + script.length),
+    0
+  );
+  return Math.ceil((overheadWeight + inputsWeight + outputsWeight) / 4);
+}
+
+/**
+ * One of the sender's own UTXOs, offered to fund a sender-funded lock
+ */
+export interface FundingUtxo extends Pick<Utxo, 'txid' | 'vout' | 'amount'> {
+  script: string; // Output script, hex
+  internalKey?: string; // Taproot internal key (x-only hex), when the descriptor gives it
+  derivation?: WatchOnlyKey; // Key origin, so hardware wallets find the key
+}
+
+export interface SenderFundedLockParams {
+  utxos: FundingUtxo[]; // Candidates, the largest are spent first
+  lockTerms: LockTerms;
+  splits?: LockSplit[]; // One lock output per split instead of lockTerms
+  amountSats: number; // Locked in full, the sender pays the fees on top
+  feeSats: number; // Service fee from the gift's fee quote
+  feeAddress: string;
+  changeAddress: string;
+  opReturn: OpReturnMode;
+  feeRate: number; // Miner fee rate, sat/vB
+  network: Network;
+}
+
+export interface SenderFundedLockResult {
+  psbt: string; // Unsigned, for the sender's wallet
+  txid: string;
+  utxos: FundingUtxo[]; // The ones it spends
+  lockVout: number; // Index of the (first) lock output
+  outputs: LockOutputResult[]; // Every lock output, in split order
+  serviceFeeSats: number; // 0 if below dust, then left to the miners
+  minerFeeSats: number;
+  lockedAmountSats: number;
+  changeSats: number; // 0 if change would be dust
+  vsize: number;
+}
+
+/**
+ * Lay out the lock transaction of a sender-funded gift, unsigned
+ *
+ * The sender's wallet signs and broadcasts it; the server never holds the coins.
+ * Outputs: the service fee (if above dust), the CLTV lock outputs, the
+ * OP_RETURN commitment (unless turned off), then change to the sender.
+ * The gift amount is locked in full; the service and miner fees are paid
+ * on top, a dust-sized service fee going to the miners.
+ */
+export function buildSenderFundedLockingPsbt(params: SenderFundedLockParams): SenderFundedLockResult {
+  const { lockTerms, splits, amountSats, feeSats, feeAddress, changeAddress, opReturn, feeRate, network } = params;
+  const networkConfig = getNetwork(network);
+
+  params.utxos.forEach(utxo => {
+    if (!getFundingInputType(Buffer.from(utxo.script, 'hex'))) {
+      throw new Error(`UTXO ${utxo.txid}:${utxo.vout} is not P2WPKH or Taproot`);
+    }
+  });
+
+  const lockScripts = (splits || [{ lockTerms, weight: 1 }])
+    .map(split => createLockPayment(split.lockTerms, network).output!);
+  const outputAmounts = splits ? splitAmount(amountSats, splits.map(split => split.weight)) : [amountSats];
+  if (outputAmounts.some(amount => amount < DUST_LIMIT_SATS)) {
+    throw new Error('Amount too small to lock');
+  }
+
+  const hasFeeOutput = feeSats >= DUST_LIMIT_SATS;
+  const firstLockVout = hasFeeOutput ? 1 : 0;
+  const feeOutputScript = bitcoin.address.toOutputScript(feeAddress, networkConfig);
+  const changeScript = bitcoin.address.toOutputScript(changeAddress, networkConfig);
+  const opReturnScript = opReturn === 'commitment'
+    ? encodeGiftCommitment(lockScripts, firstLockVout)
+    : null;
+
+  const outputScripts = [...lockScripts];
+  if (hasFeeOutput) outputScripts.unshift(feeOutputScript);
+  if (opReturnScript) outputScripts.push(opReturnScript);
+
+  // Largest UTXOs first, until they cover the lock, the fee and the miners
+  const candidates = params.utxos.slice().sort((a, b) => b.amount - a.amount);
+  const selected: FundingUtxo[] = [];
+  const needed = amountSats + feeSats;
+  let inputSats = 0;
+  let layout: { vsize: number; changeSats: number } | null = null;
+  for (let i = 0; i < candidates.length && !layout; i++) {
+    selected.push(candidates[i]);
+    inputSats += candidates[i].amount;
+
+    const inputScripts = selected.map(utxo => Buffer.from(utxo.script, 'hex'));
+    const withChange = estimateFundingVsize(inputScripts, [...outputScripts, changeScript]);
+    const withoutChange = estimateFundingVsize(inputScripts, outputScripts);
+    const changeSats = inputSats - needed - Math.ceil(withChange * feeRate);
+    if (changeSats >= DUST_LIMIT_SATS) {
+      layout = { vsize: withChange, changeSats };
+    } else if (inputSats - needed >= Math.ceil(withoutChange * feeRate)) {
+      layout = { vsize: withoutChange, changeSats: 0 };
+    }
+  }
+  if (!layout) {
+    throw new Error('Sender UTXOs do not cover the gift amount and fees');
+  }
+
+  const psbt = new bitcoin.Psbt({ network: networkConfig });
+
+  for (const utxo of selected) {
+    const script = Buffer.from(utxo.script, 'hex');
+    const isTaproot = getFundingInputType(script) === 'p2tr';
+    const derivation = utxo.derivation && {
+      masterFingerprint: Buffer.from(utxo.derivation.masterFingerprint, 'hex'),
+      path: utxo.derivation.path,
+      pubkey: Buffer.from(utxo.derivation.pubkey, 'hex'),
+    };
+    psbt.addInput({
+      hash: utxo.txid,
+      index: utxo.vout,
+      sequence: RBF_SEQUENCE,
+      witnessUtxo: { script, value: utxo.amount },
+      ...(isTaproot && utxo.internalKey && { tapInternalKey: Buffer.from(utxo.internalKey, 'hex') }),
+      ...(derivation && (isTaproot
+        ? { tapBip32Derivation: [{ ...derivation, leafHashes: [] }] }
+        : { bip32Derivation: [derivation] })),
+    });
+  }
+
+  if (hasFeeOutput) {
+    psbt.addOutput({ script: feeOutputScript, value: feeSats });
+  }
+  lockScripts.forEach((script, i) => {
+    psbt.addOutput({ script, value: outputAmounts[i] });
+  });
+  if (opReturnScript) {
+    psbt.addOutput({ script: opReturnScript, value: 0 });
+  }
+  if (layout.changeSats > 0) {
+    psbt.addOutput({ script: changeScript, value: layout.changeSats });
+  }
+
+  const serviceFeeSats = hasFeeOutput ? feeSats : 0;
+  return {
+    psbt: psbt.toBase64(),
+    txid: getUnsignedTxid(psbt),
+    utxos: selected,
+    lockVout: firstLockVout,
+    outputs: outputAmounts.map((amount, i) => ({ vout: firstLockVout + i, lockedAmountSats: amount })),
+    serviceFeeSats,
+    minerFeeSats: inputSats - amountSats - serviceFeeSats - layout.changeSats,
+    lockedAmountSats: amountSats,
+    changeSats: layout.changeSats,
+    vsize: layout.vsize,
+  };
+}
+
+/**
+ * Find a sender-funded gift's lock outputs among a transaction's outputs
+ * Each recipient's or tranche's script must hold at least its part of the
+ * gift amount. The service fee is reported rather than required, since the
+ * lock stands once broadcast.
+ */
+export function findSenderFundedLockOutputs(
+  outputs: TxOutput[],
+  params: Pick<SenderFundedLockParams, 'lockTerms' | 'splits' | 'amountSats' | 'feeSats' | 'feeAddress' | 'network'>
+): { lockVout: number; outputs: LockOutputResult[]; lockedAmountSats: number; serviceFeeSats: number; feePaid: boolean } | null {
+  const { lockTerms, splits, amountSats, feeSats, feeAddress, network } = params;
+  const expectedAmounts = splits ? splitAmount(amountSats, splits.map(split => split.weight)) : [amountSats];
+
+  const found: LockOutputResult[] = [];
+  const lockTermsList = splits ? splits.map(split => split.lockTerms) : [lockTerms];
+  for (let i = 0; i < lockTermsList.length; i++) {
+    const script = createLockPayment(lockTermsList[i], network).output!.toString('hex');
+    const output = outputs.find(o =>
+      o.script === script && o.amount >= expectedAmounts[i] && !found.some(f => f.vout === o.vout)
+    );
+    if (!output) return null;
+    found.push({ vout: output.vout, lockedAmountSats: output.amount });
+  }
+
+  const feeScript = bitcoin.address.toOutputScript(feeAddress, getNetwork(network)).toString('hex');
+  const serviceFeeSats = outputs.find(o => o.script === feeScript)?.amount ?? 0;
+  return {
+    lockVout: found[0].vout,
+    outputs: found,
+    lockedAmountSats: found.reduce((sum, output) => sum + output.lockedAmountSats, 0),
+    serviceFeeSats,
+    feePaid: feeSats < DUST_LIMIT_SATS || serviceFeeSats >= feeSats,
+  };
+}
+
+/**
+ * Inputs and miner fee of a sender-funded lock PSBT
+ * For bookkeeping once the sender has broadcast it unchanged
+ */
+export function getFundingPsbtSummary(psbtBase64: string, network: Network): {
+  txid: string;
+  utxos: Pick<Utxo, 'txid' | 'vout' | 'amount'>[];
+  minerFeeSats: number;
+  vsize: number;
+} {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: getNetwork(network) });
+  const utxos = psbt.txInputs.map((input, i) => ({
+    txid: Buffer.from(input.hash).reverse().toString('hex'),
+    vout: input.index,
+    amount: psbt.data.inputs[i].witnessUtxo!.value,
+  }));
+  const inputSats = utxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+  const outputSats = psbt.txOutputs.reduce((sum, output) => sum + output.value, 0);
+
+  return {
+    txid: getUnsignedTxid(psbt),
+    utxos,
+    minerFeeSats: inputSats - outputSats,
+    vsize: estimateFundingVsize(
+      psbt.data.inputs.map(input => input.witnessUtxo!.script),
+      psbt.txOutputs.map(output => output.script)
+    ),
+  };
+}
+
+export interface CpfpTxParams {
+  // Parent (lock) transaction and the fee output we can spend
+  parentTxId: string;
+  parentVout: number;
+  parentAmountSats: number;
+  parentVsize: number;
+  parentFeeSats: number;
+  
+  // Key for the fee output and where the rest goes
+  feeWalletWif: string;
+  destinationAddress: string;
+  
+  feeRate: number; // Target rate for parent and child together, sat/vB
+  network: Network;
+}
+
+export interface CpfpTxResult {
+  txHex: string;
+  txid: string;
+  feeSats: number;
+  vsize: number;
+}
+
+/**
+ * Build a child-pays-for-parent tx spending the lock tx's fee output
+ * The child pays enough that parent + child together reach the target rate
+ */
+export function buildCpfpTransaction(params: CpfpTxParams): CpfpTxResult {
+  const networkConfig = getNetwork(params.network);
+  const feeKeyPair = ECPair.fromWIF(params.feeWalletWif, networkConfig);
+  const feePayment = bitcoin.payments.p2wpkh({
+    pubkey: feeKeyPair.publicKey,
+    network: networkConfig,
+  });
+  const destinationScript = bitcoin.address.toOutputScript(params.destinationAddress, networkConfig);
+  
+  const vsize = estimateVsize(1, [destinationScript]);
+  const packageFeeSats = Math.ceil((params.parentVsize + vsize) * params.feeRate);
+  // The child always pays at least its own way
+  const feeSats = Math.max(packageFeeSats - params.parentFeeSats, Math.ceil(vsize * params.feeRate));
+  const outputSats = params.parentAmountSats - feeSats;
+  
+  if (outputSats < DUST_LIMIT_SATS) {
+    throw new Error('Fee output too small to pay for CPFP');
+  }
+  
+  const psbt = new bitcoin.Psbt({ network: networkConfig });
+  psbt.addInput({
+    hash: params.parentTxId,
+    index: params.parentVout,
+    sequence: RBF_SEQUENCE,
+    witnessUtxo: {
+      script: feePayment.output!,
+      value: params.parentAmountSats,
+    },
+  });
+  psbt.addOutput({
+    script: destinationScript,
+    value: outputSats,
+  });
+  
+  psbt.signAllInputs(feeKeyPair);
+  psbt.finalizeAllInputs();
+  const tx = psbt.extractTransaction();
+  
+  return {
+    txHex: tx.toHex(),
+    txid: tx.getId(),
+    feeSats,
+    vsize,
+  };
+}
+
+/**
+ * Estimated vsize of a claim: one CLTV input, one output
+ * (sized for a P2TR destination, the largest common output)
+ */
+const CLAIM_TX_VSIZE: Record<LockType, number> = {
+  p2wsh: 124,
+  p2tr: 130,
+};
+
+/**
+ * Extra claim vsize when the lock also has a recovery branch
+ * (larger witness script and branch selector, or a longer control block)
+ */
+const RECOVERY_BRANCH_VSIZE = 12;
+
+/**
+ * Extra vsize per guardian key in the lock script, and for the second
+ * signature (and empty multi_a items) of a guardian release
+ */
+const GUARDIAN_KEY_VSIZE = 9;
+const GUARDIAN_RELEASE_VSIZE = 20;
+
+function estimateSpendVsize(terms: LockTerms, spendPath: SpendPath): number {
+  const guardianCount = terms.guardianPubkeys?.length || 0;
+  return CLAIM_TX_VSIZE[terms.lockType]
+    + (terms.recoveryPubkey ? RECOVERY_BRANCH_VSIZE : 0)
+    + guardianCount * GUARDIAN_KEY_VSIZE
+    + (spendPath === 'guardian' ? GUARDIAN_RELEASE_VSIZE : 0);
+}
+
+export interface ClaimTxParams {
+  // The CLTV output being claimed
+  lockTxId: string;
+  lockVout: number;
+  lockAmountSats: number;
+
+  // Lock settings (must match the lock exactly)
+  lockTerms: LockTerms;
+  spendPath?: SpendPath;
+
+  // Where the claimed funds go
+  destinationAddress: string;
+  feeRate: number; // sat/vB
+
+  network: Network;
+}
+
+export interface ClaimTxResult {
+  psbt: string;
+  feeSats: number;
+  claimAmountSats: number;
+}
+
+/**
+ * Build an unsigned claim transaction for the beneficiary
+ * 
+ * nLockTime is set to the branch's locktime and the input sequence is non-final,
+ * as OP_CHECKLOCKTIMEVERIFY requires. The PSBT carries the witness script
+ * (or tapleaf script and control block), so any PSBT-capable wallet holding
+ * the beneficiary key can sign it.
+ */
+export function buildClaimTransaction(params: ClaimTxParams): ClaimTxResult {
+  const {
+    lockTxId,
+    lockVout,
+    lockAmountSats,
+    lockTerms,
+    spendPath = 'beneficiary',
+    destinationAddress,
+    feeRate,
+    network,
+  } = params;
+
+  const networkConfig = getNetwork(network);
+  const lockPayment = createLockPayment(lockTerms, network, spendPath);
+  // A guardian release has no timelock to meet
+  const lockTime = spendPath === 'recovery' ? lockTerms.recoveryTimestamp!
+    : spendPath === 'guardian' ? 0
+    : lockTerms.unlockLocktime;
+
+  const vsize = estimateSpendVsize(lockTerms, spendPath);
+  const feeSats = Math.ceil(vsize * feeRate);
+  const claimAmountSats = lockAmountSats - feeSats;
+
+  if (claimAmountSats < DUST_LIMIT_SATS) {
+    throw new Error('Locked amount too small to cover the claim fee');
+  }
+
+  const psbt = new bitcoin.Psbt({ network: networkConfig });
+  psbt.setLocktime(lockTime);
+
+  const witnessUtxo = {
+    script: lockPayment.output!,
+    value: lockAmountSats,
+  };
+  const sequence = 0xfffffffe; // Non-final, so nLockTime is enforced
+
+  if (lockTerms.lockType === 'p2tr') {
+    psbt.addInput({
+      hash: lockTxId,
+      index: lockVout,
+      sequence,
+      witnessUtxo,
+      tapLeafScript: [{
+        leafVersion: TAPSCRIPT_LEAF_VERSION,
+        script: lockPayment.redeem!.output!,
+        controlBlock: lockPayment.witness![lockPayment.witness!.length - 1],
+      }],
+    });
+  } else {
+    psbt.addInput({
+      hash: lockTxId,
+      index: lockVout,
+      sequence,
+      witnessUtxo,
+      witnessScript: lockPayment.redeem!.output!,
+    });
+  }
+
+  psbt.addOutput({
+    address: destinationAddress,
+    value: claimAmountSats,
+  });
+
+  return {
+    psbt: psbt.toBase64(),
+    feeSats,
+    claimAmountSats,
+  };
+}
+
+/**
+ * Build an unsigned recovery transaction for the sender
+ * Spends the recovery branch once its locktime has passed
+ */
+export function buildRecoveryTransaction(params: Omit<ClaimTxParams, 'spendPath'>): ClaimTxResult {
+  return buildClaimTransaction({ ...params, spendPath: 'recovery' });
+}
+
+/**
+ * Build an unsigned early-release transaction
+ * Spends the guardian branch, which the beneficiary and any one guardian
+ * sign together, at any time
+ */
+export function buildReleaseTransaction(
+  params: Omit<ClaimTxParams, 'spendPath'>
+): ClaimTxResult & { txid: string } {
+  const result = buildClaimTransaction({ ...params, spendPath: 'guardian' });
+  const psbt = bitcoin.Psbt.fromBase64(result.psbt, { network: getNetwork(params.network) });
+  return { ...result, txid: getUnsignedTxid(psbt) };
+}
+
+type PsbtInput = bitcoin.Psbt['data']['inputs'][number];
+
+// Bitcoin's CompactSize length prefix
+function encodeVarInt(n: number): Buffer {
+  if (n < 0xfd) return Buffer.from([n]);
+  const buffer = Buffer.alloc(n <= 0xffff ? 3 : 5);
+  buffer[0] = n <= 0xffff ? 0xfd : 0xfe;
+  if (n <= 0xffff) buffer.writeUInt16LE(n, 1);
+  else buffer.writeUInt32LE(n, 1);
+  return buffer;
+}
+
+// Serialize a witness stack as a PSBT finalScriptWitness
+function witnessStackToScriptWitness(stack: Buffer[]): Buffer {
+  return Buffer.concat([
+    encodeVarInt(stack.length),
+    ...stack.flatMap(item => [encodeVarInt(item.length), item]),
+  ]);
+}
+
+// Check a spend PSBT's only input is the gift's lock output
+function checkSpendsLock(psbt: bitcoin.Psbt, lockTxId: string, lockVout: number | null): void {
+  const spent = psbt.txInputs[0];
+  if (psbt.txInputs.length !== 1 || Buffer.from(spent.hash).reverse().toString('hex') !== lockTxId) {
+    throw new Error('PSBT does not spend this gift');
+  }
+  if (lockVout !== null && spent.index !== lockVout) {
+    throw new Error('PSBT does not spend this output of the gift');
+  }
+}
+
+/**
+ * A key's valid signature on a spend PSBT's only input, or null
+ * Taproot (x-only) keys can be held to the signature for one leaf
+ */
+function findSpendSignature(psbt: bitcoin.Psbt, key: Buffer, leafHash?: Buffer): Buffer | null {
+  const input = psbt.data.inputs[0];
+  const signature = key.length === 32
+    ? input.tapScriptSig?.find(sig => sig.pubkey.equals(key) && (!leafHash || sig.leafHash.equals(leafHash)))?.signature
+    : input.partialSig?.find(sig => sig.pubkey.equals(key))?.signature;
+  if (!signature) return null;
+
+  const validator = (pubkey: Buffer, hash: Buffer, sig: Buffer) => pubkey.length === 32
+    ? tinysecp.verifySchnorr(hash, pubkey, sig)
+    : validateEcdsaSignature(pubkey, hash, sig);
+  try {
+    return psbt.validateSignaturesOfInput(0, validator, key) ? signature : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finalize a claim (or recovery) PSBT signed by the beneficiary (or sender)
+ * Only the given branch is accepted: the PSBT must carry a valid signature
+ * from that branch's key, so a recovery can't pass as a claim or the other
+ * way round. Builds the witness <signature> [branch] <witnessScript> for a
+ * P2WSH CLTV input, or the script-path witness for a Taproot one, and checks
+ * that the input actually spends the gift's lock transaction
+ * (and the given output of it; a batched lock tx holds other gifts' outputs)
+ * 
+ * @returns Raw transaction hex and txid, ready to broadcast, and the branch spent
+ */
+export function finalizeClaimTransaction(
+  psbtBase64: string,
+  lockTerms: LockTerms,
+  spendPath: 'beneficiary' | 'recovery',
+  lockTxId: string,
+  network: Network,
+  lockVout: number | null = null
+): { txHex: string; txid: string; spendPath: 'beneficiary' | 'recovery' } {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: getNetwork(network) });
+  checkSpendsLock(psbt, lockTxId, lockVout);
+
+  const branch = createLockPayment(lockTerms, network, spendPath);
+  const script = branch.redeem!.output!;
+  const signer = parseBeneficiaryKey(
+    spendPath === 'recovery' ? lockTerms.recoveryPubkey! : lockTerms.beneficiaryPubkey,
+    network
+  );
+
+  // A tapscript signature commits to its leaf; the CLTV leaves are short,
+  // so the script's length fits in one byte
+  const signature = lockTerms.lockType === 'p2tr'
+    ? findSpendSignature(psbt, signer.subarray(1, 33), bitcoin.crypto.taggedHash(
+        'TapLeaf',
+        Buffer.concat([Buffer.from([TAPSCRIPT_LEAF_VERSION, script.length]), script])
+      ))
+    : findSpendSignature(psbt, signer);
+  if (!signature) {
+    throw new Error(spendPath === 'recovery'
+      ? 'PSBT is not signed with the recovery key'
+      : 'PSBT is not signed with the beneficiary key');
+  }
+  const stack = getSpendWitness(lockTerms, spendPath, signature);
+
+  psbt.finalizeInput(0, () => ({
+    finalScriptSig: undefined,
+    finalScriptWitness: witnessStackToScriptWitness(lockTerms.lockType === 'p2tr'
+      ? [...stack, script, branch.witness![branch.witness!.length - 1]]
+      : [...stack, script]),
+  }));
+
+  const tx = psbt.extractTransaction();
+  return {
+    txHex: tx.toHex(),
+    txid: tx.getId(),
+    spendPath,
+  };
+}
+
+export interface ReleaseSignatures {
+  beneficiary: Buffer | null;
+  guardians: (Buffer | null)[]; // Follows terms.guardianPubkeys
+}
+
+/**
+ * Read the valid beneficiary and guardian signatures off a release PSBT
+ * Signatures that don't verify against the release's sighash are left out
+ */
+export function getReleaseSignatures(psbtBase64: string, terms: LockTerms, network: Network): ReleaseSignatures {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: getNetwork(network) });
+  const findSignature = (pubkey: string): Buffer | null => {
+    const parsed = parseBeneficiaryKey(pubkey, network);
+    return findSpendSignature(psbt, terms.lockType === 'p2tr' ? parsed.subarray(1, 33) : parsed);
+  };
+
+  return {
+    beneficiary: findSignature(terms.beneficiaryPubkey),
+    guardians: (terms.guardianPubkeys || []).map(findSignature),
+  };
+}
+
+/**
+ * Merge the signatures of a co-signed release PSBT into the stored one
+ * The co-signer must not have changed the transaction
+ *
+ * @returns The merged PSBT, base64
+ */
+export function combineReleasePsbt(
+  storedBase64: string,
+  signedBase64: string,
+  expectedTxid: string,
+  network: Network
+): string {
+  const stored = bitcoin.Psbt.fromBase64(storedBase64, { network: getNetwork(network) });
+  let signed: bitcoin.Psbt;
+  try {
+    signed = bitcoin.Psbt.fromBase64(signedBase64, { network: getNetwork(network) });
+  } catch {
+    throw new Error('Invalid PSBT');
+  }
+
+  if (getUnsignedTxid(signed) !== expectedTxid) {
+    throw new Error('Signed PSBT does not match the release request');
+  }
+  return stored.combine(signed).toBase64();
+}
+
+/**
+ * Finalize an early-release PSBT signed by the beneficiary and a guardian
+ * Checks the input spends the gift's lock output, like finalizeClaimTransaction
+ *
+ * @returns Raw transaction hex and txid, ready to broadcast
+ */
+export function finalizeReleaseTransaction(
+  psbtBase64: string,
+  lockTerms: LockTerms,
+  lockTxId: string,
+  network: Network,
+  lockVout: number | null = null
+): { txHex: string; txid: string } {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: getNetwork(network) });
+  checkSpendsLock(psbt, lockTxId, lockVout);
+
+  const signatures = getReleaseSignatures(psbtBase64, lockTerms, network);
+  if (!signatures.beneficiary) {
+    throw new Error('Release needs the beneficiary signature');
+  }
+  if (!signatures.guardians.some(sig => sig !== null)) {
+    throw new Error('Release needs a guardian signature');
+  }
+  const stack = getSpendWitness(lockTerms, 'guardian', signatures.beneficiary, signatures.guardians);
+
+  // The default tapscript finalizer drops the empty items multi_a needs
+  psbt.finalizeInput(0, (_inputIndex: number, input: PsbtInput, script?: Buffer) => {
+    const witness = input.tapLeafScript
+      ? [...stack, input.tapLeafScript[0].script, input.tapLeafScript[0].controlBlock]
+      : [...stack, script!];
+    return {
+      finalScriptSig: undefined,
+      finalScriptWitness: witnessStackToScriptWitness(witness),
+    };
+  });
+
+  const tx = psbt.extractTransaction();
+  return {
+    txHex: tx.toHex(),
+    txid: tx.getId(),
+  };
+}
+
+/**
+ * Locate a lock output in its lock transaction by rebuilding the expected script
+ * The recorded output index is checked first, batched locks hold several outputs
+ */
+export async function findLockOutput(
+  lockTxId: string,
+  lockTerms: LockTerms,
+  network: Network,
+  chain: ChainBackend,
+  vout: number | null = null
+): Promise<TxOutput | null> {
+  const outputs = await chain.getTxOutputs(lockTxId);
+  if (!outputs) return null;
+
+  const script = createLockPayment(lockTerms, network).output!.toString('hex');
+  const recorded = outputs.find(o => o.vout === vout);
+  if (recorded && recorded.script === script) return recorded;
+  return outputs.find(o => o.script === script) || null;
 }
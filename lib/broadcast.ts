@@ -0,0 +1,261 @@
+/**
+ * Transaction broadcasting for LockGift
+ * Sends finalized raw transactions through one or more backends,
+ * retrying flaky endpoints and failing over between them
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+
+// Why a broadcast didn't go through
+// - already-in-mempool: a node already has the tx (treated as success)
+// - missing-inputs: an input is spent or not known to the node yet
+// - rejected: the tx is invalid (non-final, fee too low, bad signature...)
+// - unavailable: the endpoint couldn't be reached or errored
+export type BroadcastErrorKind = 'already-in-mempool' | 'missing-inputs' | 'rejected' | 'unavailable';
+
+export class BroadcastError extends Error {
+  constructor(message: string, public readonly kind: BroadcastErrorKind) {
+    super(message);
+    this.name = 'BroadcastError';
+  }
+}
+
+/**
+ * A backend that can relay a raw transaction
+ */
+export interface Broadcaster {
+  name: string;
+  broadcast(txHex: string): Promise<string>;
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Work out what kind of failure a node's error message describes
+ * Esplora passes bitcoind's reject reasons through, so one matcher covers both
+ */
+export function classifyBroadcastError(message: string): BroadcastErrorKind {
+  const text = message.toLowerCase();
+
+  if (
+    text.includes('txn-already-in-mempool') ||
+    text.includes('txn-already-known') ||
+    text.includes('already in block chain') ||
+    text.includes('outputs already in utxo set')
+  ) {
+    return 'already-in-mempool';
+  }
+
+  if (
+    text.includes('missing-inputs') ||
+    text.includes('missing inputs') ||
+    text.includes('missingorspent')
+  ) {
+    return 'missing-inputs';
+  }
+
+  return 'rejected';
+}
+
+/**
+ * Broadcast through an Esplora API (mempool.space, Blockstream, self-hosted)
+ */
+export function createEsploraBroadcaster(apiUrl: string): Broadcaster {
+  return {
+    name: `esplora:${apiUrl}`,
+    async broadcast(txHex: string): Promise<string> {
+      let response: Response;
+      try {
+        response = await fetch(`${apiUrl}/tx`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'text/plain' },
+          body: txHex,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new BroadcastError(
+          `Esplora unreachable: ${error instanceof Error ? error.message : error}`,
+          'unavailable'
+        );
+      }
+
+      const text = await response.text();
+      if (!response.ok) {
+        // Rate limits and server errors are worth retrying, anything else is the tx
+        const kind = response.status === 429 || response.status >= 500
+          ? 'unavailable'
+          : classifyBroadcastError(text);
+        throw new BroadcastError(`Esplora broadcast failed: ${text}`, kind);
+      }
+
+      return text.trim();
+    },
+  };
+}
+
+/**
+ * Broadcast through a bitcoind node with sendrawtransaction
+ */
+export function createBitcoindBroadcaster(params: {
+  rpcUrl: string;
+  username?: string;
+  password?: string;
+}): Broadcaster {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (params.username) {
+    const credentials = Buffer.from(`${params.username}:${params.password || ''}`).toString('base64');
+    headers.Authorization = `Basic ${credentials}`;
+  }
+
+  return {
+    name: `bitcoind:${params.rpcUrl}`,
+    async broadcast(txHex: string): Promise<string> {
+      let response: Response;
+      try {
+        response = await fetch(params.rpcUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            jsonrpc: '1.0',
+            id: 'lockgift',
+            method: 'sendrawtransaction',
+            params: [txHex],
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new BroadcastError(
+          `bitcoind unreachable: ${error instanceof Error ? error.message : error}`,
+          'unavailable'
+        );
+      }
+
+      // bitcoind answers RPC errors with HTTP 500 and a JSON body,
+      // so only a body we can't parse means the node itself is unhappy
+      let body: { result: string | null; error: { code: number; message: string } | null };
+      try {
+        body = await response.json();
+      } catch {
+        throw new BroadcastError(`bitcoind returned HTTP ${response.status}`, 'unavailable');
+      }
+
+      if (body.error) {
+        throw new BroadcastError(
+          `bitcoind broadcast failed: ${body.error.message}`,
+          classifyBroadcastError(body.error.message)
+        );
+      }
+
+      return body.result!;
+    },
+  };
+}
+
+/**
+ * Build the broadcasters configured in env, in failover order
+ * BROADCAST_URLS: comma-separated Esplora APIs (defaults to the mempool URL)
+ * BITCOIND_RPC_URL, BITCOIND_RPC_USER, BITCOIND_RPC_PASSWORD: optional node, tried first
+ */
+export function getBroadcasters(mempoolUrl: string): Broadcaster[] {
+  const broadcasters: Broadcaster[] = [];
+
+  if (process.env.BITCOIND_RPC_URL) {
+    broadcasters.push(createBitcoindBroadcaster({
+      rpcUrl: process.env.BITCOIND_RPC_URL,
+      username: process.env.BITCOIND_RPC_USER,
+      password: process.env.BITCOIND_RPC_PASSWORD,
+    }));
+  }
+
+  const esploraUrls = (process.env.BROADCAST_URLS || mempoolUrl)
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  for (const url of esploraUrls) {
+    broadcasters.push(createEsploraBroadcaster(url));
+  }
+
+  return broadcasters;
+}
+
+/**
+ * HTTP status for an API route to answer a failed broadcast with
+ */
+export function broadcastErrorStatus(error: BroadcastError): number {
+  switch (error.kind) {
+    case 'missing-inputs':
+      return 409;
+    case 'rejected':
+      return 400;
+    default:
+      return 502;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Broadcast a raw transaction, failing over between broadcasters
+ *
+ * Each round tries every broadcaster in order. Unreachable endpoints get
+ * another round after an exponential backoff; a tx a node already has counts
+ * as broadcast; a rejected tx fails straight away since no node will take it.
+ * Missing inputs can mean one node is behind, so the others still get a try.
+ */
+export async function broadcastRawTransaction(
+  txHex: string,
+  broadcasters: Broadcaster[],
+  options: { retries?: number; baseDelayMs?: number } = {}
+): Promise<string> {
+  if (broadcasters.length === 0) {
+    throw new BroadcastError('No broadcast backends configured', 'unavailable');
+  }
+
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const txid = bitcoin.Transaction.fromHex(txHex).getId();
+  let lastError: BroadcastError | null = null;
+  let missingInputs: BroadcastError | null = null;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(baseDelayMs * 2 ** (attempt - 1));
+    }
+
+    let anyUnavailable = false;
+    for (const broadcaster of broadcasters) {
+      try {
+        return await broadcaster.broadcast(txHex);
+      } catch (error) {
+        const broadcastError = error instanceof BroadcastError
+          ? error
+          : new BroadcastError(error instanceof Error ? error.message : String(error), 'unavailable');
+
+        if (broadcastError.kind === 'already-in-mempool') {
+          return txid;
+        }
+        if (broadcastError.kind === 'rejected') {
+          throw broadcastError;
+        }
+
+        console.warn(`Broadcast via ${broadcaster.name} failed:`, broadcastError.message);
+        lastError = broadcastError;
+        if (broadcastError.kind === 'missing-inputs') {
+          missingInputs = broadcastError;
+        } else {
+          anyUnavailable = true;
+        }
+      }
+    }
+
+    // Every node we reached says the inputs are missing, retrying won't change that
+    if (!anyUnavailable) {
+      break;
+    }
+  }
+
+  // A node that answered is more telling than one that didn't
+  throw missingInputs ?? lastError!;
+}
@@ -0,0 +1,551 @@
+/**
+ * Chain backends for LockGift
+ * Everything we need to read from or send to the Bitcoin network,
+ * behind one interface so routes don't care where it comes from
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { getNetwork, type Network } from './bitcoin';
+import {
+  BroadcastError,
+  broadcastRawTransaction,
+  createBitcoindBroadcaster,
+  getBroadcasters,
+} from './broadcast';
+
+/**
+ * An unspent output at one of our addresses
+ */
+export interface Utxo {
+  txid: string;
+  vout: number;
+  amount: number;
+  confirmed: boolean;
+  blockHeight: number | null; // null while unconfirmed
+}
+
+/**
+ * An output of a transaction, script as hex
+ */
+export interface TxOutput {
+  vout: number;
+  script: string;
+  amount: number;
+}
+
+/**
+ * Where a transaction is in the chain
+ */
+export interface TxStatus {
+  confirmed: boolean;
+  blockHeight: number | null;
+  confirmations: number;
+}
+
+/**
+ * Funds seen at an address
+ */
+export interface AddressInfo {
+  confirmed: number;
+  unconfirmed: number;
+  txCount: number;
+}
+
+export interface ChainBackend {
+  name: string;
+  // Every UTXO at an address; a sender may pay in several transactions
+  // Throws if the backend can't tell, so a failed lookup never reads as empty
+  getUtxos(address: string): Promise<Utxo[]>;
+  getAddressInfo(address: string): Promise<AddressInfo>;
+  // null when the backend doesn't know the transaction
+  getTxOutputs(txid: string): Promise<TxOutput[] | null>;
+  // null only when the tx is definitely unknown, throws if the backend can't tell
+  getTxStatus(txid: string): Promise<TxStatus | null>;
+  getTipHeight(): Promise<number | null>;
+  // Fee rate in sat/vB to confirm within targetBlocks
+  getFeeRate(targetBlocks?: number): Promise<number>;
+  // Broadcast a finalized raw transaction, returns its txid
+  broadcast(txHex: string): Promise<string>;
+}
+
+export type ChainBackendType = 'esplora' | 'bitcoind' | 'memory';
+
+/**
+ * Fee rate used when a backend can't give an estimate
+ */
+export const DEFAULT_FEE_RATE = 10;
+
+/**
+ * Esplora REST API (mempool.space, Blockstream or self-hosted)
+ */
+export function createEsploraBackend(apiUrl: string): ChainBackend {
+  return {
+    name: `esplora:${apiUrl}`,
+
+    async getUtxos(address) {
+      const response = await fetch(`${apiUrl}/address/${address}/utxo`);
+      if (!response.ok) {
+        throw new Error(`Esplora UTXO lookup failed: HTTP ${response.status}`);
+      }
+
+      const utxos = await response.json();
+      return utxos.map((utxo: {
+        txid: string;
+        vout: number;
+        value: number;
+        status?: { confirmed?: boolean; block_height?: number };
+      }) => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        amount: utxo.value,
+        confirmed: utxo.status?.confirmed ?? false,
+        blockHeight: utxo.status?.block_height ?? null,
+      }));
+    },
+
+    async getAddressInfo(address) {
+      const response = await fetch(`${apiUrl}/address/${address}`);
+      if (!response.ok) {
+        return { confirmed: 0, unconfirmed: 0, txCount: 0 };
+      }
+
+      const info = await response.json();
+      return {
+        confirmed: info.chain_stats?.funded_txo_sum || 0,
+        unconfirmed: info.mempool_stats?.funded_txo_sum || 0,
+        txCount: info.chain_stats?.tx_count || 0,
+      };
+    },
+
+    async getTxOutputs(txid) {
+      const response = await fetch(`${apiUrl}/tx/${txid}`);
+      if (!response.ok) {
+        return null;
+      }
+
+      const tx = await response.json();
+      return tx.vout.map((output: { scriptpubkey: string; value: number }, vout: number) => ({
+        vout,
+        script: output.scriptpubkey,
+        amount: output.value,
+      }));
+    },
+
+    async getTxStatus(txid) {
+      const response = await fetch(`${apiUrl}/tx/${txid}/status`);
+      if (response.status === 404) {
+        return null;
+      }
+      // Only a definite "not found" may count as a vanished tx
+      if (!response.ok) {
+        throw new Error(`Esplora tx status failed: HTTP ${response.status}`);
+      }
+
+      const status: { confirmed: boolean; block_height?: number } = await response.json();
+      if (!status.confirmed || status.block_height === undefined) {
+        return { confirmed: false, blockHeight: null, confirmations: 0 };
+      }
+
+      const tipHeight = await this.getTipHeight();
+      return {
+        confirmed: true,
+        blockHeight: status.block_height,
+        confirmations: tipHeight === null ? 1 : tipHeight - status.block_height + 1,
+      };
+    },
+
+    async getTipHeight() {
+      const response = await fetch(`${apiUrl}/blocks/tip/height`);
+      if (!response.ok) {
+        return null;
+      }
+
+      return parseInt(await response.text(), 10);
+    },
+
+    async getFeeRate(targetBlocks = 6) {
+      try {
+        const response = await fetch(`${apiUrl}/v1/fees/recommended`);
+        if (!response.ok) return DEFAULT_FEE_RATE;
+
+        const fees = await response.json();
+        if (targetBlocks <= 1) return fees.fastestFee || DEFAULT_FEE_RATE;
+        if (targetBlocks <= 3) return fees.halfHourFee || DEFAULT_FEE_RATE;
+        if (targetBlocks <= 6) return fees.hourFee || DEFAULT_FEE_RATE;
+        return fees.economyFee || DEFAULT_FEE_RATE;
+      } catch {
+        return DEFAULT_FEE_RATE;
+      }
+    },
+
+    async broadcast(txHex) {
+      return broadcastRawTransaction(txHex, getBroadcasters(apiUrl));
+    },
+  };
+}
+
+/**
+ * Bitcoin Core JSON-RPC
+ *
+ * Deposit lookups use scantxoutset, so only confirmed deposits are seen.
+ * Looking up lock transactions needs txindex=1 once they leave the mempool.
+ */
+export function createBitcoindBackend(params: {
+  rpcUrl: string;
+  username?: string;
+  password?: string;
+}): ChainBackend {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (params.username) {
+    const credentials = Buffer.from(`${params.username}:${params.password || ''}`).toString('base64');
+    headers.Authorization = `Basic ${credentials}`;
+  }
+
+  async function rpc<T>(method: string, rpcParams: unknown[] = []): Promise<T> {
+    const response = await fetch(params.rpcUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '1.0', id: 'lockgift', method, params: rpcParams }),
+    });
+
+    const body: { result: T; error: { code: number; message: string } | null } = await response.json();
+    if (body.error) {
+      throw new Error(`bitcoind ${method} failed: ${body.error.message}`);
+    }
+    return body.result;
+  }
+
+  async function scanAddress(address: string) {
+    return rpc<{
+      unspents: { txid: string; vout: number; amount: number; height: number }[];
+      total_amount: number;
+    }>('scantxoutset', ['start', [`addr(${address})`]]);
+  }
+
+  const broadcaster = createBitcoindBroadcaster(params);
+
+  return {
+    name: `bitcoind:${params.rpcUrl}`,
+
+    async getUtxos(address) {
+      const scan = await scanAddress(address);
+      return scan.unspents.map((utxo) => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        amount: btcToSats(utxo.amount),
+        confirmed: true,
+        blockHeight: utxo.height,
+      }));
+    },
+
+    async getAddressInfo(address) {
+      try {
+        const scan = await scanAddress(address);
+        return {
+          confirmed: btcToSats(scan.total_amount),
+          unconfirmed: 0,
+          txCount: new Set(scan.unspents.map((utxo) => utxo.txid)).size,
+        };
+      } catch {
+        return { confirmed: 0, unconfirmed: 0, txCount: 0 };
+      }
+    },
+
+    async getTxOutputs(txid) {
+      try {
+        const tx = await rpc<{ vout: { n: number; value: number; scriptPubKey: { hex: string } }[] }>(
+          'getrawtransaction',
+          [txid, true]
+        );
+        return tx.vout.map((output) => ({
+          vout: output.n,
+          script: output.scriptPubKey.hex,
+          amount: btcToSats(output.value),
+        }));
+      } catch {
+        return null;
+      }
+    },
+
+    async getTxStatus(txid) {
+      let tx: { confirmations?: number };
+      try {
+        tx = await rpc<{ confirmations?: number }>('getrawtransaction', [txid, true]);
+      } catch (error) {
+        // RPC_INVALID_ADDRESS_OR_KEY: not in the mempool or (with txindex) the chain
+        if (error instanceof Error && error.message.includes('No such mempool or blockchain transaction')) {
+          return null;
+        }
+        throw error;
+      }
+
+      if (!tx.confirmations) {
+        return { confirmed: false, blockHeight: null, confirmations: 0 };
+      }
+
+      const tipHeight = await rpc<number>('getblockcount');
+      return {
+        confirmed: true,
+        blockHeight: tipHeight - tx.confirmations + 1,
+        confirmations: tx.confirmations,
+      };
+    },
+
+    async getTipHeight() {
+      try {
+        return await rpc<number>('getblockcount');
+      } catch {
+        return null;
+      }
+    },
+
+    async getFeeRate(targetBlocks = 6) {
+      try {
+        // estimatesmartfee answers in BTC/kvB
+        const estimate = await rpc<{ feerate?: number }>('estimatesmartfee', [targetBlocks]);
+        if (!estimate.feerate) return DEFAULT_FEE_RATE;
+        return Math.ceil(estimate.feerate * 100_000);
+      } catch {
+        return DEFAULT_FEE_RATE;
+      }
+    },
+
+    async broadcast(txHex) {
+      return broadcastRawTransaction(txHex, [broadcaster]);
+    },
+  };
+}
+
+function btcToSats(btc: number): number {
+  return Math.round(btc * 100_000_000);
+}
+
+/**
+ * In-memory chain for local development and exercising the pipeline offline
+ * Transactions broadcast to it spend their inputs and pay their outputs,
+ * and replace unconfirmed transactions they conflict with
+ */
+export interface MemoryChainBackend extends ChainBackend {
+  // Pay an address from nowhere, as if a sender deposited
+  fund(address: string, amount: number): Utxo;
+  // Confirm everything in the mempool
+  mine(blocks?: number): void;
+  // Roll back the top blocks, their transactions go back to the mempool
+  reorg(blocks: number): void;
+  // Forget a transaction and its outputs, as if it was double-spent
+  // (whatever it spent becomes unspent again)
+  dropTransaction(txid: string): void;
+  setFeeRate(feeRate: number): void;
+}
+
+type MemoryUtxo = { txid: string; vout: number; amount: number; address: string };
+
+export function createMemoryBackend(network: Network, startHeight: number = 100): MemoryChainBackend {
+  const bitcoinNetwork = getNetwork(network);
+
+  // Block height each tx confirmed at, null while in the mempool
+  const txHeights = new Map<string, number | null>();
+  const txOutputs = new Map<string, TxOutput[]>();
+  const utxos = new Map<string, MemoryUtxo>();
+  // Spent outputs and who spent them, so a replacement can take them back
+  const spent = new Map<string, { spender: string; utxo: MemoryUtxo }>();
+  let tipHeight = startHeight;
+  let feeRate = 1;
+  let fundingCount = 0;
+
+  const outpoint = (txid: string, vout: number) => `${txid}:${vout}`;
+
+  // Remove a tx and its outputs, giving back what it spent
+  const evict = (txid: string) => {
+    txHeights.delete(txid);
+    txOutputs.delete(txid);
+    utxos.forEach((utxo, key) => {
+      if (utxo.txid === txid) utxos.delete(key);
+    });
+    spent.forEach(({ spender, utxo }, key) => {
+      if (spender === txid) {
+        spent.delete(key);
+        utxos.set(key, utxo);
+      }
+    });
+  };
+
+  const addressUtxos = (address: string): Utxo[] =>
+    Array.from(utxos.values())
+      .filter((utxo) => utxo.address === address)
+      .map(({ txid, vout, amount }) => {
+        const blockHeight = txHeights.get(txid) ?? null;
+        return { txid, vout, amount, confirmed: blockHeight !== null, blockHeight };
+      });
+
+  return {
+    name: 'memory',
+
+    async getUtxos(address) {
+      return addressUtxos(address);
+    },
+
+    async getAddressInfo(address) {
+      const found = addressUtxos(address);
+      return {
+        confirmed: found.filter((utxo) => utxo.confirmed).reduce((sum, utxo) => sum + utxo.amount, 0),
+        unconfirmed: found.filter((utxo) => !utxo.confirmed).reduce((sum, utxo) => sum + utxo.amount, 0),
+        txCount: new Set(found.map((utxo) => utxo.txid)).size,
+      };
+    },
+
+    async getTxOutputs(txid) {
+      return txOutputs.get(txid) || null;
+    },
+
+    async getTxStatus(txid) {
+      if (!txHeights.has(txid)) return null;
+
+      const height = txHeights.get(txid)!;
+      if (height === null) {
+        return { confirmed: false, blockHeight: null, confirmations: 0 };
+      }
+      return { confirmed: true, blockHeight: height, confirmations: tipHeight - height + 1 };
+    },
+
+    async getTipHeight() {
+      return tipHeight;
+    },
+
+    async getFeeRate() {
+      return feeRate;
+    },
+
+    async broadcast(txHex) {
+      const tx = bitcoin.Transaction.fromHex(txHex);
+      const txid = tx.getId();
+      if (txHeights.has(txid)) {
+        return txid;
+      }
+
+      // Inputs spent by an unconfirmed tx are taken over, like RBF
+      const inputs = tx.ins.map((input) => outpoint(Buffer.from(input.hash).reverse().toString('hex'), input.index));
+      const conflicts = new Set<string>();
+      for (const input of inputs) {
+        if (utxos.has(input)) continue;
+        const spender = spent.get(input)?.spender;
+        if (spender === undefined || txHeights.get(spender) !== null) {
+          throw new BroadcastError(`Missing inputs: ${input}`, 'missing-inputs');
+        }
+        conflicts.add(spender);
+      }
+      conflicts.forEach(evict);
+      for (const input of inputs) {
+        spent.set(input, { spender: txid, utxo: utxos.get(input)! });
+        utxos.delete(input);
+      }
+
+      txHeights.set(txid, null);
+      txOutputs.set(txid, tx.outs.map((output, vout) => ({
+        vout,
+        script: output.script.toString('hex'),
+        amount: output.value,
+      })));
+      tx.outs.forEach((output, vout) => {
+        let address: string;
+        try {
+          address = bitcoin.address.fromOutputScript(output.script, bitcoinNetwork);
+        } catch {
+          return; // OP_RETURN and other outputs without an address
+        }
+        utxos.set(outpoint(txid, vout), { txid, vout, amount: output.value, address });
+      });
+
+      return txid;
+    },
+
+    fund(address, amount) {
+      // A fake txid that is unique per funding
+      const txid = bitcoin.crypto.sha256(Buffer.from(`fund:${address}:${fundingCount++}`)).toString('hex');
+      const script = bitcoin.address.toOutputScript(address, bitcoinNetwork).toString('hex');
+
+      txHeights.set(txid, null);
+      txOutputs.set(txid, [{ vout: 0, script, amount }]);
+      utxos.set(outpoint(txid, 0), { txid, vout: 0, amount, address });
+      return { txid, vout: 0, amount, confirmed: false, blockHeight: null };
+    },
+
+    mine(blocks = 1) {
+      tipHeight += blocks;
+      txHeights.forEach((height, txid) => {
+        if (height === null) {
+          txHeights.set(txid, tipHeight - blocks + 1);
+        }
+      });
+    },
+
+    reorg(blocks) {
+      tipHeight -= blocks;
+      txHeights.forEach((height, txid) => {
+        if (height !== null && height > tipHeight) {
+          txHeights.set(txid, null);
+        }
+      });
+    },
+
+    dropTransaction(txid) {
+      evict(txid);
+    },
+
+    setFeeRate(rate) {
+      feeRate = rate;
+    },
+  };
+}
+
+/**
+ * Esplora API for a network, NEXT_PUBLIC_MEMPOOL_URL overrides it
+ * Regtest defaults to a local esplora/electrs on its usual port
+ */
+export function getEsploraApiUrl(network: Network): string {
+  if (process.env.NEXT_PUBLIC_MEMPOOL_URL) {
+    return process.env.NEXT_PUBLIC_MEMPOOL_URL;
+  }
+  switch (network) {
+    case 'mainnet':
+      return 'https://mempool.space/api';
+    case 'signet':
+      return 'https://mempool.space/signet/api';
+    case 'regtest':
+      return 'http://127.0.0.1:3002';
+    default:
+      return 'https://mempool.space/testnet/api';
+  }
+}
+
+// Keep one in-memory chain across requests (and dev server reloads)
+const globalForChain = globalThis as unknown as { lockgiftMemoryChain?: MemoryChainBackend };
+
+/**
+ * Get the chain backend configured in env
+ * CHAIN_BACKEND: esplora (default) | bitcoind | memory
+ * esplora reads NEXT_PUBLIC_MEMPOOL_URL, bitcoind reads BITCOIND_RPC_*
+ */
+export function getChainBackend(network: Network): ChainBackend {
+  const type = (process.env.CHAIN_BACKEND || 'esplora') as ChainBackendType;
+
+  if (type === 'memory') {
+    if (!globalForChain.lockgiftMemoryChain) {
+      globalForChain.lockgiftMemoryChain = createMemoryBackend(network);
+    }
+    return globalForChain.lockgiftMemoryChain;
+  }
+
+  if (type === 'bitcoind') {
+    if (!process.env.BITCOIND_RPC_URL) {
+      throw new Error('BITCOIND_RPC_URL is required for the bitcoind chain backend');
+    }
+    return createBitcoindBackend({
+      rpcUrl: process.env.BITCOIND_RPC_URL,
+      username: process.env.BITCOIND_RPC_USER,
+      password: process.env.BITCOIND_RPC_PASSWORD,
+    });
+  }
+
+  return createEsploraBackend(getEsploraApiUrl(network));
+}
@@ -0,0 +1,128 @@
+/**
+ * Deposit policy for LockGift
+ * Decides what to do when a deposit doesn't match the gift amount
+ */
+
+// How a deposit compares with the amount the sender said they'd send
+export type DepositOutcome = 'exact' | 'underpaid' | 'overpaid';
+
+// What to do about it
+// - wait: keep the gift pending until more arrives
+// - lock: lock whatever arrived
+// - flag: hold the gift for an admin to resolve
+export type DepositAction = 'wait' | 'lock' | 'flag';
+
+export interface DepositPolicy {
+  underpaid: DepositAction;
+  overpaid: Exclude<DepositAction, 'wait'>;
+}
+
+export interface DepositDecision {
+  outcome: DepositOutcome;
+  action: DepositAction;
+  receivedSats: number;
+}
+
+/**
+ * Smallest deposit that can cover lock fees
+ */
+export const MIN_DEPOSIT_SATS = 6000;
+
+/**
+ * Read the deposit policy from env
+ * UNDERPAYMENT_POLICY: wait (default) | lock | flag
+ * OVERPAYMENT_POLICY: lock (default) | flag
+ */
+export function getDepositPolicy(): DepositPolicy {
+  const underpaid = process.env.UNDERPAYMENT_POLICY;
+  const overpaid = process.env.OVERPAYMENT_POLICY;
+
+  return {
+    underpaid: underpaid === 'lock' || underpaid === 'flag' ? underpaid : 'wait',
+    overpaid: overpaid === 'flag' ? 'flag' : 'lock',
+  };
+}
+
+/**
+ * Decide what to do with the deposits received for a gift
+ * Anything below MIN_DEPOSIT_SATS waits, whatever the policy
+ */
+export function evaluateDeposit(
+  receivedSats: number,
+  expectedSats: number,
+  policy: DepositPolicy
+): DepositDecision {
+  if (receivedSats === expectedSats) {
+    return { outcome: 'exact', action: 'lock', receivedSats };
+  }
+
+  if (receivedSats > expectedSats) {
+    return { outcome: 'overpaid', action: policy.overpaid, receivedSats };
+  }
+
+  return {
+    outcome: 'underpaid',
+    action: receivedSats < MIN_DEPOSIT_SATS ? 'wait' : policy.underpaid,
+    receivedSats,
+  };
+}
+
+export interface ConfirmationPolicy {
+  minConfirmations: number;
+  // Bigger deposits wait longer: at or above minSats, wait for confirmations
+  tiers: { minSats: number; confirmations: number }[];
+  // Lock transactions are re-checked until they are this deep
+  reorgSafeDepth: number;
+}
+
+/**
+ * Read the confirmation policy from env
+ * MIN_CONFIRMATIONS: confirmations before locking (default 1, 0 locks zero-conf deposits)
+ * CONFIRMATION_TIERS: minSats:confirmations pairs, e.g. "1000000:3,10000000:6"
+ * REORG_SAFE_DEPTH: confirmations after which a lock is final (default 6)
+ */
+export function getConfirmationPolicy(): ConfirmationPolicy {
+  const minConfirmations = parseInt(process.env.MIN_CONFIRMATIONS || '1', 10);
+  const reorgSafeDepth = parseInt(process.env.REORG_SAFE_DEPTH || '6', 10);
+
+  const tiers = (process.env.CONFIRMATION_TIERS || '')
+    .split(',')
+    .map((tier) => tier.split(':').map((n) => parseInt(n, 10)))
+    .filter(([minSats, confirmations]) => Number.isFinite(minSats) && Number.isFinite(confirmations))
+    .map(([minSats, confirmations]) => ({ minSats, confirmations }));
+
+  return {
+    minConfirmations: Number.isFinite(minConfirmations) ? Math.max(0, minConfirmations) : 1,
+    tiers,
+    reorgSafeDepth: Number.isFinite(reorgSafeDepth) ? Math.max(1, reorgSafeDepth) : 6,
+  };
+}
+
+/**
+ * Confirmations a deposit of this size needs before it is locked
+ */
+export function requiredConfirmations(amountSats: number, policy: ConfirmationPolicy): number {
+  return policy.tiers
+    .filter((tier) => amountSats >= tier.minSats)
+    .reduce((required, tier) => Math.max(required, tier.confirmations), policy.minConfirmations);
+}
+
+/**
+ * Confirmations of a tx mined at blockHeight, 0 while unconfirmed
+ */
+export function countConfirmations(blockHeight: number | null, tipHeight: number): number {
+  if (blockHeight === null || blockHeight > tipHeight) return 0;
+  return tipHeight - blockHeight + 1;
+}
+
+/**
+ * Confirmations of the least-confirmed deposit UTXO
+ * A deposit is only as safe as its weakest payment
+ */
+export function depositConfirmations(
+  utxos: { blockHeight: number | null }[],
+  tipHeight: number
+): number {
+  if (utxos.length === 0) return 0;
+  return Math.min(...utxos.map((utxo) => countConfirmations(utxo.blockHeight, tipHeight)));
+}
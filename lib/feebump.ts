@@ -0,0 +1,232 @@
+/**
+ * Fee bumping for LockGift
+ * Lock transactions that sit unconfirmed are replaced at a higher fee
+ * rate (RBF), or pulled through by a child spending the fee output (CPFP)
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  buildLockingTransaction,
+  buildCpfpTransaction,
+  bumpFeeRate,
+  getGiftLockTerms,
+  getGiftLockSplits,
+  getNetwork,
+  getOpReturnMode,
+  type Network,
+} from './bitcoin';
+import type { ChainBackend } from './chain';
+import { getGiftFeeSats } from './fees';
+import { getGiftAccountPath, getHDDepositKey } from './signer';
+import { getGiftLockParts, recordCpfp, recordGiftEvent, replaceLockTx, type Gift } from './supabase';
+
+export interface FeeBumpPolicy {
+  delayMinutes: number; // How long a lock may sit unconfirmed before a bump
+  maxFeeRate: number; // Never bump above this, sat/vB
+  targetBlocks: number; // Confirmation target for the bumped rate
+  feeWalletWif: string | null; // Key for FEE_ADDRESS, enables CPFP
+}
+
+export interface FeeBumpResult {
+  method: 'rbf' | 'cpfp' | 'none';
+  txid?: string;
+  feeRate?: number;
+  reason?: string; // Why nothing was bumped, or why CPFP was used instead of RBF
+}
+
+/**
+ * Read the fee bump policy from env
+ * FEE_BUMP_DELAY_MINUTES (default 60), FEE_BUMP_MAX_RATE (default 200),
+ * FEE_BUMP_TARGET_BLOCKS (default 2), FEE_WALLET_WIF (optional, for CPFP)
+ */
+export function getFeeBumpPolicy(): FeeBumpPolicy {
+  return {
+    delayMinutes: parseInt(process.env.FEE_BUMP_DELAY_MINUTES || '60', 10),
+    maxFeeRate: parseFloat(process.env.FEE_BUMP_MAX_RATE || '200'),
+    targetBlocks: parseInt(process.env.FEE_BUMP_TARGET_BLOCKS || '2', 10),
+    feeWalletWif: process.env.FEE_WALLET_WIF || null,
+  };
+}
+
+/**
+ * Whether a gift's lock tx has waited long enough to be bumped
+ */
+export function isDueForBump(gift: Gift, policy: FeeBumpPolicy, now: Date = new Date()): boolean {
+  if (gift.status !== 'locked' || !gift.lock_txid || gift.lock_confirmations > 0) {
+    return false;
+  }
+  const broadcastAt = new Date(gift.lock_broadcast_at || gift.locked_at || gift.created_at);
+  return now.getTime() - broadcastAt.getTime() >= policy.delayMinutes * 60 * 1000;
+}
+
+/**
+ * Key for a gift's deposit address: its HD key, or the shared hot wallet
+ */
+function getDepositKey(gift: Gift, network: Network): string | null {
+  if (gift.hd_index !== null && (process.env.HD_XPUB || process.env.HD_SEED)) {
+    // Watch-only: the key is with the external signer, so no RBF
+    const { key } = getHDDepositKey(gift.hd_index, network, getGiftAccountPath(gift, network));
+    return 'hotWalletWif' in key ? key.hotWalletWif : null;
+  }
+  return process.env.HOT_WALLET_WIF || null;
+}
+
+/**
+ * Replace the lock tx with the same inputs at a higher fee rate
+ */
+async function replaceByFee(
+  gift: Gift,
+  chain: ChainBackend,
+  network: Network,
+  feeRate: number
+): Promise<FeeBumpResult> {
+  // The sender signed a sender-funded lock tx, only their wallet can replace it
+  if (gift.funding_mode === 'sender') {
+    return { method: 'none', reason: 'Sender-funded lock tx can only be replaced by the sender' };
+  }
+
+  // Other gifts' inputs are in a batched lock tx too, so it can't be rebuilt from one gift
+  if (gift.lock_batch_size > 1) {
+    return { method: 'none', reason: 'Batched lock tx can only be bumped with CPFP' };
+  }
+
+  const hotWalletWif = getDepositKey(gift, network);
+  const feeAddress = process.env.FEE_ADDRESS;
+  if (!hotWalletWif || !feeAddress || !gift.deposit_utxos?.length) {
+    return { method: 'none', reason: 'Deposit key or UTXOs unavailable for RBF' };
+  }
+
+  const parts = await getGiftLockParts(gift);
+  if (!parts) {
+    return { method: 'none', reason: 'Recipients or tranches missing' };
+  }
+
+  const lockTx = buildLockingTransaction({
+    utxos: gift.deposit_utxos,
+    hotWalletWif,
+    lockTerms: getGiftLockTerms(gift),
+    splits: getGiftLockSplits(gift, parts),
+    feeSats: getGiftFeeSats(gift, gift.deposit_utxos.reduce((sum, utxo) => sum + utxo.amount, 0)),
+    feeAddress,
+    opReturn: getOpReturnMode(),
+    feeRate,
+    network,
+  });
+
+  const lockTxid = await chain.broadcast(lockTx.txHex);
+
+  await replaceLockTx(gift.id, {
+    lockTxid,
+    replacedLockTxids: [...(gift.replaced_lock_txids || []), gift.lock_txid!],
+    lockVout: lockTx.lockVout,
+    outputs: lockTx.outputs,
+    serviceFeeSats: lockTx.serviceFeeSats,
+    minerFeeSats: lockTx.minerFeeSats,
+    lockedAmountSats: lockTx.lockedAmountSats,
+    feeRate,
+    vsize: lockTx.vsize,
+  });
+  await recordGiftEvent(gift.id, 'lock_fee_bumped', {
+    replacedTxid: gift.lock_txid,
+    lockTxid,
+    previousFeeRate: gift.lock_fee_rate,
+    feeRate,
+  });
+
+  return { method: 'rbf', txid: lockTxid, feeRate };
+}
+
+/**
+ * Spend the lock tx's fee output with a child paying for both
+ */
+async function childPaysForParent(
+  gift: Gift,
+  chain: ChainBackend,
+  network: Network,
+  feeRate: number,
+  feeWalletWif: string
+): Promise<FeeBumpResult> {
+  const feeAddress = process.env.FEE_ADDRESS;
+  if (!feeAddress || gift.lock_vsize === null || gift.lock_fee_rate === null) {
+    return { method: 'none', reason: 'Lock tx details unavailable for CPFP' };
+  }
+  if (gift.cpfp_txid) {
+    return { method: 'none', reason: 'CPFP child already broadcast' };
+  }
+
+  const outputs = await chain.getTxOutputs(gift.lock_txid!);
+  const feeScript = bitcoin.address.toOutputScript(feeAddress, getNetwork(network)).toString('hex');
+  const feeOutput = outputs?.find(o => o.script === feeScript);
+  if (!feeOutput) {
+    return { method: 'none', reason: 'Lock tx has no fee output' };
+  }
+
+  const child = buildCpfpTransaction({
+    parentTxId: gift.lock_txid!,
+    parentVout: feeOutput.vout,
+    parentAmountSats: feeOutput.amount,
+    parentVsize: gift.lock_vsize,
+    // The whole tx's fee, a batched gift's miner_fee_sats is only its share
+    parentFeeSats: Math.ceil(gift.lock_vsize * gift.lock_fee_rate),
+    feeWalletWif,
+    destinationAddress: feeAddress,
+    feeRate,
+    network,
+  });
+
+  const cpfpTxid = await chain.broadcast(child.txHex);
+
+  await recordCpfp(gift.id, cpfpTxid);
+  await recordGiftEvent(gift.id, 'lock_cpfp', {
+    lockTxid: gift.lock_txid,
+    cpfpTxid,
+    feeRate,
+    childFeeSats: child.feeSats,
+  });
+
+  return { method: 'cpfp', txid: cpfpTxid, feeRate };
+}
+
+/**
+ * Bump the fee of a gift's unconfirmed lock tx
+ * RBF first; CPFP through the fee output if RBF isn't possible or fails
+ */
+export async function bumpLockFee(
+  gift: Gift,
+  chain: ChainBackend,
+  network: Network,
+  policy: FeeBumpPolicy
+): Promise<FeeBumpResult> {
+  const status = await chain.getTxStatus(gift.lock_txid!);
+  if (!status) {
+    return { method: 'none', reason: 'Lock tx not found' };
+  }
+  if (status.confirmed) {
+    return { method: 'none', reason: 'Lock tx already confirmed' };
+  }
+
+  const previousRate = gift.lock_fee_rate ?? 1;
+  if (previousRate >= policy.maxFeeRate) {
+    return { method: 'none', reason: 'Already at the maximum fee rate' };
+  }
+  const targetRate = await chain.getFeeRate(policy.targetBlocks);
+  const feeRate = bumpFeeRate(previousRate, targetRate, policy.maxFeeRate);
+
+  let rbfFailure: string;
+  try {
+    const result = await replaceByFee(gift, chain, network, feeRate);
+    if (result.method === 'rbf') return result;
+    rbfFailure = result.reason!;
+  } catch (error) {
+    rbfFailure = error instanceof Error ? error.message : 'RBF failed';
+  }
+
+  if (!policy.feeWalletWif) {
+    return { method: 'none', reason: rbfFailure };
+  }
+  const result = await childPaysForParent(gift, chain, network, feeRate, policy.feeWalletWif);
+  return {
+    ...result,
+    reason: result.method === 'cpfp' ? `RBF failed: ${rbfFailure}` : `RBF failed: ${rbfFailure}; CPFP: ${result.reason}`,
+  };
+}
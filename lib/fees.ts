@@ -0,0 +1,149 @@
+/**
+ * Fee policy for LockGift
+ * Works out a gift's service fee when it is created: a percentage and a flat
+ * fee, kept between a minimum and a maximum, with tiers and promo codes.
+ * The quote is stored on the gift, and the lock tx charges exactly that.
+ */
+
+import { DUST_LIMIT_SATS } from './bitcoin';
+import type { Gift } from './supabase';
+
+// At or above a threshold, the percentage changes
+export interface FeeTier {
+  min: number; // Gift amount in sats, or lock duration in days
+  percent: number;
+}
+
+// Percent off the fee, or sats off it
+export type PromoDiscount = { percent: number } | { sats: number };
+
+export interface FeePolicy {
+  percent: number;
+  flatSats: number;
+  minSats: number;
+  maxSats: number | null;
+  amountTiers: FeeTier[];
+  durationTiers: FeeTier[];
+  promoCodes: Record<string, PromoDiscount>; // Upper-case code
+}
+
+export interface FeeQuote {
+  percent: number; // After tiers
+  flatSats: number;
+  baseSats: number; // Percentage plus flat fee, within the min and max
+  promoCode: string | null;
+  discountSats: number;
+  feeSats: number; // What the gift is charged
+  feeOutputSats: number; // Paid to the fee address, 0 when feeSats is below dust
+}
+
+function parseTiers(value: string | undefined): FeeTier[] {
+  return (value || '')
+    .split(',')
+    .map((tier) => tier.split(':').map((n) => parseFloat(n)))
+    .filter(([min, percent]) => Number.isFinite(min) && Number.isFinite(percent) && percent >= 0)
+    .map(([min, percent]) => ({ min, percent }));
+}
+
+function parsePromoCodes(value: string | undefined): Record<string, PromoDiscount> {
+  const codes: Record<string, PromoDiscount> = {};
+  (value || '').split(',').forEach((entry) => {
+    const [code, discount] = entry.split(':').map((part) => part.trim());
+    if (!code || !discount) return;
+    const amount = parseFloat(discount);
+    if (!Number.isFinite(amount) || amount < 0) return;
+    codes[code.toUpperCase()] = discount.endsWith('%')
+      ? { percent: Math.min(amount, 100) }
+      : { sats: Math.floor(amount) };
+  });
+  return codes;
+}
+
+/**
+ * Read the fee policy from env
+ * FEE_PERCENT: percentage of the gift amount (default 1)
+ * FEE_FLAT_SATS: added to the percentage (default 0)
+ * FEE_MIN_SATS / FEE_MAX_SATS: bounds before any promo (default 0 / none)
+ * FEE_AMOUNT_TIERS: minSats:percent pairs, e.g. "1000000:0.5,10000000:0.25"
+ * FEE_DURATION_TIERS: minDays:percent pairs, e.g. "3650:2"
+ * FEE_PROMO_CODES: code:discount pairs, a percentage or sats off, e.g. "LAUNCH:50%,FRIEND:1000"
+ */
+export function getFeePolicy(): FeePolicy {
+  const percent = parseFloat(process.env.FEE_PERCENT || '1');
+  const flatSats = parseInt(process.env.FEE_FLAT_SATS || '0', 10);
+  const minSats = parseInt(process.env.FEE_MIN_SATS || '0', 10);
+  const maxSats = parseInt(process.env.FEE_MAX_SATS || '', 10);
+
+  return {
+    percent: Number.isFinite(percent) ? Math.max(0, percent) : 1,
+    flatSats: Number.isFinite(flatSats) ? Math.max(0, flatSats) : 0,
+    minSats: Number.isFinite(minSats) ? Math.max(0, minSats) : 0,
+    maxSats: Number.isFinite(maxSats) ? Math.max(0, maxSats) : null,
+    amountTiers: parseTiers(process.env.FEE_AMOUNT_TIERS),
+    durationTiers: parseTiers(process.env.FEE_DURATION_TIERS),
+    promoCodes: parsePromoCodes(process.env.FEE_PROMO_CODES),
+  };
+}
+
+/**
+ * Percentage of the highest tier reached, or null if none is
+ */
+function tierPercent(tiers: FeeTier[], value: number): number | null {
+  const reached = tiers
+    .filter((tier) => value >= tier.min)
+    .sort((a, b) => b.min - a.min);
+  return reached.length > 0 ? reached[0].percent : null;
+}
+
+/**
+ * Quote the service fee on a gift
+ * The highest amount tier and duration tier reached each set a percentage;
+ * with both, the lower one applies. The promo comes off last, so it can go
+ * below the minimum. Throws on an unknown promo code.
+ */
+export function quoteFee(
+  params: { amountSats: number; lockDays: number; promoCode?: string | null },
+  policy: FeePolicy
+): FeeQuote {
+  const tiered = [
+    tierPercent(policy.amountTiers, params.amountSats),
+    tierPercent(policy.durationTiers, params.lockDays),
+  ].filter((percent): percent is number => percent !== null);
+  const percent = tiered.length > 0 ? Math.min(...tiered) : policy.percent;
+
+  let baseSats = Math.floor(params.amountSats * (percent / 100)) + policy.flatSats;
+  baseSats = Math.max(baseSats, policy.minSats);
+  if (policy.maxSats !== null) baseSats = Math.min(baseSats, policy.maxSats);
+
+  const promoCode = params.promoCode?.trim().toUpperCase() || null;
+  let discountSats = 0;
+  if (promoCode) {
+    const discount = policy.promoCodes[promoCode];
+    if (!discount) {
+      throw new Error('Unknown promo code');
+    }
+    discountSats = 'percent' in discount
+      ? Math.floor(baseSats * (discount.percent / 100))
+      : Math.min(discount.sats, baseSats);
+  }
+
+  // A dust-sized fee can't be an output, so the miners get it instead
+  const feeSats = baseSats - discountSats;
+  return {
+    percent,
+    flatSats: policy.flatSats,
+    baseSats,
+    promoCode,
+    discountSats,
+    feeSats,
+    feeOutputSats: feeSats >= DUST_LIMIT_SATS ? feeSats : 0,
+  };
+}
+
+/**
+ * The service fee to charge when locking a gift
+ * Gifts created before fees were quoted pay their percentage of the deposit
+ */
+export function getGiftFeeSats(gift: Pick<Gift, 'fee_sats' | 'fee_percent'>, depositSats: number): number {
+  return gift.fee_sats ?? Math.floor(depositSats * (gift.fee_percent / 100));
+}
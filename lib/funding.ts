@@ -0,0 +1,324 @@
+/**
+ * Sender-funded gifts for LockGift
+ * Instead of paying a deposit address, the sender's own wallet funds the
+ * lock tx from a PSBT we lay out, so the coins never pass through a key we hold
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import * as bip32 from 'bip32';
+import {
+  addDescriptorChecksum,
+  createLockPayment,
+  findSenderFundedLockOutputs,
+  getFundingInputType,
+  getFundingPsbtSummary,
+  getGiftLockSplits,
+  getGiftLockTerms,
+  getNetwork,
+  type FundingUtxo,
+  type LockOutputResult,
+  type Network,
+} from './bitcoin';
+import type { ChainBackend, Utxo } from './chain';
+import { getGiftFeeSats } from './fees';
+import { DEFAULT_GAP_LIMIT } from './hdscan';
+import type { Gift, GiftLockPart } from './supabase';
+
+// Bounds the chain lookups one gift can trigger
+export const MAX_FUNDING_UTXOS = 50;
+
+/**
+ * Where the sender's coins are: a list of outpoints, or a descriptor of
+ * their wallet, e.g. wpkh([d34db33f/84h/0h/0h]xpub.../0/*)
+ */
+export interface FundingSource {
+  utxos?: { txid: string; vout: number }[];
+  descriptor?: string;
+}
+
+// A key in a descriptor, with its origin and the unhardened path below it
+interface DescriptorKey {
+  type: 'wpkh' | 'tr';
+  origin: { masterFingerprint: string; path: string } | null;
+  pubkey: Buffer | null; // A single key...
+  node: bip32.BIP32Interface | null; // ...or an xpub
+  path: number[];
+  ranged: boolean;
+}
+
+const KEY_EXPRESSION = /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([^/[\]]+)((?:\/\d+)*)(\/\*)?$/;
+
+function parseDescriptorKey(type: 'wpkh' | 'tr', expression: string, network: Network): DescriptorKey {
+  const match = expression.match(KEY_EXPRESSION);
+  if (!match) {
+    throw new Error('Unsupported key in descriptor');
+  }
+  const [, fingerprint, originPath, key, path, wildcard] = match;
+
+  let pubkey: Buffer | null = null;
+  let node: bip32.BIP32Interface | null = null;
+  if (/^(0[23][0-9a-fA-F]{64}|[0-9a-fA-F]{64})$/.test(key) && (type === 'tr' || key.length === 66)) {
+    pubkey = Buffer.from(key, 'hex');
+  } else {
+    try {
+      node = bip32.fromBase58(key, getNetwork(network));
+    } catch {
+      throw new Error(`Invalid key in descriptor for ${network}`);
+    }
+    if (!node.isNeutered()) {
+      throw new Error('Extended private keys are not accepted');
+    }
+  }
+  if (pubkey && (path || wildcard)) {
+    throw new Error('Only an xpub can have a derivation path');
+  }
+
+  return {
+    type,
+    origin: fingerprint
+      ? { masterFingerprint: fingerprint.toLowerCase(), path: `m${originPath.replace(/h/g, '\'')}` }
+      : null,
+    pubkey,
+    node,
+    path: path ? path.split('/').slice(1).map(Number) : [],
+    ranged: !!wildcard,
+  };
+}
+
+/**
+ * The funding UTXO fields for a descriptor key at an index
+ */
+function deriveDescriptorKey(key: DescriptorKey, index: number, network: Network): Omit<FundingUtxo, 'txid' | 'vout' | 'amount'> {
+  const steps = key.ranged ? [...key.path, index] : key.path;
+  const pubkey = key.node
+    ? steps.reduce((node, step) => node.derive(step), key.node).publicKey
+    : key.pubkey!;
+  const xOnly = pubkey.length === 33 ? pubkey.subarray(1, 33) : pubkey;
+  const networkConfig = getNetwork(network);
+  const payment = key.type === 'tr'
+    ? bitcoin.payments.p2tr({ internalPubkey: xOnly, network: networkConfig })
+    : bitcoin.payments.p2wpkh({ pubkey, network: networkConfig });
+
+  return {
+    script: payment.output!.toString('hex'),
+    ...(key.type === 'tr' && { internalKey: xOnly.toString('hex') }),
+    ...(key.origin && {
+      derivation: {
+        pubkey: (key.type === 'tr' ? xOnly : pubkey).toString('hex'),
+        masterFingerprint: key.origin.masterFingerprint,
+        path: [key.origin.path, ...steps].join('/'),
+      },
+    }),
+  };
+}
+
+/**
+ * Split a descriptor into the single-key descriptors it stands for
+ * A <0;1> multipath step gives one per branch, so receive and change
+ * addresses are both scanned
+ */
+function expandDescriptor(descriptor: string): string[] {
+  const [body, checksum] = descriptor.trim().split('#');
+  if (checksum !== undefined && addDescriptorChecksum(body) !== `${body}#${checksum}`) {
+    throw new Error('Descriptor checksum does not match');
+  }
+
+  const multipath = body.match(/<(\d+);(\d+)>/);
+  return multipath
+    ? [multipath[1], multipath[2]].map(step => body.replace(multipath[0], step))
+    : [body];
+}
+
+/**
+ * Unspent outputs at one address, as funding UTXOs
+ */
+async function getAddressFunding(
+  chain: ChainBackend,
+  address: string,
+  fields: Omit<FundingUtxo, 'txid' | 'vout' | 'amount'>
+): Promise<{ utxos: FundingUtxo[]; used: boolean }> {
+  const utxos = await chain.getUtxos(address);
+  let used = utxos.length > 0;
+  if (!used) {
+    const info = await chain.getAddressInfo(address);
+    used = info.txCount > 0 || info.confirmed > 0 || info.unconfirmed > 0;
+  }
+  return {
+    utxos: utxos.map(({ txid, vout, amount }: Utxo) => ({ txid, vout, amount, ...fields })),
+    used,
+  };
+}
+
+/**
+ * Find the unspent outputs a descriptor covers
+ * Takes addr(), wpkh(KEY) and tr(KEY) without script leaves; ranged keys
+ * are scanned until gapLimit addresses in a row have no history
+ */
+async function scanDescriptor(
+  descriptor: string,
+  chain: ChainBackend,
+  network: Network,
+  gapLimit: number
+): Promise<FundingUtxo[]> {
+  const match = descriptor.match(/^(addr|wpkh|tr)\((.+)\)$/);
+  if (!match) {
+    throw new Error('Only addr(), wpkh() and tr() descriptors are supported');
+  }
+  const [, type, inner] = match;
+
+  if (type === 'addr') {
+    let script: Buffer;
+    try {
+      script = bitcoin.address.toOutputScript(inner, getNetwork(network));
+    } catch {
+      throw new Error('Invalid address in descriptor');
+    }
+    if (!getFundingInputType(script)) {
+      throw new Error('Only P2WPKH and Taproot addresses can fund a gift');
+    }
+    const { utxos } = await getAddressFunding(chain, inner, { script: script.toString('hex') });
+    return utxos;
+  }
+
+  if (inner.includes(',')) {
+    throw new Error('Descriptors with scripts are not supported');
+  }
+  const key = parseDescriptorKey(type as 'wpkh' | 'tr', inner, network);
+  const networkConfig = getNetwork(network);
+  const addressOf = (fields: { script: string }) =>
+    bitcoin.address.fromOutputScript(Buffer.from(fields.script, 'hex'), networkConfig);
+
+  if (!key.ranged) {
+    const fields = deriveDescriptorKey(key, 0, network);
+    const { utxos } = await getAddressFunding(chain, addressOf(fields), fields);
+    return utxos;
+  }
+
+  const found: FundingUtxo[] = [];
+  let lastUsedIndex = -1;
+  for (let index = 0; index <= lastUsedIndex + gapLimit; index++) {
+    const fields = deriveDescriptorKey(key, index, network);
+    const { utxos, used } = await getAddressFunding(chain, addressOf(fields), fields);
+    if (used) lastUsedIndex = index;
+    found.push(...utxos);
+  }
+  return found;
+}
+
+/**
+ * Look up the sender's UTXOs, checking each is unspent and can fund a lock
+ * Throws with a message for the sender if one can't be used
+ */
+export async function resolveFundingUtxos(
+  source: FundingSource,
+  chain: ChainBackend,
+  network: Network,
+  gapLimit: number = DEFAULT_GAP_LIMIT
+): Promise<FundingUtxo[]> {
+  let utxos: FundingUtxo[] = [];
+
+  if (source.descriptor) {
+    const descriptors = expandDescriptor(source.descriptor);
+    for (const descriptor of descriptors) {
+      utxos.push(...await scanDescriptor(descriptor, chain, network, gapLimit));
+    }
+    // Leave the small ones, coin selection takes the largest first
+    utxos = utxos.sort((a, b) => b.amount - a.amount).slice(0, MAX_FUNDING_UTXOS);
+  } else if (source.utxos?.length) {
+    if (source.utxos.length > MAX_FUNDING_UTXOS) {
+      throw new Error(`At most ${MAX_FUNDING_UTXOS} UTXOs can fund a gift`);
+    }
+    for (const { txid, vout } of source.utxos) {
+      const outpoint = `${txid}:${vout}`;
+      if (!/^[0-9a-fA-F]{64}$/.test(txid) || !Number.isInteger(vout) || vout < 0) {
+        throw new Error(`Invalid UTXO ${outpoint}`);
+      }
+
+      const output = (await chain.getTxOutputs(txid))?.find(o => o.vout === vout);
+      if (!output) {
+        throw new Error(`UTXO ${outpoint} not found`);
+      }
+      const script = Buffer.from(output.script, 'hex');
+      if (!getFundingInputType(script)) {
+        throw new Error(`UTXO ${outpoint} is not P2WPKH or Taproot`);
+      }
+
+      // Its address's UTXOs tell whether it is still unspent
+      const address = bitcoin.address.fromOutputScript(script, getNetwork(network));
+      const unspent = (await chain.getUtxos(address)).some(utxo => utxo.txid === txid && utxo.vout === vout);
+      if (!unspent) {
+        throw new Error(`UTXO ${outpoint} is already spent`);
+      }
+      utxos.push({ txid, vout, amount: output.amount, script: output.script });
+    }
+  }
+
+  if (utxos.length === 0) {
+    throw new Error('No unspent outputs to fund the gift');
+  }
+  return utxos;
+}
+
+export interface SenderFundedLock {
+  lockTxid: string;
+  lockVout: number;
+  outputs: LockOutputResult[];
+  lockedAmountSats: number;
+  serviceFeeSats: number;
+  feePaid: boolean; // The lock tx pays the service fee it was quoted
+  // From the funding PSBT, when the sender broadcast its tx unchanged
+  utxos: Pick<Utxo, 'txid' | 'vout' | 'amount'>[];
+  minerFeeSats: number | null;
+  feeRate: number | null;
+  vsize: number | null;
+}
+
+/**
+ * Watch for a sender-funded gift's lock tx
+ * Any tx paying every lock output its part counts, the funding PSBT's own
+ * tx first; the sender may have rebuilt it, say to bump its fee
+ */
+export async function findSenderFundedLock(
+  gift: Gift,
+  parts: GiftLockPart[],
+  chain: ChainBackend,
+  network: Network,
+  feeAddress: string
+): Promise<SenderFundedLock | null> {
+  const lockTerms = getGiftLockTerms(gift);
+  const splits = getGiftLockSplits(gift, parts);
+  const address = createLockPayment(splits ? splits[0].lockTerms : lockTerms, network).address!;
+
+  const txids = (await chain.getUtxos(address))
+    .map(utxo => utxo.txid)
+    .filter((txid, i, all) => all.indexOf(txid) === i)
+    .sort((a, b) => Number(b === gift.funding_txid) - Number(a === gift.funding_txid));
+
+  for (const txid of txids) {
+    const outputs = await chain.getTxOutputs(txid);
+    if (!outputs) continue;
+
+    const match = findSenderFundedLockOutputs(outputs, {
+      lockTerms,
+      splits,
+      amountSats: gift.amount_sats,
+      feeSats: getGiftFeeSats(gift, gift.amount_sats),
+      feeAddress,
+      network,
+    });
+    if (!match) continue;
+
+    const funding = txid === gift.funding_txid && gift.funding_psbt
+      ? getFundingPsbtSummary(gift.funding_psbt, network)
+      : null;
+    return {
+      ...match,
+      lockTxid: txid,
+      utxos: funding?.utxos ?? [],
+      minerFeeSats: funding?.minerFeeSats ?? null,
+      feeRate: funding ? funding.minerFeeSats / funding.vsize : null,
+      vsize: funding?.vsize ?? null,
+    };
+  }
+  return null;
+}
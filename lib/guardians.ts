@@ -0,0 +1,43 @@
+/**
+ * Gift guardians for LockGift
+ * Guardian keys add an early-release branch: the beneficiary and any one
+ * guardian can sign together to release a gift before it unlocks
+ */
+
+import { parseBeneficiaryKey, type Network } from './bitcoin';
+
+export const MAX_GUARDIANS = 5;
+
+/**
+ * Resolve guardian keys (hex pubkeys or xpubs) to hex pubkeys
+ * Guardians can't repeat, or be one of the gift's beneficiaries, since
+ * the release branch needs two different signers.
+ * Throws if a key is invalid or the list is out of range.
+ */
+export function parseGuardianKeys(
+  keys: string[],
+  beneficiaryPubkeys: string[],
+  network: Network
+): string[] {
+  if (keys.length < 1 || keys.length > MAX_GUARDIANS) {
+    throw new Error(`A gift can have 1 to ${MAX_GUARDIANS} guardians`);
+  }
+
+  const pubkeys = keys.map((key, i) => {
+    try {
+      return parseBeneficiaryKey(key, network).toString('hex');
+    } catch {
+      throw new Error(`Invalid public key or xpub for guardian ${i + 1}`);
+    }
+  });
+
+  // Compared x-only, as Taproot leaves hold them
+  const xOnly = (pubkey: string) => pubkey.slice(2);
+  if (new Set(pubkeys.map(xOnly)).size !== pubkeys.length) {
+    throw new Error('Each guardian needs a different key');
+  }
+  if (pubkeys.some(pubkey => beneficiaryPubkeys.map(xOnly).includes(xOnly(pubkey)))) {
+    throw new Error('A guardian key can\'t be a beneficiary key');
+  }
+  return pubkeys;
+}
@@ -0,0 +1,100 @@
+/**
+ * HD fund recovery scan for LockGift
+ * Walks a deposit account's addresses up to the gap limit and reports every
+ * unspent output, including at indices no gift row points to
+ */
+
+import type { Network } from './bitcoin';
+import type { ChainBackend, Utxo } from './chain';
+import { getGiftAccountPath, getHDDepositKey } from './signer';
+import type { Gift, GiftStatus } from './supabase';
+
+export const DEFAULT_GAP_LIMIT = 20;
+
+export interface ScannedAddress {
+  index: number;
+  path: string;
+  address: string;
+  utxos: Utxo[];
+  balanceSats: number;
+  giftId: string | null; // Gift at this index, if any
+  giftStatus: GiftStatus | null;
+  stranded: boolean; // No pending gift will pick these funds up
+}
+
+export interface HDScanResult {
+  accountPath: string;
+  gapLimit: number;
+  scannedTo: number; // Last index scanned
+  lastUsedIndex: number | null; // Highest index with history or a gift
+  funded: ScannedAddress[];
+  strandedSats: number;
+}
+
+/**
+ * Scan an account's deposit addresses for unspent funds
+ * Stops once gapLimit addresses in a row past the last used index (or the
+ * highest gift index) have no history
+ */
+export async function scanHDFunds(
+  chain: ChainBackend,
+  network: Network,
+  gifts: Gift[],
+  options: { accountPath: string; gapLimit?: number; startIndex?: number }
+): Promise<HDScanResult> {
+  const { accountPath, gapLimit = DEFAULT_GAP_LIMIT, startIndex = 0 } = options;
+
+  // Gifts derived in this account, by index
+  const giftsByIndex = new Map<number, Gift>();
+  gifts.forEach(gift => {
+    if (gift.hd_index !== null && getGiftAccountPath(gift, network) === accountPath) {
+      giftsByIndex.set(gift.hd_index, gift);
+    }
+  });
+
+  let lastUsedIndex: number | null = null;
+  Array.from(giftsByIndex.keys()).forEach(index => {
+    if (index >= startIndex && (lastUsedIndex === null || index > lastUsedIndex)) {
+      lastUsedIndex = index;
+    }
+  });
+
+  const funded: ScannedAddress[] = [];
+  let index = startIndex;
+  for (; index <= (lastUsedIndex ?? startIndex - 1) + gapLimit; index++) {
+    const { address, path } = getHDDepositKey(index, network, accountPath);
+    const utxos = await chain.getUtxos(address);
+
+    let used = utxos.length > 0;
+    if (!used) {
+      const info = await chain.getAddressInfo(address);
+      used = info.txCount > 0 || info.confirmed > 0 || info.unconfirmed > 0;
+    }
+    if (used && (lastUsedIndex === null || index > lastUsedIndex)) {
+      lastUsedIndex = index;
+    }
+
+    if (utxos.length > 0) {
+      const gift = giftsByIndex.get(index) || null;
+      funded.push({
+        index,
+        path,
+        address,
+        utxos,
+        balanceSats: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+        giftId: gift?.id || null,
+        giftStatus: gift?.status || null,
+        stranded: !gift || gift.status !== 'pending',
+      });
+    }
+  }
+
+  return {
+    accountPath,
+    gapLimit,
+    scannedTo: index - 1,
+    lastUsedIndex,
+    funded,
+    strandedSats: funded.filter(f => f.stranded).reduce((sum, f) => sum + f.balanceSats, 0),
+  };
+}
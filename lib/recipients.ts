@@ -0,0 +1,67 @@
+/**
+ * Gift recipients for LockGift
+ * A gift can be split across several beneficiaries, each getting a
+ * percentage or a fixed amount, locked in an output of their own
+ */
+
+export const MAX_RECIPIENTS = 10;
+
+// Same floor as a whole gift, so each output still covers its fees
+export const MIN_RECIPIENT_SATS = 6000;
+
+// A recipient's part of the gift: a percentage or a fixed amount
+export type RecipientShare =
+  | { percent: number; sats?: undefined }
+  | { sats: number; percent?: undefined };
+
+/**
+ * Resolve recipients' shares to sats of the gift amount
+ * Fixed amounts come off the top and percentages split the rest, so those
+ * must total 100 (or, with only fixed amounts, add up to the gift amount).
+ * Percentages round down; the first one takes the remainder.
+ * Throws if the shares don't add up.
+ */
+export function resolveRecipientAmounts(amountSats: number, shares: RecipientShare[]): number[] {
+  if (shares.length < 2 || shares.length > MAX_RECIPIENTS) {
+    throw new Error(`A split gift needs 2 to ${MAX_RECIPIENTS} recipients`);
+  }
+
+  let fixedSats = 0;
+  let totalPercent = 0;
+  for (const share of shares) {
+    if (share.sats !== undefined) {
+      if (!Number.isInteger(share.sats) || share.sats <= 0) {
+        throw new Error('Fixed amounts must be whole sats');
+      }
+      fixedSats += share.sats;
+    } else if (!(share.percent > 0 && share.percent <= 100)) {
+      throw new Error('Percentages must be above 0 and at most 100');
+    } else {
+      totalPercent += share.percent;
+    }
+  }
+
+  const hasPercent = shares.some(share => share.percent !== undefined);
+  if (hasPercent ? Math.abs(totalPercent - 100) > 1e-9 : fixedSats !== amountSats) {
+    throw new Error(hasPercent
+      ? 'Percentages must add up to 100'
+      : 'Fixed amounts must add up to the gift amount');
+  }
+  if (hasPercent && fixedSats >= amountSats) {
+    throw new Error('Fixed amounts leave nothing to split by percentage');
+  }
+
+  const rest = amountSats - fixedSats;
+  const amounts = shares.map(share =>
+    share.sats !== undefined ? share.sats : Math.floor(rest * share.percent / 100)
+  );
+  if (hasPercent) {
+    const firstPercent = shares.findIndex(share => share.percent !== undefined);
+    amounts[firstPercent] += amountSats - amounts.reduce((sum, amount) => sum + amount, 0);
+  }
+
+  if (amounts.some(amount => amount < MIN_RECIPIENT_SATS)) {
+    throw new Error(`Each recipient needs at least ${MIN_RECIPIENT_SATS.toLocaleString('en-US')} sats`);
+  }
+  return amounts;
+}
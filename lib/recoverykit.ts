@@ -0,0 +1,227 @@
+/**
+ * Recovery kit for LockGift
+ * Everything a beneficiary needs to claim a gift with their own tools,
+ * should LockGift no longer be around when the lock expires
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  createLockPayment,
+  getGiftLockTerms,
+  getLockDescriptor,
+  getSpendWitness,
+  isBlockHeightLocktime,
+  type LockTerms,
+  type LockType,
+  type Network,
+  type SpendPath,
+} from './bitcoin';
+import { isGiftTranche, type Gift, type GiftLockPart } from './supabase';
+
+export const RECOVERY_KIT_VERSION = 1;
+
+// How to spend one branch of the lock
+export interface RecoveryKitBranch {
+  pubkey: string; // Key that signs for this branch (hex)
+  locktime: number; // nLockTime the spending tx must set
+  spendableFrom: string; // Block height or ISO date, human readable
+  script: string; // Witness script (P2WSH) or tapleaf script (Taproot), hex
+  scriptAsm: string;
+  controlBlock: string | null; // Taproot only, hex
+  witness: string[]; // Witness stack the spend needs, in order
+}
+
+export interface RecoveryKit {
+  kind: 'lockgift-recovery-kit';
+  version: number;
+  createdAt: string;
+  network: Network;
+  giftId: string;
+  recipientId: string | null; // Whose output this is, for split gifts
+  trancheId: string | null; // Which tranche, for vesting schedules
+  lockType: LockType;
+  lock: {
+    txid: string;
+    vout: number;
+    outpoint: string; // txid:vout
+    amountSats: number;
+    address: string;
+    outputScript: string; // Hex
+    descriptor: string;
+  };
+  beneficiary: RecoveryKitBranch;
+  recovery: RecoveryKitBranch | null; // Sender's branch, if the gift has one
+  guardian: (RecoveryKitBranch & { guardianPubkeys: string[] }) | null; // Early release, if the gift has guardians
+  instructions: string[];
+}
+
+function formatLocktime(locktime: number): string {
+  return isBlockHeightLocktime(locktime)
+    ? `block ${locktime}`
+    : new Date(locktime * 1000).toISOString();
+}
+
+function getBranch(terms: LockTerms, network: Network, spendPath: SpendPath): RecoveryKitBranch {
+  const payment = createLockPayment(terms, network, spendPath);
+  const script = payment.redeem!.output!;
+  const locktime = spendPath === 'recovery' ? terms.recoveryTimestamp!
+    : spendPath === 'guardian' ? 0
+    : terms.unlockLocktime;
+  const controlBlock = terms.lockType === 'p2tr'
+    ? payment.witness![payment.witness!.length - 1].toString('hex')
+    : null;
+
+  // Stand-in signatures, swapped for placeholders once the stack is laid out
+  const signature = Buffer.alloc(0);
+  const guardianSignatures = (terms.guardianPubkeys || []).map(() => Buffer.alloc(0));
+  const stack = getSpendWitness(terms, spendPath, signature, guardianSignatures);
+  const sigName = terms.lockType === 'p2tr' ? 'schnorr signature' : 'signature';
+  const witness = [
+    ...stack.map(item => {
+      if (item === signature) return `<${sigName}>`;
+      const guardian = guardianSignatures.findIndex(sig => sig === item);
+      if (guardian === -1) return item.toString('hex');
+      return terms.lockType === 'p2tr'
+        ? `<guardian ${guardian + 1} ${sigName} or empty>`
+        : `<any guardian's ${sigName}>`;
+    }),
+    script.toString('hex'),
+    ...(controlBlock ? [controlBlock] : []),
+  ];
+
+  return {
+    pubkey: spendPath === 'recovery' ? terms.recoveryPubkey! : terms.beneficiaryPubkey,
+    locktime,
+    spendableFrom: formatLocktime(locktime),
+    script: script.toString('hex'),
+    scriptAsm: bitcoin.script.toASM(script),
+    controlBlock,
+    witness,
+  };
+}
+
+function getInstructions(kit: Omit<RecoveryKit, 'instructions'>): string[] {
+  const { lock, beneficiary } = kit;
+  const waitFor = isBlockHeightLocktime(beneficiary.locktime)
+    ? `Wait until the chain has passed block ${beneficiary.locktime}.`
+    : `Wait until ${beneficiary.spendableFrom}. Nodes compare against the median time of the last 11 blocks, so allow an extra hour or two.`;
+  const signing = kit.lockType === 'p2tr'
+    ? 'Sign the input with the beneficiary key using a BIP341 script-path signature (SIGHASH_DEFAULT) over the beneficiary tapleaf script.'
+    : 'Sign the input with the beneficiary key using a BIP143 segwit signature (SIGHASH_ALL) over the beneficiary witness script.';
+
+  // Miniscript descriptors can be imported and signed for as they are
+  const importable = lock.descriptor.startsWith('addr(')
+    ? []
+    : [`Easiest: import the descriptor ${lock.descriptor} into a miniscript-aware wallet (Bitcoin Core importdescriptors, Sparrow, Liana) along with the beneficiary key, and spend from there once the locktime has passed. The steps below do the same by hand.`];
+
+  return [
+    'Keep this file with the private key for the beneficiary public key in this kit. Without that key the Bitcoin cannot be claimed.',
+    ...importable,
+    `Check the lock output still exists: look up ${lock.outpoint} or the address ${lock.address} in any block explorer or your own node.`,
+    waitFor,
+    `Create a transaction spending ${lock.outpoint} (${lock.amountSats} sats) to an address you control, leaving a miner fee.`,
+    `Set the transaction's nLockTime to ${beneficiary.locktime} and the input's nSequence to 0xfffffffe (or lower), or OP_CHECKLOCKTIMEVERIFY fails.`,
+    signing,
+    'Set the input witness to the beneficiary branch\'s witness stack, in order, with your signature in place of the placeholder.',
+    'Broadcast the signed transaction from any Bitcoin node or block explorer.',
+    ...(kit.guardian
+      ? ['To release early instead, spend the guardian release branch the same way, with nLockTime 0, signed by both the beneficiary key and any one guardian key.']
+      : []),
+  ];
+}
+
+/**
+ * Build the recovery kit for a locked gift
+ * The scripts come from createLockPayment, the same code that built the lock
+ *
+ * @param lockOutput The gift's output in its lock tx
+ * @param part The recipient or tranche whose output it is, for gifts locked in several
+ */
+export function buildRecoveryKit(
+  gift: Gift,
+  lockOutput: { vout: number; amount: number },
+  network: Network,
+  part: GiftLockPart | null = null
+): RecoveryKit {
+  if (!gift.lock_txid) {
+    throw new Error('Gift is not locked yet');
+  }
+
+  const terms = getGiftLockTerms(gift, part);
+  const payment = createLockPayment(terms, network);
+
+  const kit = {
+    kind: 'lockgift-recovery-kit' as const,
+    version: RECOVERY_KIT_VERSION,
+    createdAt: new Date().toISOString(),
+    network,
+    giftId: gift.id,
+    recipientId: part && !isGiftTranche(part) ? part.id : null,
+    trancheId: part && isGiftTranche(part) ? part.id : null,
+    lockType: gift.lock_type,
+    lock: {
+      txid: gift.lock_txid,
+      vout: lockOutput.vout,
+      outpoint: `${gift.lock_txid}:${lockOutput.vout}`,
+      amountSats: lockOutput.amount,
+      address: payment.address!,
+      outputScript: payment.output!.toString('hex'),
+      descriptor: getLockDescriptor(terms, network),
+    },
+    beneficiary: getBranch(terms, network, 'beneficiary'),
+    recovery: terms.recoveryPubkey && terms.recoveryTimestamp
+      ? getBranch(terms, network, 'recovery')
+      : null,
+    guardian: terms.guardianPubkeys?.length
+      ? { ...getBranch(terms, network, 'guardian'), guardianPubkeys: terms.guardianPubkeys }
+      : null,
+  };
+
+  return { ...kit, instructions: getInstructions(kit) };
+}
+
+/**
+ * Render a recovery kit as plain text, for printing and keeping on paper
+ */
+export function formatRecoveryKitText(kit: RecoveryKit): string {
+  const branchLines = (title: string, branch: RecoveryKitBranch) => [
+    title,
+    `  Public key:      ${branch.pubkey}`,
+    `  Spendable from:  ${branch.spendableFrom}`,
+    `  nLockTime:       ${branch.locktime}`,
+    `  Script (hex):    ${branch.script}`,
+    `  Script (asm):    ${branch.scriptAsm}`,
+    ...(branch.controlBlock ? [`  Control block:   ${branch.controlBlock}`] : []),
+    `  Witness stack:   ${branch.witness.map(item => item || '<empty>').join(' ')}`,
+    '',
+  ];
+
+  return [
+    'LOCKGIFT RECOVERY KIT',
+    `Version ${kit.version}, created ${kit.createdAt}`,
+    '',
+    `Gift:            ${kit.giftId}`,
+    ...(kit.recipientId ? [`Recipient:       ${kit.recipientId}`] : []),
+    ...(kit.trancheId ? [`Tranche:         ${kit.trancheId}`] : []),
+    `Network:         ${kit.network}`,
+    `Lock type:       ${kit.lockType === 'p2tr' ? 'Taproot' : 'P2WSH'}`,
+    '',
+    'LOCK OUTPUT',
+    `  Outpoint:        ${kit.lock.outpoint}`,
+    `  Amount:          ${kit.lock.amountSats} sats`,
+    `  Address:         ${kit.lock.address}`,
+    `  Output script:   ${kit.lock.outputScript}`,
+    `  Descriptor:      ${kit.lock.descriptor}`,
+    '',
+    ...branchLines('BENEFICIARY BRANCH', kit.beneficiary),
+    ...(kit.recovery ? branchLines('SENDER RECOVERY BRANCH', kit.recovery) : []),
+    ...(kit.guardian ? [
+      ...branchLines('GUARDIAN RELEASE BRANCH', kit.guardian).slice(0, -1),
+      ...kit.guardian.guardianPubkeys.map((pubkey, i) => `  Guardian ${i + 1}:      ${pubkey}`),
+      '',
+    ] : []),
+    'HOW TO CLAIM',
+    ...kit.instructions.map((step, i) => `  ${i + 1}. ${step}`),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,185 @@
+/**
+ * Watch-only deployments for LockGift
+ * With HD_XPUB set the web server never sees the seed: deposit addresses
+ * come from the account xpub, and lock transactions go out as unsigned
+ * PSBTs for an external signer to sign and send back
+ */
+
+import {
+  deriveWatchOnlyDepositAddress,
+  generateHDFeatureAddress,
+  getAccountPath,
+  getConfiguredAccountPath,
+  type Network,
+  type WatchOnlyKey,
+} from './bitcoin';
+import { BroadcastError } from './broadcast';
+import type { ChainBackend } from './chain';
+import {
+  closeSigningRequest,
+  getPendingSigningRequests,
+  lockGift,
+  type Gift,
+  type SigningRequest,
+} from './supabase';
+
+/**
+ * A gift's deposit key: the private key when the seed is here,
+ * otherwise the public key and derivation for the signer
+ */
+export type DepositKey =
+  | { hotWalletWif: string }
+  | { watchOnlyKey: WatchOnlyKey };
+
+/**
+ * Account a gift's deposit address was derived under
+ * Gifts from before derivation paths were stored used BIP44
+ */
+export function getGiftAccountPath(gift: Gift, network: Network): string {
+  if (gift.hd_path) {
+    return gift.hd_path.split('/').slice(0, -2).join('/');
+  }
+  return getAccountPath(network, 'bip44');
+}
+
+/**
+ * Derive a gift's deposit address and key from HD_XPUB or HD_SEED
+ * New gifts use the configured account; pass a gift's own for existing ones
+ */
+export function getHDDepositKey(
+  hdIndex: number,
+  network: Network,
+  accountPath: string = getConfiguredAccountPath(network)
+): { address: string; path: string; key: DepositKey } {
+  const accountXpub = process.env.HD_XPUB;
+  if (accountXpub) {
+    const masterFingerprint = process.env.HD_MASTER_FINGERPRINT;
+    if (!masterFingerprint || !/^[0-9a-fA-F]{8}$/.test(masterFingerprint)) {
+      throw new Error('HD_MASTER_FINGERPRINT must be set with HD_XPUB');
+    }
+    // The xpub only covers the configured account
+    const xpubAccountPath = getConfiguredAccountPath(network);
+    if (accountPath !== xpubAccountPath) {
+      throw new Error(`HD_XPUB is for ${xpubAccountPath}, not ${accountPath}`);
+    }
+    const { address, depositKey } = deriveWatchOnlyDepositAddress(
+      accountXpub,
+      masterFingerprint.toLowerCase(),
+      accountPath,
+      hdIndex,
+      network
+    );
+    return { address, path: depositKey.path, key: { watchOnlyKey: depositKey } };
+  }
+
+  const hdSeed = process.env.HD_SEED;
+  if (!hdSeed) {
+    throw new Error('HD wallet not configured');
+  }
+  const { address, privateKey, path } = generateHDFeatureAddress(hdSeed, hdIndex, network, accountPath);
+  return { address, path, key: { hotWalletWif: privateKey } };
+}
+
+/**
+ * Check the external signer's `Authorization: Bearer $SIGNER_TOKEN` header
+ * A shared token, separate from the admin password; no token set, no access
+ */
+export function checkSignerAuth(request: Request): boolean {
+  const authHeader = request.headers.get('authorization');
+  const signerToken = process.env.SIGNER_TOKEN;
+
+  if (!signerToken) return false;
+  return authHeader === `Bearer ${signerToken}`;
+}
+
+/**
+ * Expire the signing requests the signer can no longer usefully sign:
+ * pending longer than SIGNER_REQUEST_TTL_MINUTES (default 1440, 0 for never),
+ * or spending deposit UTXOs that have changed since the PSBT was built
+ * (replaced, reorged out or topped up). Their gifts are released, so the
+ * next lock attempt builds a fresh PSBT
+ *
+ * A request whose deposits can't be looked up is left for the next run
+ *
+ * @param gifts - Pending gifts, for their deposit addresses
+ * @param errors - Failed lookups are reported here
+ * @returns IDs of the gifts released
+ */
+export async function expireStaleSigningRequests(
+  gifts: Gift[],
+  chain: ChainBackend,
+  errors: string[],
+  now: Date = new Date()
+): Promise<string[]> {
+  const ttlMinutes = parseInt(process.env.SIGNER_REQUEST_TTL_MINUTES || '1440', 10);
+  const outpoints = (utxos: { txid: string; vout: number }[]) =>
+    utxos.map(utxo => `${utxo.txid}:${utxo.vout}`).sort().join(',');
+
+  const released: string[] = [];
+  for (const request of await getPendingSigningRequests()) {
+    let reason: string | null = null;
+    if (ttlMinutes > 0 && now.getTime() - new Date(request.created_at).getTime() > ttlMinutes * 60 * 1000) {
+      reason = `Not signed within ${ttlMinutes} minutes`;
+    }
+    for (const lock of request.locks) {
+      if (reason) break;
+      const gift = gifts.find(g => g.id === lock.giftId);
+      if (!gift?.deposit_address) continue;
+      let utxos;
+      try {
+        utxos = await chain.getUtxos(gift.deposit_address);
+      } catch (error) {
+        errors.push(`Gift ${gift.id}: Deposit lookup failed, ${error instanceof Error ? error.message : 'unknown error'}`);
+        break;
+      }
+      if (outpoints(utxos) !== outpoints(lock.utxos)) {
+        reason = `Deposit of gift ${gift.id} changed since the PSBT was built`;
+      }
+    }
+
+    if (reason) {
+      await closeSigningRequest(request, 'expired', reason);
+      released.push(...request.locks.map(lock => lock.giftId));
+    }
+  }
+  return released;
+}
+
+/**
+ * Broadcast a lock tx the signer returned (finalized) and lock its gifts
+ * A rejected broadcast fails the request, releasing its gifts for a fresh PSBT
+ */
+export async function completeSigningRequest(
+  request: SigningRequest,
+  txHex: string,
+  chain: ChainBackend
+): Promise<string> {
+  let lockTxid: string;
+  try {
+    lockTxid = await chain.broadcast(txHex);
+  } catch (error) {
+    // Only a definite rejection fails the request, an outage can be retried
+    if (error instanceof BroadcastError && error.kind !== 'unavailable') {
+      await closeSigningRequest(request, 'failed', error.message);
+    }
+    throw error;
+  }
+
+  for (const lock of request.locks) {
+    await lockGift(lock.giftId, {
+      utxos: lock.utxos,
+      lockTxid,
+      lockVout: lock.vout,
+      outputs: lock.outputs,
+      batchSize: request.locks.length,
+      serviceFeeSats: lock.serviceFeeSats,
+      minerFeeSats: lock.minerFeeSats,
+      lockedAmountSats: lock.lockedAmountSats,
+      feeRate: request.fee_rate,
+      vsize: request.vsize,
+    });
+  }
+  await closeSigningRequest(request, 'signed');
+
+  return lockTxid;
+}
@@ -0,0 +1,87 @@
+/**
+ * Spending gifts for LockGift
+ * Shared by the claim, recover and release routes: the chain to spend on,
+ * which of a gift's lock outputs is being spent, and recording the spend
+ */
+
+import { getConfiguredNetwork, type Network } from './bitcoin';
+import { getChainBackend, type ChainBackend } from './chain';
+import {
+  claimGift,
+  getGiftRecipient,
+  getGiftTranche,
+  isGiftTranche,
+  recoverGift,
+  spendGiftRecipient,
+  spendGiftTranche,
+  type Gift,
+  type GiftLockPart,
+} from './supabase';
+
+export type SpendAction = 'claim' | 'recover' | 'release';
+
+export function getSpendConfig(): { network: Network; chain: ChainBackend } {
+  const network = getConfiguredNetwork();
+  return { network, chain: getChainBackend(network) };
+}
+
+/**
+ * Find the recipient or tranche whose output is being spent, for gifts
+ * locked in several outputs
+ * The part is returned with the error when its output is already spent
+ */
+export async function getSpendPart(
+  gift: Gift,
+  recipientId: string | null,
+  trancheId: string | null,
+  action: SpendAction
+): Promise<{ part: GiftLockPart | null; error: string | null }> {
+  let part: GiftLockPart | null = null;
+  if (gift.tranche_count > 1) {
+    part = trancheId ? await getGiftTranche(gift.id, trancheId) : null;
+    if (!part) {
+      return { part: null, error: `Choose which tranche to ${action}` };
+    }
+  } else if (gift.recipient_count > 1) {
+    part = recipientId ? await getGiftRecipient(gift.id, recipientId) : null;
+    if (!part) {
+      return { part: null, error: `Choose which recipient's output to ${action}` };
+    }
+  }
+  if (part && (part.claim_txid || part.recovery_txid)) {
+    return { part, error: 'This output is already spent' };
+  }
+  return { part, error: null };
+}
+
+/**
+ * The lock tx output a spend must take: the part's, or the gift's own
+ * Null means any, which is only safe when the tx holds no one else's
+ * outputs, so a batched or split lock without a recorded index is an error
+ */
+export function getSpendVout(gift: Gift, part: GiftLockPart | null): { vout: number | null; error: string | null } {
+  const vout = part ? part.lock_vout : gift.lock_vout;
+  if (vout === null && (part || gift.lock_batch_size > 1)) {
+    return { vout: null, error: 'Lock output index not recorded for this gift' };
+  }
+  return { vout, error: null };
+}
+
+/**
+ * Record a broadcast spend of a gift, or of one of its outputs, by the
+ * branch it spent: the beneficiary's claims it, the sender's recovers it
+ */
+export async function recordSpend(
+  gift: Gift,
+  part: GiftLockPart | null,
+  spendPath: 'beneficiary' | 'recovery',
+  txid: string
+): Promise<void> {
+  if (!part) {
+    await (spendPath === 'recovery' ? recoverGift(gift.id, txid) : claimGift(gift.id, txid));
+  } else if (isGiftTranche(part)) {
+    await spendGiftTranche(gift.id, part.id, spendPath, txid);
+  } else {
+    await spendGiftRecipient(gift.id, part.id, spendPath, txid);
+  }
+}
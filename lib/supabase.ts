@@ -4,29 +4,66 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { LockScript, LockTerms, LockType } from './bitcoin';
+import type { DepositOutcome } from './deposits';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+// Server-side only: the tables are closed to the public anon key, so this
+// module must never be bundled for the browser (components import its types only)
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 
 // Only create client if credentials are available
-export const supabase = supabaseUrl && supabaseAnonKey 
-  ? createClient(supabaseUrl, supabaseAnonKey)
+export const supabase = supabaseUrl && supabaseServiceRoleKey
+  ? createClient(supabaseUrl, supabaseServiceRoleKey, { auth: { persistSession: false } })
   : null;
 
+// How a gift's lock tx is funded: through our deposit address, or a PSBT
+// the sender signs and broadcasts from their own wallet
+export type FundingMode = 'deposit' | 'sender';
+
 // Types for the gifts table
 export interface Gift {
   id: string;
   created_at: string;
-  deposit_address: string;
+  funding_mode: FundingMode;
+  deposit_address: string | null; // Null for sender-funded gifts
   deposit_txid: string | null;
   deposit_confirmations: number;
+  received_sats: number; // Total seen at the deposit address
+  deposit_outcome: DepositOutcome | null;
+  needs_review: boolean; // Flagged by the deposit policy for an admin
+  deposit_utxos: { txid: string; vout: number; amount: number }[] | null; // Inputs of the lock tx
+  funding_psbt: string | null; // Unsigned lock PSBT for a sender-funded gift (base64)
+  funding_txid: string | null; // Its txid, unless the sender changes the tx
   lock_txid: string | null;
   locked_at: string | null;
+  lock_confirmations: number;
+  lock_vout: number | null; // Index of the gift's output in the lock tx
+  lock_batch_size: number; // Gifts sharing the lock tx (1 unless batched)
+  lock_fee_rate: number | null; // sat/vB the current lock tx pays
+  lock_vsize: number | null;
+  lock_broadcast_at: string | null; // Last (re)broadcast, for fee bumping
+  replaced_lock_txids: string[]; // Earlier lock txs replaced by fee bumps
+  cpfp_txid: string | null; // Child that pays for a stuck lock tx
   amount_sats: number;
-  beneficiary_address: string;
-  unlock_at: string;
+  beneficiary_address: string; // The first recipient's, for split gifts
+  beneficiary_pubkey: string; // Key the CLTV output is locked to (hex)
+  recipient_count: number; // 1, or the rows in gift_recipients for split gifts
+  tranche_count: number; // 1, or the rows in gift_tranches for vesting schedules
+  lock_type: LockType; // P2WSH or Taproot lock output
+  lock_script: LockScript; // Script template of the CLTV branches
+  descriptor: string | null; // Output descriptor of the lock, with checksum
+  unlock_at: string; // Estimated from the height for block-height gifts; the first tranche's for schedules
+  unlock_height: number | null; // Block-height unlock instead of a Unix time
+  recovery_pubkey: string | null; // Sender key for the recovery branch (hex)
+  recovery_at: string | null; // When the recovery branch becomes spendable; the first tranche's for schedules
+  guardian_pubkeys: string[] | null; // Keys that can co-sign an early release with the beneficiary (hex)
+  recovery_txid: string | null;
+  recovered_at: string | null;
   message: string | null;
-  fee_percent: number;
+  fee_percent: number; // Rate the fee quote applied, after tiers
+  fee_sats: number | null; // Service fee quoted at creation and charged at lock, null for older gifts
+  fee_promo_code: string | null;
   status: 'pending' | 'locked' | 'claimed' | 'expired';
   claimed_at: string | null;
   claim_txid: string | null;
@@ -34,36 +71,187 @@ export interface Gift {
   utxo_txid: string | null;
   utxo_vout: number | null;
   utxo_amount_sats: number | null;
+  service_fee_sats: number | null; // Fee breakdown of the lock transaction
+  miner_fee_sats: number | null;
+  locked_amount_sats: number | null;
   hd_index: number | null; // HD derivation index
+  hd_path: string | null; // Full deposit derivation path, null for legacy BIP44 gifts
+  signing_request_id: string | null; // Lock PSBT waiting for the external signer
 }
 
 export type GiftStatus = Gift['status'];
 
+// One beneficiary of a gift split across several, with a lock output each
+export interface GiftRecipient {
+  id: string;
+  created_at: string;
+  gift_id: string;
+  position: number; // Order of the lock outputs, from 0
+  beneficiary_address: string;
+  beneficiary_pubkey: string;
+  share_percent: number | null; // As entered: a percentage...
+  share_sats: number | null; // ...or a fixed amount
+  amount_sats: number; // Share of the gift amount, weights the locked amount
+  descriptor: string | null;
+  lock_vout: number | null;
+  locked_amount_sats: number | null;
+  claim_txid: string | null;
+  claimed_at: string | null;
+  recovery_txid: string | null;
+  recovered_at: string | null;
+}
+
+// One tranche of a vesting schedule, with a lock output of its own
+export interface GiftTranche {
+  id: string;
+  created_at: string;
+  gift_id: string;
+  position: number; // Order of the lock outputs, from 0
+  unlock_at: string;
+  recovery_at: string | null; // Grace period after this tranche unlocks
+  amount_sats: number; // Part of the gift amount, weights the locked amount
+  descriptor: string | null;
+  lock_vout: number | null;
+  locked_amount_sats: number | null;
+  claim_txid: string | null;
+  claimed_at: string | null;
+  recovery_txid: string | null;
+  recovered_at: string | null;
+}
+
+// A recipient or tranche: a gift locked in several outputs has one per output
+export type GiftLockPart = GiftRecipient | GiftTranche;
+
+export function isGiftTranche(part: GiftLockPart): part is GiftTranche {
+  return 'unlock_at' in part;
+}
+
+// A gift as the gift page shows it
+export interface GiftWithLockParts extends Gift {
+  recipients: GiftRecipient[]; // Empty for a single beneficiary
+  tranches: GiftTranche[]; // Empty for a single unlock
+}
+
+// Things that happened to a gift outside the normal flow
+export type GiftEventType =
+  | 'deposit_replaced' // A deposit UTXO disappeared before locking
+  | 'lock_replaced' // The lock tx vanished, its deposit was double-spent
+  | 'lock_reorged' // The lock tx lost confirmations in a reorg
+  | 'lock_fee_bumped' // The lock tx was replaced at a higher fee rate
+  | 'lock_cpfp' // A child tx was broadcast to pull the lock tx through
+  | 'guardian_release'; // The beneficiary and a guardian released a lock output early
+
+export interface GiftEvent {
+  id: string;
+  created_at: string;
+  gift_id: string;
+  type: GiftEventType;
+  details: Record<string, unknown> | null;
+}
+
+// Early releases waiting for the beneficiary's and a guardian's signatures
+export type ReleaseRequestStatus = 'pending' | 'broadcast';
+
+export interface ReleaseRequest {
+  id: string;
+  created_at: string;
+  gift_id: string;
+  recipient_id: string | null; // The recipient's output, for split gifts
+  tranche_id: string | null; // The tranche's output, for vesting schedules
+  status: ReleaseRequestStatus;
+  psbt: string; // Base64, with the signatures collected so far
+  unsigned_txid: string; // Co-signed PSBTs must spend to the same tx
+  destination_address: string;
+  fee_sats: number;
+  txid: string | null;
+  broadcast_at: string | null;
+}
+
+// Lock PSBTs handed to the external signer in watch-only deployments
+export type SigningRequestStatus = 'pending' | 'signed' | 'failed' | 'expired';
+
+// What to record on a gift once its lock tx is signed and broadcast
+export interface SigningRequestLock {
+  giftId: string;
+  vout: number;
+  outputs?: { vout: number; lockedAmountSats: number }[]; // Per recipient or tranche
+  lockTerms: LockTerms[]; // Of each lock output, for the signer to rebuild them
+  utxos: { txid: string; vout: number; amount: number }[];
+  serviceFeeSats: number;
+  minerFeeSats: number;
+  lockedAmountSats: number;
+}
+
+export interface SigningRequest {
+  id: string;
+  created_at: string;
+  status: SigningRequestStatus;
+  psbt: string; // Unsigned, base64
+  txid: string; // Of the unsigned tx, the signed one must match
+  fee_rate: number;
+  vsize: number;
+  locks: SigningRequestLock[];
+  signed_at: string | null;
+  error: string | null;
+}
+
 /**
  * Create a new gift record
  */
 export async function createGift(params: {
-  depositAddress: string;
+  depositAddress?: string;
+  fundingMode?: FundingMode;
+  fundingPsbt?: string;
+  fundingTxid?: string;
   amountSats: number;
   beneficiaryAddress: string;
+  beneficiaryPubkey: string;
+  lockType?: LockType;
+  lockScript?: LockScript;
+  descriptor?: string;
   unlockAt: string;
+  unlockHeight?: number;
+  recoveryPubkey?: string;
+  recoveryAt?: string;
+  guardianPubkeys?: string[];
   message?: string;
-  feePercent?: number;
+  feePercent: number;
+  feeSats: number;
+  feePromoCode?: string | null;
   hdIndex?: number;
+  hdPath?: string;
+  recipientCount?: number;
+  trancheCount?: number;
 }): Promise<Gift> {
   if (!supabase) throw new Error('Supabase not configured');
   
   const { data, error } = await supabase
     .from('gifts')
     .insert({
-      deposit_address: params.depositAddress,
+      funding_mode: params.fundingMode || 'deposit',
+      deposit_address: params.depositAddress || null,
+      funding_psbt: params.fundingPsbt || null,
+      funding_txid: params.fundingTxid || null,
       amount_sats: params.amountSats,
       beneficiary_address: params.beneficiaryAddress,
+      beneficiary_pubkey: params.beneficiaryPubkey,
+      lock_type: params.lockType || 'p2wsh',
+      lock_script: params.lockScript || 'cltv',
+      descriptor: params.descriptor || null,
       unlock_at: params.unlockAt,
+      unlock_height: params.unlockHeight ?? null,
+      recovery_pubkey: params.recoveryPubkey || null,
+      recovery_at: params.recoveryAt || null,
+      guardian_pubkeys: params.guardianPubkeys?.length ? params.guardianPubkeys : null,
       message: params.message || null,
-      fee_percent: params.feePercent || 1.0,
+      fee_percent: params.feePercent,
+      fee_sats: params.feeSats,
+      fee_promo_code: params.feePromoCode || null,
       status: 'pending',
       hd_index: params.hdIndex ?? null,
+      hd_path: params.hdPath || null,
+      recipient_count: params.recipientCount ?? 1,
+      tranche_count: params.trancheCount ?? 1,
     })
     .select()
     .single();
@@ -72,6 +260,207 @@ export async function createGift(params: {
   return data;
 }
 
+/**
+ * Add the recipients of a split gift, in lock output order
+ */
+export async function createGiftRecipients(giftId: string, recipients: {
+  beneficiaryAddress: string;
+  beneficiaryPubkey: string;
+  sharePercent?: number;
+  shareSats?: number;
+  amountSats: number;
+  descriptor: string;
+}[]): Promise<GiftRecipient[]> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('gift_recipients')
+    .insert(recipients.map((recipient, position) => ({
+      gift_id: giftId,
+      position,
+      beneficiary_address: recipient.beneficiaryAddress,
+      beneficiary_pubkey: recipient.beneficiaryPubkey,
+      share_percent: recipient.sharePercent ?? null,
+      share_sats: recipient.shareSats ?? null,
+      amount_sats: recipient.amountSats,
+      descriptor: recipient.descriptor,
+    })))
+    .select();
+  
+  if (error) throw new Error(error.message);
+  return (data || []).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Get a gift's recipients in lock output order (none for a single beneficiary)
+ */
+export async function getGiftRecipients(giftId: string): Promise<GiftRecipient[]> {
+  if (!supabase) return [];
+  
+  const { data, error } = await supabase
+    .from('gift_recipients')
+    .select('*')
+    .eq('gift_id', giftId)
+    .order('position', { ascending: true });
+  
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Get one recipient of a split gift
+ */
+export async function getGiftRecipient(giftId: string, recipientId: string): Promise<GiftRecipient | null> {
+  if (!supabase) return null;
+  
+  const { data, error } = await supabase
+    .from('gift_recipients')
+    .select('*')
+    .eq('id', recipientId)
+    .eq('gift_id', giftId)
+    .single();
+  
+  if (error) return null;
+  return data;
+}
+
+/**
+ * Record a recipient's output being claimed (or recovered by the sender)
+ */
+export async function spendGiftRecipient(
+  giftId: string,
+  recipientId: string,
+  spendPath: 'beneficiary' | 'recovery',
+  txid: string
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const spentAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('gift_recipients')
+    .update(spendPath === 'recovery'
+      ? { recovery_txid: txid, recovered_at: spentAt }
+      : { claim_txid: txid, claimed_at: spentAt })
+    .eq('id', recipientId)
+    .eq('gift_id', giftId);
+  
+  if (error) throw new Error(error.message);
+  
+  await settleSpentGift(giftId, await getGiftRecipients(giftId), txid);
+}
+
+/**
+ * Add the tranches of a vesting schedule, in lock output order
+ */
+export async function createGiftTranches(giftId: string, tranches: {
+  unlockAt: string;
+  recoveryAt?: string;
+  amountSats: number;
+  descriptor: string;
+}[]): Promise<GiftTranche[]> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('gift_tranches')
+    .insert(tranches.map((tranche, position) => ({
+      gift_id: giftId,
+      position,
+      unlock_at: tranche.unlockAt,
+      recovery_at: tranche.recoveryAt || null,
+      amount_sats: tranche.amountSats,
+      descriptor: tranche.descriptor,
+    })))
+    .select();
+  
+  if (error) throw new Error(error.message);
+  return (data || []).sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Get a gift's tranches in lock output order (none for a single unlock)
+ */
+export async function getGiftTranches(giftId: string): Promise<GiftTranche[]> {
+  if (!supabase) return [];
+  
+  const { data, error } = await supabase
+    .from('gift_tranches')
+    .select('*')
+    .eq('gift_id', giftId)
+    .order('position', { ascending: true });
+  
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Get one tranche of a vesting schedule
+ */
+export async function getGiftTranche(giftId: string, trancheId: string): Promise<GiftTranche | null> {
+  if (!supabase) return null;
+  
+  const { data, error } = await supabase
+    .from('gift_tranches')
+    .select('*')
+    .eq('id', trancheId)
+    .eq('gift_id', giftId)
+    .single();
+  
+  if (error) return null;
+  return data;
+}
+
+/**
+ * Record a tranche's output being claimed (or recovered by the sender)
+ */
+export async function spendGiftTranche(
+  giftId: string,
+  trancheId: string,
+  spendPath: 'beneficiary' | 'recovery',
+  txid: string
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const spentAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('gift_tranches')
+    .update(spendPath === 'recovery'
+      ? { recovery_txid: txid, recovered_at: spentAt }
+      : { claim_txid: txid, claimed_at: spentAt })
+    .eq('id', trancheId)
+    .eq('gift_id', giftId);
+  
+  if (error) throw new Error(error.message);
+  
+  await settleSpentGift(giftId, await getGiftTranches(giftId), txid);
+}
+
+/**
+ * Once every output of a gift is spent the gift is done: claimed if any
+ * was claimed, expired if the sender recovered them all
+ */
+async function settleSpentGift(giftId: string, parts: GiftLockPart[], txid: string): Promise<void> {
+  if (parts.some(part => !part.claim_txid && !part.recovery_txid)) return;
+  
+  if (parts.some(part => part.claim_txid)) {
+    await claimGift(giftId, txid);
+  } else {
+    await recoverGift(giftId, txid);
+  }
+}
+
+/**
+ * Get the recipients or tranches a gift locks one output each for
+ * Empty for a single lock output, null if the rows are missing
+ */
+export async function getGiftLockParts(gift: Gift): Promise<GiftLockPart[] | null> {
+  const expected = Math.max(gift.recipient_count, gift.tranche_count);
+  if (expected <= 1) return [];
+  
+  const parts = gift.tranche_count > 1
+    ? await getGiftTranches(gift.id)
+    : await getGiftRecipients(gift.id);
+  return parts.length === expected ? parts : null;
+}
 /**
  * Get gift by ID
  */
@@ -108,25 +497,393 @@ export async function getGiftByDepositAddress(address: string): Promise<Gift | n
  * Update gift status to locked
  */
 export async function lockGift(id: string, params: {
-  depositTxid: string;
+  utxos: { txid: string; vout: number; amount: number }[]; // Empty when a sender replaced the funding PSBT's tx
   lockTxid: string;
-  utxoTxid: string;
-  utxoVout: number;
-  utxoAmountSats: number;
+  lockVout: number;
+  outputs?: { vout: number; lockedAmountSats: number }[]; // Per recipient or tranche
+  batchSize?: number;
+  serviceFeeSats: number;
+  minerFeeSats: number | null; // Null with the inputs unknown
+  lockedAmountSats: number;
+  feeRate: number | null;
+  vsize: number | null; // Of the whole lock tx, shared when batched
 }): Promise<void> {
   if (!supabase) throw new Error('Supabase not configured');
   
-  const { error } = await supabase
+  const firstUtxo = params.utxos.length > 0 ? params.utxos[0] : null;
+  const { data, error } = await supabase
     .from('gifts')
     .update({
-      deposit_txid: params.depositTxid,
+      deposit_txid: firstUtxo?.txid ?? null,
       lock_txid: params.lockTxid,
-      utxo_txid: params.utxoTxid,
-      utxo_vout: params.utxoVout,
-      utxo_amount_sats: params.utxoAmountSats,
+      lock_vout: params.lockVout,
+      lock_batch_size: params.batchSize ?? 1,
+      utxo_txid: firstUtxo?.txid ?? null,
+      utxo_vout: firstUtxo?.vout ?? null,
+      utxo_amount_sats: firstUtxo ? params.utxos.reduce((sum, utxo) => sum + utxo.amount, 0) : null,
+      deposit_utxos: firstUtxo ? params.utxos.map(({ txid, vout, amount }) => ({ txid, vout, amount })) : null,
+      service_fee_sats: params.serviceFeeSats,
+      miner_fee_sats: params.minerFeeSats,
+      locked_amount_sats: params.lockedAmountSats,
+      lock_fee_rate: params.feeRate,
+      lock_vsize: params.vsize,
       locked_at: new Date().toISOString(),
+      lock_broadcast_at: new Date().toISOString(),
       status: 'locked',
     })
+    .eq('id', id)
+    .select('tranche_count')
+    .single();
+  
+  if (error) throw new Error(error.message);
+  
+  if (params.outputs && params.outputs.length > 1) {
+    await setLockPartOutputs(id, data, params.outputs);
+  }
+}
+
+/**
+ * Record each recipient's or tranche's lock output, by position
+ */
+async function setLockPartOutputs(
+  giftId: string,
+  gift: Pick<Gift, 'tranche_count'>,
+  outputs: ({ vout: number; lockedAmountSats: number } | null)[]
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  for (let position = 0; position < outputs.length; position++) {
+    const output = outputs[position];
+    const { error } = await supabase
+      .from(gift.tranche_count > 1 ? 'gift_tranches' : 'gift_recipients')
+      .update({
+        lock_vout: output?.vout ?? null,
+        locked_amount_sats: output?.lockedAmountSats ?? null,
+      })
+      .eq('gift_id', giftId)
+      .eq('position', position);
+    
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Record what has arrived at a gift's deposit address
+ */
+export async function updateDeposit(id: string, params: {
+  receivedSats: number;
+  outcome?: DepositOutcome;
+  needsReview?: boolean;
+}): Promise<void> {
+  if (!supabase) return;
+  
+  const { error } = await supabase
+    .from('gifts')
+    .update({
+      received_sats: params.receivedSats,
+      ...(params.outcome && { deposit_outcome: params.outcome }),
+      ...(params.needsReview !== undefined && { needs_review: params.needsReview }),
+    })
+    .eq('id', id);
+  
+  if (error) console.error('Failed to update deposit:', error);
+}
+
+/**
+ * Swap in a fee-bumped lock tx, keeping the one it replaced in history
+ */
+export async function replaceLockTx(id: string, params: {
+  lockTxid: string;
+  replacedLockTxids: string[];
+  lockVout: number;
+  outputs?: { vout: number; lockedAmountSats: number }[]; // Per recipient or tranche
+  serviceFeeSats: number;
+  minerFeeSats: number;
+  lockedAmountSats: number;
+  feeRate: number;
+  vsize: number;
+}): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('gifts')
+    .update({
+      lock_txid: params.lockTxid,
+      replaced_lock_txids: params.replacedLockTxids,
+      lock_vout: params.lockVout,
+      lock_confirmations: 0,
+      service_fee_sats: params.serviceFeeSats,
+      miner_fee_sats: params.minerFeeSats,
+      locked_amount_sats: params.lockedAmountSats,
+      lock_fee_rate: params.feeRate,
+      lock_vsize: params.vsize,
+      lock_broadcast_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select('tranche_count')
+    .single();
+  
+  if (error) throw new Error(error.message);
+  
+  if (params.outputs && params.outputs.length > 1) {
+    await setLockPartOutputs(id, data, params.outputs);
+  }
+}
+
+/**
+ * Record a CPFP child broadcast for a stuck lock tx
+ */
+export async function recordCpfp(id: string, cpfpTxid: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { error } = await supabase
+    .from('gifts')
+    .update({
+      cpfp_txid: cpfpTxid,
+      lock_broadcast_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+  
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Put a locked gift back to pending when its lock tx is gone
+ * Deposit bookkeeping is cleared so the next check starts fresh
+ */
+export async function revertGiftToPending(id: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('gifts')
+    .update({
+      status: 'pending',
+      deposit_txid: null,
+      deposit_confirmations: 0,
+      received_sats: 0,
+      deposit_outcome: null,
+      deposit_utxos: null,
+      lock_txid: null,
+      lock_vout: null,
+      lock_batch_size: 1,
+      locked_at: null,
+      lock_confirmations: 0,
+      lock_fee_rate: null,
+      lock_vsize: null,
+      lock_broadcast_at: null,
+      cpfp_txid: null,
+      utxo_txid: null,
+      utxo_vout: null,
+      utxo_amount_sats: null,
+      service_fee_sats: null,
+      miner_fee_sats: null,
+      locked_amount_sats: null,
+    })
+    .eq('id', id)
+    .select('recipient_count, tranche_count')
+    .single();
+  
+  if (error) throw new Error(error.message);
+  
+  const outputCount = Math.max(data.recipient_count, data.tranche_count);
+  if (outputCount > 1) {
+    await setLockPartOutputs(id, data, new Array(outputCount).fill(null));
+  }
+}
+
+/**
+ * Queue a lock PSBT for the external signer
+ * Its gifts are held back from locking until the request is done
+ */
+export async function createSigningRequest(params: {
+  psbt: string;
+  txid: string;
+  feeRate: number;
+  vsize: number;
+  locks: SigningRequestLock[];
+}): Promise<SigningRequest> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('signing_requests')
+    .insert({
+      status: 'pending',
+      psbt: params.psbt,
+      txid: params.txid,
+      fee_rate: params.feeRate,
+      vsize: params.vsize,
+      locks: params.locks,
+    })
+    .select()
+    .single();
+  
+  if (error) throw new Error(error.message);
+  
+  const { error: giftsError } = await supabase
+    .from('gifts')
+    .update({ signing_request_id: data.id })
+    .in('id', params.locks.map(lock => lock.giftId));
+  
+  if (giftsError) throw new Error(giftsError.message);
+  return data;
+}
+
+/**
+ * Get a signing request by ID
+ */
+export async function getSigningRequest(id: string): Promise<SigningRequest | null> {
+  if (!supabase) return null;
+  
+  const { data, error } = await supabase
+    .from('signing_requests')
+    .select('*')
+    .eq('id', id)
+    .single();
+  
+  if (error) return null;
+  return data;
+}
+
+/**
+ * Signing requests waiting for the signer, oldest first
+ */
+export async function getPendingSigningRequests(): Promise<SigningRequest[]> {
+  if (!supabase) return [];
+  
+  const { data, error } = await supabase
+    .from('signing_requests')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+  
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Close a signing request
+ * A failed or expired request releases its gifts, so the next check builds a fresh PSBT
+ */
+export async function closeSigningRequest(
+  request: SigningRequest,
+  status: Exclude<SigningRequestStatus, 'pending'>,
+  error?: string
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { error: updateError } = await supabase
+    .from('signing_requests')
+    .update({
+      status,
+      signed_at: status === 'signed' ? new Date().toISOString() : null,
+      error: error || null,
+    })
+    .eq('id', request.id);
+  
+  if (updateError) throw new Error(updateError.message);
+  
+  const { error: giftsError } = await supabase
+    .from('gifts')
+    .update({ signing_request_id: null })
+    .eq('signing_request_id', request.id);
+  
+  if (giftsError) throw new Error(giftsError.message);
+}
+
+/**
+ * Start an early release of a gift's lock output
+ */
+export async function createReleaseRequest(params: {
+  giftId: string;
+  recipientId?: string | null;
+  trancheId?: string | null;
+  psbt: string;
+  unsignedTxid: string;
+  destinationAddress: string;
+  feeSats: number;
+}): Promise<ReleaseRequest> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { data, error } = await supabase
+    .from('release_requests')
+    .insert({
+      gift_id: params.giftId,
+      recipient_id: params.recipientId || null,
+      tranche_id: params.trancheId || null,
+      status: 'pending',
+      psbt: params.psbt,
+      unsigned_txid: params.unsignedTxid,
+      destination_address: params.destinationAddress,
+      fee_sats: params.feeSats,
+    })
+    .select()
+    .single();
+  
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Get a gift's release requests, newest first
+ */
+export async function getReleaseRequests(giftId: string): Promise<ReleaseRequest[]> {
+  if (!supabase) return [];
+  
+  const { data, error } = await supabase
+    .from('release_requests')
+    .select('*')
+    .eq('gift_id', giftId)
+    .order('created_at', { ascending: false });
+  
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Get one of a gift's release requests
+ */
+export async function getReleaseRequest(giftId: string, requestId: string): Promise<ReleaseRequest | null> {
+  if (!supabase) return null;
+  
+  const { data, error } = await supabase
+    .from('release_requests')
+    .select('*')
+    .eq('gift_id', giftId)
+    .eq('id', requestId)
+    .single();
+  
+  if (error) return null;
+  return data;
+}
+
+/**
+ * Store a release PSBT with newly collected signatures
+ */
+export async function updateReleaseRequestPsbt(id: string, psbt: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { error } = await supabase
+    .from('release_requests')
+    .update({ psbt })
+    .eq('id', id)
+    .eq('status', 'pending');
+  
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Mark a release request as broadcast
+ */
+export async function closeReleaseRequest(id: string, txid: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { error } = await supabase
+    .from('release_requests')
+    .update({
+      status: 'broadcast',
+      txid,
+      broadcast_at: new Date().toISOString(),
+    })
     .eq('id', id);
   
   if (error) throw new Error(error.message);
@@ -150,6 +907,25 @@ export async function claimGift(id: string, claimTxid: string): Promise<void> {
   if (error) throw new Error(error.message);
 }
 
+/**
+ * Mark a gift as recovered by the sender
+ * An unclaimed gift swept back through the recovery branch has expired
+ */
+export async function recoverGift(id: string, recoveryTxid: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  
+  const { error } = await supabase
+    .from('gifts')
+    .update({
+      recovery_txid: recoveryTxid,
+      recovered_at: new Date().toISOString(),
+      status: 'expired',
+    })
+    .eq('id', id);
+  
+  if (error) throw new Error(error.message);
+}
+
 /**
  * Update deposit confirmations
  */
@@ -164,6 +940,53 @@ export async function updateConfirmations(id: string, confirmations: number): Pr
   if (error) console.error('Failed to update confirmations:', error);
 }
 
+/**
+ * Update lock transaction confirmations
+ */
+export async function updateLockConfirmations(id: string, confirmations: number): Promise<void> {
+  if (!supabase) return;
+  
+  const { error } = await supabase
+    .from('gifts')
+    .update({ lock_confirmations: confirmations })
+    .eq('id', id);
+  
+  if (error) console.error('Failed to update lock confirmations:', error);
+}
+
+/**
+ * Record an event against a gift
+ */
+export async function recordGiftEvent(
+  giftId: string,
+  type: GiftEventType,
+  details?: Record<string, unknown>
+): Promise<void> {
+  if (!supabase) return;
+  
+  const { error } = await supabase
+    .from('gift_events')
+    .insert({ gift_id: giftId, type, details: details || null });
+  
+  if (error) console.error('Failed to record gift event:', error);
+}
+
+/**
+ * Get a gift's events, newest first
+ */
+export async function getGiftEvents(giftId: string): Promise<GiftEvent[]> {
+  if (!supabase) return [];
+  
+  const { data, error } = await supabase
+    .from('gift_events')
+    .select('*')
+    .eq('gift_id', giftId)
+    .order('created_at', { ascending: false });
+  
+  if (error) return [];
+  return data || [];
+}
+
 /**
  * Get all gifts (admin)
  */
@@ -180,26 +1003,28 @@ export async function getAllGifts(): Promise<Gift[]> {
 }
 
 /**
- * Get the next available HD index
- * Returns max(hd_index) + 1 from existing gifts, or the configured starting index
+ * Allocate the next HD index in an account
+ * The allocate_hd_index function hands each caller its own index, even when
+ * gifts are created concurrently; the first call in an account carries on
+ * after its gifts, or from the configured starting index
+ * Each account counts from its own start, so wallets restoring it stay within the gap limit
+ * 
+ * @param includeLegacy - Count gifts without a stored path (the BIP44 account)
  */
-export async function getNextHDIndex(): Promise<number> {
-  if (!supabase) return parseInt(process.env.HD_INDEX || '0', 10);
+export async function allocateHDIndex(accountPath: string, includeLegacy: boolean = false): Promise<number> {
+  const startIndex = parseInt(process.env.HD_INDEX || '0', 10);
+  if (!supabase) return startIndex;
   
-  const { data, error } = await supabase
-    .from('gifts')
-    .select('hd_index')
-    .not('hd_index', 'is', null)
-    .order('hd_index', { ascending: false })
-    .limit(1)
-    .single();
+  const { data, error } = await supabase.rpc('allocate_hd_index', {
+    account_path: accountPath,
+    start_index: startIndex,
+    include_legacy: includeLegacy,
+  });
   
-  if (error || !data) {
-    // No existing gifts with HD index, start from configured value
-    return parseInt(process.env.HD_INDEX || '0', 10);
-  }
+  if (error) throw new Error(error.message);
+  if (typeof data !== 'number') throw new Error('No HD index allocated');
   
-  return (data.hd_index || 0) + 1;
+  return data;
 }
 
 /**
@@ -0,0 +1,66 @@
+/**
+ * Vesting schedules for LockGift
+ * A gift can unlock in equal tranches over time instead of all at once,
+ * each tranche locked in an output of its own
+ */
+
+import { addMonths, addWeeks, addYears } from 'date-fns';
+
+export const MAX_TRANCHES = 60;
+
+// Same floor as a whole gift, so each output still covers its fees
+export const MIN_TRANCHE_SATS = 6000;
+
+export type TrancheInterval = 'week' | 'month' | 'quarter' | 'year';
+
+export const TRANCHE_INTERVALS: TrancheInterval[] = ['week', 'month', 'quarter', 'year'];
+
+// e.g. 12 monthly tranches, or 4 yearly ones (25% per year)
+export interface VestingSchedule {
+  count: number;
+  interval: TrancheInterval;
+}
+
+export interface TranchePlan {
+  unlockAt: Date;
+  amountSats: number;
+}
+
+function addIntervals(date: Date, interval: TrancheInterval, n: number): Date {
+  switch (interval) {
+    case 'week': return addWeeks(date, n);
+    case 'month': return addMonths(date, n);
+    case 'quarter': return addMonths(date, n * 3);
+    case 'year': return addYears(date, n);
+  }
+}
+
+/**
+ * Lay out a vesting schedule from the first unlock
+ * Each date counts from the start, so month ends don't drift. Amounts are
+ * equal, rounded down; the first tranche takes the remainder.
+ * Throws if the schedule is out of range or a tranche would be too small.
+ */
+export function buildVestingSchedule(
+  amountSats: number,
+  startAt: Date,
+  schedule: VestingSchedule
+): TranchePlan[] {
+  const { count, interval } = schedule;
+  if (!Number.isInteger(count) || count < 2 || count > MAX_TRANCHES) {
+    throw new Error(`A schedule needs 2 to ${MAX_TRANCHES} tranches`);
+  }
+  if (!TRANCHE_INTERVALS.includes(interval)) {
+    throw new Error('Invalid tranche interval');
+  }
+
+  const perTranche = Math.floor(amountSats / count);
+  if (perTranche < MIN_TRANCHE_SATS) {
+    throw new Error(`Each tranche needs at least ${MIN_TRANCHE_SATS.toLocaleString('en-US')} sats`);
+  }
+
+  return Array.from({ length: count }, (_, i) => ({
+    unlockAt: addIntervals(startAt, interval, i),
+    amountSats: i === 0 ? amountSats - perTranche * (count - 1) : perTranche,
+  }));
+}
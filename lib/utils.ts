@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { Network } from './bitcoin';
 
 /**
  * Tailwind merge utility
@@ -72,29 +73,56 @@ export function formatRelativeDate(date: string | Date): string {
 }
 
 /**
- * Get Mempool.space URL for transaction
+ * Get block explorer base URL for a network
+ * NEXT_PUBLIC_EXPLORER_URL overrides it (e.g. a local mempool instance);
+ * regtest has no public explorer, so it returns null without one
  */
-export function getMempoolUrl(network: 'mainnet' | 'testnet'): string {
-  if (network === 'mainnet') {
-    return 'https://mempool.space';
+export function getMempoolUrl(network: Network): string | null {
+  if (process.env.NEXT_PUBLIC_EXPLORER_URL) {
+    return process.env.NEXT_PUBLIC_EXPLORER_URL;
+  }
+  switch (network) {
+    case 'mainnet':
+      return 'https://mempool.space';
+    case 'testnet':
+      return 'https://mempool.space/testnet';
+    case 'signet':
+      return 'https://mempool.space/signet';
+    default:
+      return null;
   }
-  return 'https://mempool.space/testnet';
 }
 
 /**
  * Get explorer link for tx
  */
-export function getExplorerTxLink(txid: string, network: 'mainnet' | 'testnet'): string {
+export function getExplorerTxLink(txid: string, network: Network): string | null {
   const base = getMempoolUrl(network);
-  return `${base}/tx/${txid}`;
+  return base && `${base}/tx/${txid}`;
 }
 
 /**
  * Get explorer link for address
  */
-export function getExplorerAddressLink(address: string, network: 'mainnet' | 'testnet'): string {
+export function getExplorerAddressLink(address: string, network: Network): string | null {
   const base = getMempoolUrl(network);
-  return `${base}/address/${address}`;
+  return base && `${base}/address/${address}`;
+}
+
+/**
+ * Human-readable network name, null for mainnet
+ */
+export function getNetworkLabel(network: Network): string | null {
+  switch (network) {
+    case 'testnet':
+      return 'Testnet';
+    case 'signet':
+      return 'Signet';
+    case 'regtest':
+      return 'Regtest';
+    default:
+      return null;
+  }
 }
 
 /**
@@ -0,0 +1,214 @@
+/**
+ * On-chain lock verification for LockGift
+ * Rebuilds a gift's lock script from its stored terms and checks the lock
+ * transaction against it, so nobody has to compare scripts by eye
+ */
+
+import {
+  createLockPayment,
+  decodeCLTVScript,
+  findCommittedLockOutputs,
+  getGiftLockTerms,
+  isBlockHeightLocktime,
+  parseBeneficiaryKey,
+  type LockType,
+  type Network,
+} from './bitcoin';
+import type { ChainBackend } from './chain';
+import { isGiftTranche, type Gift, type GiftLockPart } from './supabase';
+
+export type VerificationStatus = 'pass' | 'fail' | 'pending';
+
+export type VerificationCheckId =
+  | 'lock_tx' // The lock tx exists and how deep it is
+  | 'lock_output' // An output pays to the rebuilt script
+  | 'amount' // That output holds the recorded locked amount
+  | 'locktime' // The script locks until the promised time or height
+  | 'beneficiary' // The script pays the promised key
+  | 'recovery' // The sender's recovery branch, if the gift has one
+  | 'guardians' // The early-release branch, if the gift has guardians
+  | 'commitment'; // The OP_RETURN commitment, if the tx has one
+
+export interface VerificationCheck {
+  id: VerificationCheckId;
+  label: string;
+  status: VerificationStatus;
+  detail: string;
+}
+
+export interface GiftVerification {
+  giftId: string;
+  recipientId: string | null; // The recipient's output, for split gifts
+  trancheId: string | null; // The tranche's output, for vesting schedules
+  lockTxid: string;
+  lockType: LockType;
+  lockVout: number | null;
+  expectedOutputScript: string; // Hex
+  witnessScript: string; // Beneficiary script (the tapscript leaf for Taproot), hex
+  verified: boolean; // Every check passed
+  checks: VerificationCheck[];
+}
+
+function formatLocktime(locktime: number): string {
+  return isBlockHeightLocktime(locktime)
+    ? `block ${locktime.toLocaleString('en-US')}`
+    : new Date(locktime * 1000).toISOString();
+}
+
+/**
+ * Check a gift's lock transaction against the script its terms rebuild to
+ * For a gift locked in several outputs, checks the given recipient's or tranche's
+ */
+export async function verifyGiftLock(
+  gift: Gift,
+  chain: ChainBackend,
+  network: Network,
+  part: GiftLockPart | null = null
+): Promise<GiftVerification> {
+  if (!gift.lock_txid) {
+    throw new Error('Gift is not locked yet');
+  }
+
+  const terms = getGiftLockTerms(gift, part);
+  const recordedVout = part ? part.lock_vout : gift.lock_vout;
+  const recordedAmount = part ? part.locked_amount_sats : gift.locked_amount_sats;
+  const payment = createLockPayment(terms, network);
+  const expectedScript = payment.output!.toString('hex');
+  const witnessScript = payment.redeem!.output!;
+  const scriptType = gift.lock_type === 'p2tr' ? 'Taproot' : 'P2WSH';
+  const checks: VerificationCheck[] = [];
+
+  const outputs = await chain.getTxOutputs(gift.lock_txid);
+  const status = outputs ? await chain.getTxStatus(gift.lock_txid) : null;
+
+  if (!outputs) {
+    checks.push({
+      id: 'lock_tx',
+      label: 'Lock transaction',
+      status: 'fail',
+      detail: 'Not found on chain or in the mempool',
+    });
+  } else if (status?.confirmed) {
+    checks.push({
+      id: 'lock_tx',
+      label: 'Lock transaction',
+      status: 'pass',
+      detail: `Confirmed in block ${status.blockHeight} (${status.confirmations} confirmation${status.confirmations === 1 ? '' : 's'})`,
+    });
+  } else {
+    checks.push({
+      id: 'lock_tx',
+      label: 'Lock transaction',
+      status: 'pending',
+      detail: 'In the mempool, not confirmed yet',
+    });
+  }
+
+  // Prefer the recorded output, a batched lock tx holds several
+  const lockOutput = outputs?.find(o => o.vout === recordedVout && o.script === expectedScript)
+    || outputs?.find(o => o.script === expectedScript)
+    || null;
+
+  checks.push({
+    id: 'lock_output',
+    label: `${scriptType} output`,
+    status: lockOutput ? 'pass' : 'fail',
+    detail: lockOutput
+      ? `Output ${lockOutput.vout} pays to the script rebuilt from this gift`
+      : 'No output pays to the script rebuilt from this gift',
+  });
+
+  if (!lockOutput) {
+    checks.push({ id: 'amount', label: 'Amount', status: 'fail', detail: 'No lock output to check' });
+  } else if (recordedAmount !== null && lockOutput.amount !== recordedAmount) {
+    checks.push({
+      id: 'amount',
+      label: 'Amount',
+      status: 'fail',
+      detail: `Output holds ${lockOutput.amount} sats, the gift records ${recordedAmount}`,
+    });
+  } else {
+    checks.push({ id: 'amount', label: 'Amount', status: 'pass', detail: `${lockOutput.amount} sats locked` });
+  }
+
+  // The script is what the output commits to, so these hold once it matched
+  const decoded = decodeCLTVScript(witnessScript);
+  const promisedLocktime = terms.unlockLocktime;
+  const locktimeMatches = !!decoded && decoded.locktime === promisedLocktime;
+  checks.push({
+    id: 'locktime',
+    label: 'Locktime',
+    status: lockOutput && locktimeMatches ? 'pass' : 'fail',
+    detail: !lockOutput
+      ? `No lock output commits to ${formatLocktime(promisedLocktime)}`
+      : locktimeMatches
+        ? `Spendable from ${formatLocktime(promisedLocktime)}`
+        : `Script doesn't lock until ${formatLocktime(promisedLocktime)}`,
+  });
+
+  const beneficiaryKey = parseBeneficiaryKey(terms.beneficiaryPubkey, network);
+  const expectedKey = (gift.lock_type === 'p2tr' ? beneficiaryKey.subarray(1, 33) : beneficiaryKey).toString('hex');
+  const beneficiaryMatches = decoded?.pubkey === expectedKey;
+  checks.push({
+    id: 'beneficiary',
+    label: 'Beneficiary key',
+    status: lockOutput && beneficiaryMatches ? 'pass' : 'fail',
+    detail: !lockOutput
+      ? 'No lock output commits to the beneficiary key'
+      : beneficiaryMatches
+        ? `Only the holder of ${terms.beneficiaryPubkey.slice(0, 16)}... can claim`
+        : 'Script pays a different key',
+  });
+
+  if (terms.recoveryPubkey && terms.recoveryTimestamp) {
+    checks.push({
+      id: 'recovery',
+      label: 'Sender recovery',
+      status: lockOutput ? 'pass' : 'fail',
+      detail: lockOutput
+        ? `Sender key can recover from ${formatLocktime(terms.recoveryTimestamp)}`
+        : 'No lock output commits to the recovery branch',
+    });
+  }
+
+  if (terms.guardianPubkeys?.length) {
+    const count = terms.guardianPubkeys.length;
+    checks.push({
+      id: 'guardians',
+      label: 'Guardian release',
+      status: lockOutput ? 'pass' : 'fail',
+      detail: lockOutput
+        ? `Beneficiary plus any one of ${count} guardian${count === 1 ? '' : 's'} can release early`
+        : 'No lock output commits to the guardian branch',
+    });
+  }
+
+  // Older lock txs carry a claim URL instead of a commitment
+  if (outputs && lockOutput) {
+    const committed = findCommittedLockOutputs(outputs);
+    if (committed) {
+      const covered = committed.some(o => o.vout === lockOutput.vout);
+      checks.push({
+        id: 'commitment',
+        label: 'OP_RETURN commitment',
+        status: covered ? 'pass' : 'fail',
+        detail: covered
+          ? 'The LockGift commitment covers this output'
+          : 'The LockGift commitment does not cover this output',
+      });
+    }
+  }
+
+  return {
+    giftId: gift.id,
+    recipientId: part && !isGiftTranche(part) ? part.id : null,
+    trancheId: part && isGiftTranche(part) ? part.id : null,
+    lockTxid: gift.lock_txid,
+    lockType: gift.lock_type,
+    lockVout: lockOutput?.vout ?? null,
+    expectedOutputScript: expectedScript,
+    witnessScript: witnessScript.toString('hex'),
+    verified: checks.every(check => check.status === 'pass'),
+    checks,
+  };
+}
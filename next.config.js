@@ -2,6 +2,7 @@
 const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
+    dirs: ['app', 'components', 'lib', 'scripts', 'tests'],
   },
   typescript: {
     ignoreBuildErrors: true,
@@ -0,0 +1,129 @@
+/**
+ * External signer for watch-only deployments
+ *
+ * Runs next to the seed, away from the web server: polls LockGift for lock
+ * PSBTs, signs their deposit inputs and posts them back. It needs the seed,
+ * the signer token and the fee address only, no database access.
+ *
+ *   SIGNER_URL=https://lockgift.example SIGNER_TOKEN=... HD_SEED=... FEE_ADDRESS=... npm run signer
+ *
+ * The server isn't trusted with the outputs: a PSBT paying anything but the
+ * FEE_ADDRESS set here and the lock outputs rebuilt from their terms is
+ * refused, which fails its request
+ *
+ * SIGNER_NETWORK: refuse to sign for a server on any other network
+ * SIGNER_INTERVAL_SECONDS: how often to poll (default 60)
+ * Pass --once to sign what is waiting and exit
+ */
+
+import { signLockingPsbt, type LockTerms, type Network } from '../lib/bitcoin';
+
+interface PendingRequest {
+  id: string;
+  createdAt: string;
+  psbt: string;
+  txid: string;
+  giftIds: string[];
+  lockTerms: LockTerms[]; // Of every lock output, in output order
+}
+
+/** GET /api/signer/requests */
+interface PendingRequestsResponse {
+  network: Network;
+  requests: PendingRequest[];
+}
+
+/** POST /api/signer/requests/[id] with a signed PSBT */
+interface CompletedRequestResponse {
+  success: boolean;
+  lockTxId: string;
+}
+
+/** POST /api/signer/requests/[id] with a refusal */
+interface RefusedRequestResponse {
+  success: boolean;
+  status: 'failed';
+}
+
+const signerUrl = (process.env.SIGNER_URL || '').replace(/\/$/, '');
+const signerToken = process.env.SIGNER_TOKEN;
+const seedHex = process.env.HD_SEED;
+const feeAddress = process.env.FEE_ADDRESS;
+const expectedNetwork = process.env.SIGNER_NETWORK as Network | undefined;
+const intervalSeconds = parseInt(process.env.SIGNER_INTERVAL_SECONDS || '60', 10);
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${signerUrl}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${signerToken}`,
+    },
+  });
+  if (!response.ok) {
+    const data: { message?: string; error?: string } = await response.json().catch(() => ({}));
+    throw new Error(data.message || data.error || `${path} returned ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Sign and return every pending request once
+ * A PSBT the signer won't sign is refused; one it couldn't return is
+ * logged and left for the next poll
+ */
+async function signPending(): Promise<void> {
+  const { network, requests } = await request<PendingRequestsResponse>('/api/signer/requests');
+  if (expectedNetwork && network !== expectedNetwork) {
+    throw new Error(`Server is on ${network}, not ${expectedNetwork}`);
+  }
+
+  for (const pending of requests) {
+    let psbt: string;
+    try {
+      psbt = signLockingPsbt(pending.psbt, seedHex!, { feeAddress: feeAddress!, lockTerms: pending.lockTerms }, network);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Request ${pending.id}: Refused, ${reason}`);
+      await request<RefusedRequestResponse>(`/api/signer/requests/${pending.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ error: reason }),
+      }).catch(refuseError => console.error(`Request ${pending.id}: ${refuseError.message}`));
+      continue;
+    }
+
+    try {
+      const { lockTxId } = await request<CompletedRequestResponse>(`/api/signer/requests/${pending.id}`, {
+        method: 'POST',
+        body: JSON.stringify({ psbt }),
+      });
+      console.log(`Request ${pending.id}: Locked ${pending.giftIds.length} gift(s), TX: ${lockTxId}`);
+    } catch (error) {
+      console.error(`Request ${pending.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (!signerUrl || !signerToken || !seedHex || !feeAddress) {
+    throw new Error('SIGNER_URL, SIGNER_TOKEN, HD_SEED and FEE_ADDRESS must be set');
+  }
+
+  if (process.argv.includes('--once')) {
+    await signPending();
+    return;
+  }
+  for (;;) {
+    try {
+      await signPending();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000));
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -9,23 +9,59 @@ CREATE TABLE IF NOT EXISTS gifts (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
+    -- Funding: deposit (our deposit address) or sender (a PSBT from the sender's wallet)
+    funding_mode VARCHAR(10) NOT NULL DEFAULT 'deposit',
+    funding_psbt TEXT, -- Unsigned lock PSBT handed to the sender (base64)
+    funding_txid VARCHAR(64), -- Its txid, the lock tx we expect
+    
     -- Deposit info
-    deposit_address VARCHAR(62) NOT NULL,
+    deposit_address VARCHAR(62), -- Null for sender-funded gifts
     deposit_txid VARCHAR(64),
     deposit_confirmations INTEGER DEFAULT 0,
+    received_sats BIGINT NOT NULL DEFAULT 0,
+    deposit_outcome VARCHAR(20), -- exact, underpaid, overpaid
+    needs_review BOOLEAN NOT NULL DEFAULT FALSE,
+    deposit_utxos JSONB, -- [{ txid, vout, amount }] spent by the lock tx
     
     -- Lock info  
     lock_txid VARCHAR(64),
+    lock_vout INTEGER,
+    lock_batch_size INTEGER NOT NULL DEFAULT 1, -- Gifts sharing the lock tx
     locked_at TIMESTAMP WITH TIME ZONE,
+    lock_confirmations INTEGER NOT NULL DEFAULT 0,
+    lock_fee_rate DECIMAL(10,2), -- sat/vB
+    lock_vsize INTEGER,
+    lock_broadcast_at TIMESTAMP WITH TIME ZONE,
+    replaced_lock_txids TEXT[] NOT NULL DEFAULT '{}', -- Replaced by fee bumps
+    cpfp_txid VARCHAR(64),
     
     -- Gift details
     amount_sats BIGINT NOT NULL,
     beneficiary_address VARCHAR(62) NOT NULL,
+    beneficiary_pubkey VARCHAR(66) NOT NULL,
+    
+    -- Lock output type: p2wsh, p2tr
+    lock_type VARCHAR(10) NOT NULL DEFAULT 'p2wsh',
+    -- Script template: cltv (<T> CLTV DROP <K> CHECKSIG), miniscript (and_v(v:pk(K),after(T)))
+    lock_script VARCHAR(12) NOT NULL DEFAULT 'cltv',
+    descriptor TEXT, -- Output descriptor with checksum, e.g. wsh(and_v(v:pk(K),after(T)))#...
     unlock_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    unlock_height INTEGER, -- Set for block-height unlocks (unlock_at is then an estimate)
     message TEXT,
     
+    -- Optional sender recovery branch
+    recovery_pubkey VARCHAR(66),
+    recovery_at TIMESTAMP WITH TIME ZONE,
+    recovery_txid VARCHAR(64),
+    recovered_at TIMESTAMP WITH TIME ZONE,
+    
+    -- Optional early release: the beneficiary plus any one guardian
+    guardian_pubkeys JSONB, -- Hex pubkeys
+    
     -- Fee config
-    fee_percent DECIMAL(5,2) DEFAULT 1.00,
+    fee_percent DECIMAL(5,2) DEFAULT 1.00, -- Rate the fee quote applied, after tiers
+    fee_sats BIGINT, -- Service fee quoted at creation and charged at lock (null: fee_percent of the deposit)
+    fee_promo_code VARCHAR(32),
     
     -- Status: pending, locked, claimed, expired
     status VARCHAR(20) DEFAULT 'pending',
@@ -39,23 +75,215 @@ CREATE TABLE IF NOT EXISTS gifts (
     utxo_txid VARCHAR(64),
     utxo_vout INTEGER,
     utxo_amount_sats BIGINT,
-    hd_index INTEGER
+    
+    -- Lock transaction fee breakdown
+    service_fee_sats BIGINT,
+    miner_fee_sats BIGINT,
+    locked_amount_sats BIGINT,
+    
+    -- HD derivation
+    hd_index INTEGER,
+    hd_path VARCHAR(64), -- e.g. m/84'/0'/0'/0/7, NULL for legacy BIP44 gifts
+    
+    -- Watch-only deployments: lock PSBT waiting for the external signer
+    signing_request_id UUID,
+    
+    -- Split gifts: one lock output per row in gift_recipients
+    recipient_count INTEGER NOT NULL DEFAULT 1,
+    
+    -- Vesting schedules: one lock output per row in gift_tranches
+    tranche_count INTEGER NOT NULL DEFAULT 1
 );
 
 -- Index for faster queries
 CREATE INDEX idx_gifts_status ON gifts(status);
-CREATE INDEX idx_gifts_deposit_address ON gifts(deposit_address);
+CREATE UNIQUE INDEX idx_gifts_deposit_address ON gifts(deposit_address);
 CREATE INDEX idx_gifts_unlock_at ON gifts(unlock_at);
 
+-- One gift per HD index: the path holds the account, legacy gifts only have the index
+CREATE UNIQUE INDEX idx_gifts_hd_path ON gifts(hd_path);
+CREATE UNIQUE INDEX idx_gifts_hd_index_legacy ON gifts(hd_index) WHERE hd_path IS NULL AND hd_index IS NOT NULL;
+
+-- Next free HD index of each deposit account, handed out by allocate_hd_index()
+CREATE TABLE IF NOT EXISTS hd_accounts (
+    account_path VARCHAR(64) PRIMARY KEY, -- e.g. m/84'/0'/0'
+    next_index INTEGER NOT NULL
+);
+
+-- Take the next HD index of an account; concurrent callers queue on its row,
+-- so each gets its own index. An account's first call carries on after the
+-- gifts already in it, or from start_index
+CREATE OR REPLACE FUNCTION allocate_hd_index(account_path TEXT, start_index INTEGER, include_legacy BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    allocated INTEGER;
+BEGIN
+    INSERT INTO hd_accounts (account_path, next_index)
+    SELECT allocate_hd_index.account_path, GREATEST(start_index, COALESCE(MAX(hd_index) + 1, 0))
+    FROM gifts
+    WHERE hd_index IS NOT NULL
+      AND (hd_path LIKE allocate_hd_index.account_path || '/0/%' OR (hd_path IS NULL AND include_legacy))
+    ON CONFLICT ON CONSTRAINT hd_accounts_pkey DO NOTHING;
+
+    UPDATE hd_accounts
+    SET next_index = hd_accounts.next_index + 1
+    WHERE hd_accounts.account_path = allocate_hd_index.account_path
+    RETURNING hd_accounts.next_index - 1 INTO allocated;
+
+    RETURN allocated;
+END;
+$$;
+
+-- Only the server hands out indices
+REVOKE EXECUTE ON FUNCTION allocate_hd_index(TEXT, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION allocate_hd_index(TEXT, INTEGER, BOOLEAN) TO service_role;
+
+-- Gift events: deposits replaced, locks reorged out, ...
+CREATE TABLE IF NOT EXISTS gift_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    gift_id UUID NOT NULL REFERENCES gifts(id) ON DELETE CASCADE,
+    type VARCHAR(40) NOT NULL,
+    details JSONB
+);
+
+CREATE INDEX idx_gift_events_gift_id ON gift_events(gift_id);
+
+-- Lock PSBTs for the external signer (watch-only deployments)
+CREATE TABLE IF NOT EXISTS signing_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, signed, failed, expired
+    psbt TEXT NOT NULL, -- Unsigned, base64
+    txid VARCHAR(64) NOT NULL,
+    fee_rate DECIMAL(10,2) NOT NULL,
+    vsize INTEGER NOT NULL,
+    locks JSONB NOT NULL, -- [{ giftId, vout, outputs, lockTerms, utxos, serviceFeeSats, minerFeeSats, lockedAmountSats }]
+    signed_at TIMESTAMP WITH TIME ZONE,
+    error TEXT
+);
+
+CREATE INDEX idx_signing_requests_status ON signing_requests(status);
+
+-- Recipients of split gifts, each with a lock output of their own
+CREATE TABLE IF NOT EXISTS gift_recipients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    gift_id UUID NOT NULL REFERENCES gifts(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL, -- Order of the lock outputs, from 0
+    beneficiary_address VARCHAR(62) NOT NULL,
+    beneficiary_pubkey VARCHAR(66) NOT NULL,
+    share_percent DECIMAL(6,3), -- Share of what is left after fixed amounts
+    share_sats BIGINT, -- Or a fixed amount
+    amount_sats BIGINT NOT NULL, -- Resolved part of the gift amount
+    descriptor TEXT,
+    
+    -- Set when the gift locks
+    lock_vout INTEGER,
+    locked_amount_sats BIGINT,
+    
+    claim_txid VARCHAR(64),
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    recovery_txid VARCHAR(64),
+    recovered_at TIMESTAMP WITH TIME ZONE,
+    
+    UNIQUE (gift_id, position)
+);
+
+CREATE INDEX idx_gift_recipients_gift_id ON gift_recipients(gift_id);
+
+-- Tranches of vesting schedules, each unlocking in a lock output of its own
+CREATE TABLE IF NOT EXISTS gift_tranches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    gift_id UUID NOT NULL REFERENCES gifts(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL, -- Order of the lock outputs, from 0
+    unlock_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    recovery_at TIMESTAMP WITH TIME ZONE, -- Grace period after this tranche unlocks
+    amount_sats BIGINT NOT NULL, -- Part of the gift amount
+    descriptor TEXT,
+    
+    -- Set when the gift locks
+    lock_vout INTEGER,
+    locked_amount_sats BIGINT,
+    
+    claim_txid VARCHAR(64),
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    recovery_txid VARCHAR(64),
+    recovered_at TIMESTAMP WITH TIME ZONE,
+    
+    UNIQUE (gift_id, position)
+);
+
+CREATE INDEX idx_gift_tranches_gift_id ON gift_tranches(gift_id);
+
+-- Early releases collecting the beneficiary's and a guardian's signatures
+CREATE TABLE IF NOT EXISTS release_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    gift_id UUID NOT NULL REFERENCES gifts(id) ON DELETE CASCADE,
+    recipient_id UUID REFERENCES gift_recipients(id) ON DELETE CASCADE,
+    tranche_id UUID REFERENCES gift_tranches(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, broadcast
+    psbt TEXT NOT NULL, -- Base64, with the signatures collected so far
+    unsigned_txid VARCHAR(64) NOT NULL,
+    destination_address VARCHAR(100) NOT NULL,
+    fee_sats BIGINT NOT NULL,
+    txid VARCHAR(64),
+    broadcast_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_release_requests_gift_id ON release_requests(gift_id);
+
 -- Enable RLS
 ALTER TABLE gifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE signing_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_tranches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE release_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hd_accounts ENABLE ROW LEVEL SECURITY;
 
 -- Allow public read for gift pages
 CREATE POLICY "Public can read gifts by id" 
 ON gifts FOR SELECT 
 USING (id::text IN (SELECT id::text FROM gifts));
 
--- Allow service role full access (for admin)
+-- Only the server writes, with the service role key (never the public anon key),
+-- so a browser can't rewrite gifts, signing requests or HD indices
 CREATE POLICY "Service role full access"
 ON gifts FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to events"
+ON gift_events FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to signing requests"
+ON signing_requests FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to recipients"
+ON gift_recipients FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to tranches"
+ON gift_tranches FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to release requests"
+ON release_requests FOR ALL
+TO service_role
+USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role full access to HD accounts"
+ON hd_accounts FOR ALL
+TO service_role
 USING (true) WITH CHECK (true);
@@ -0,0 +1,340 @@
+/**
+ * Tests for the lock scripts and spends in lib/bitcoin.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as tinysecp from 'tiny-secp256k1';
+import { ECPairFactory, type ECPairInterface } from 'ecpair';
+import {
+  addDescriptorChecksum,
+  buildClaimTransaction,
+  buildRecoveryTransaction,
+  createLockPayment,
+  decodeCLTVScript,
+  buildUnsignedBatchLockingPsbt,
+  deriveWatchOnlyDepositAddress,
+  finalizeClaimTransaction,
+  finalizeSignedLockingPsbt,
+  getAccountPath,
+  getAccountXpub,
+  getLockDescriptor,
+  signLockingPsbt,
+  type LockTerms,
+  type OpReturnMode,
+} from '../lib/bitcoin';
+
+const ECPair = ECPairFactory(tinysecp);
+
+// Private keys 1 and 2: the secp256k1 generator and its double, as compressed keys
+const KEY_1 = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const KEY_2 = '02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5';
+const privateKey = (n: number) => ECPair.fromPrivateKey(Buffer.concat([Buffer.alloc(31), Buffer.from([n])]));
+
+const UNLOCK_AT = 1_700_000_000;
+
+function witnessScriptAsm(terms: LockTerms): string {
+  return bitcoin.script.toASM(createLockPayment(terms, 'testnet').redeem!.output!);
+}
+
+describe('createLockPayment', () => {
+  it('locks a P2WSH output to the beneficiary key after the locktime', () => {
+    const terms: LockTerms = { lockType: 'p2wsh', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+    const locktime = bitcoin.script.number.encode(UNLOCK_AT).toString('hex');
+
+    assert.equal(witnessScriptAsm(terms), `${locktime} OP_CHECKLOCKTIMEVERIFY OP_DROP ${KEY_1} OP_CHECKSIG`);
+    assert.match(createLockPayment(terms, 'testnet').address!, /^tb1q[a-z0-9]{58}$/);
+    assert.match(createLockPayment(terms, 'mainnet').address!, /^bc1q[a-z0-9]{58}$/);
+  });
+
+  it('uses the miniscript template when asked', () => {
+    const terms: LockTerms = { lockType: 'p2wsh', script: 'miniscript', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+    const locktime = bitcoin.script.number.encode(UNLOCK_AT).toString('hex');
+
+    assert.equal(witnessScriptAsm(terms), `${KEY_1} OP_CHECKSIGVERIFY ${locktime} OP_CHECKLOCKTIMEVERIFY`);
+  });
+
+  it('puts the recovery branch behind OP_ELSE', () => {
+    const terms: LockTerms = {
+      lockType: 'p2wsh',
+      beneficiaryPubkey: KEY_1,
+      unlockLocktime: UNLOCK_AT,
+      recoveryPubkey: KEY_2,
+      recoveryTimestamp: UNLOCK_AT + 86_400,
+    };
+    const asm = witnessScriptAsm(terms).split(' ');
+
+    assert.equal(asm[0], 'OP_IF');
+    assert.equal(asm[asm.indexOf('OP_ELSE') + 4], KEY_2);
+    assert.equal(asm[asm.length - 1], 'OP_ENDIF');
+  });
+
+  it('gives every beneficiary key and locktime its own address', () => {
+    const base: LockTerms = { lockType: 'p2tr', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+    const addresses = new Set([
+      createLockPayment(base, 'testnet').address,
+      createLockPayment({ ...base, beneficiaryPubkey: KEY_2 }, 'testnet').address,
+      createLockPayment({ ...base, unlockLocktime: UNLOCK_AT + 1 }, 'testnet').address,
+    ]);
+
+    assert.equal(addresses.size, 3);
+    assert.match(createLockPayment(base, 'testnet').address!, /^tb1p/);
+  });
+
+  it('rejects an invalid beneficiary key', () => {
+    assert.throws(
+      () => createLockPayment({ lockType: 'p2wsh', beneficiaryPubkey: '02' + '00'.repeat(32), unlockLocktime: UNLOCK_AT }, 'testnet'),
+      /Invalid public key/
+    );
+  });
+});
+
+describe('decodeCLTVScript', () => {
+  for (const script of ['cltv', 'miniscript'] as const) {
+    for (const locktime of [16, 840_000, UNLOCK_AT, 2 ** 31 + 1]) {
+      it(`reads back a ${script} lock at ${locktime}`, () => {
+        const terms: LockTerms = { lockType: 'p2wsh', script, beneficiaryPubkey: KEY_1, unlockLocktime: locktime };
+
+        assert.deepEqual(decodeCLTVScript(createLockPayment(terms, 'testnet').redeem!.output!), {
+          locktime,
+          pubkey: KEY_1,
+        });
+      });
+    }
+  }
+
+  it('returns null for a script without OP_CHECKLOCKTIMEVERIFY', () => {
+    assert.equal(decodeCLTVScript(bitcoin.script.compile([Buffer.from(KEY_1, 'hex'), bitcoin.opcodes.OP_CHECKSIG])), null);
+  });
+});
+
+describe('addDescriptorChecksum', () => {
+  it('matches the BIP380 reference checksums', () => {
+    assert.equal(addDescriptorChecksum('raw(deadbeef)'), 'raw(deadbeef)#89f8spxm');
+    assert.equal(
+      addDescriptorChecksum('addr(mkmZxiEcEd8ZqjQWVZuC6so5dFMKEFpN2j)'),
+      'addr(mkmZxiEcEd8ZqjQWVZuC6so5dFMKEFpN2j)#02wpgw69'
+    );
+  });
+
+  it('rejects characters outside the descriptor charset', () => {
+    assert.throws(() => addDescriptorChecksum('raw(deadbeef)\n'), /Invalid descriptor character/);
+  });
+});
+
+describe('getLockDescriptor', () => {
+  it('describes a miniscript lock with its branches', () => {
+    const terms: LockTerms = {
+      lockType: 'p2wsh',
+      script: 'miniscript',
+      beneficiaryPubkey: KEY_1,
+      unlockLocktime: UNLOCK_AT,
+      recoveryPubkey: KEY_2,
+      recoveryTimestamp: UNLOCK_AT + 86_400,
+    };
+
+    assert.equal(
+      getLockDescriptor(terms, 'testnet'),
+      addDescriptorChecksum(
+        `wsh(or_i(and_v(v:pk(${KEY_1}),after(${UNLOCK_AT})),and_v(v:pk(${KEY_2}),after(${UNLOCK_AT + 86_400}))))`
+      )
+    );
+  });
+
+  it('falls back to addr() where miniscript can\'t describe the lock', () => {
+    const terms: LockTerms = { lockType: 'p2wsh', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+    const address = createLockPayment(terms, 'testnet').address;
+
+    assert.equal(getLockDescriptor(terms, 'testnet'), addDescriptorChecksum(`addr(${address})`));
+    assert.match(
+      getLockDescriptor({ ...terms, script: 'miniscript', unlockLocktime: 2 ** 31 }, 'testnet'),
+      /^addr\(/
+    );
+  });
+});
+
+describe('finalizeClaimTransaction', () => {
+  const LOCK_TXID = 'ab'.repeat(32);
+  const beneficiary = privateKey(1);
+  const sender = privateKey(2);
+  const destinationAddress = bitcoin.payments.p2wpkh({ pubkey: sender.publicKey, network: bitcoin.networks.testnet }).address!;
+
+  // Taproot leaves take a Schnorr signature by the x-only key
+  const sign = (psbtBase64: string, key: ECPairInterface, lockType: LockTerms['lockType']): string => {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: bitcoin.networks.testnet });
+    psbt.signInput(0, lockType === 'p2tr'
+      ? {
+          publicKey: key.publicKey.subarray(1, 33),
+          sign: () => { throw new Error('Schnorr only'); },
+          signSchnorr: hash => Buffer.from(tinysecp.signSchnorr(hash, key.privateKey!, Buffer.alloc(32))),
+        }
+      : key);
+    return psbt.toBase64();
+  };
+
+  for (const lockType of ['p2wsh', 'p2tr'] as const) {
+    const terms: LockTerms = {
+      lockType,
+      beneficiaryPubkey: KEY_1,
+      unlockLocktime: UNLOCK_AT,
+      recoveryPubkey: KEY_2,
+      recoveryTimestamp: UNLOCK_AT + 86_400,
+    };
+    const params = {
+      lockTxId: LOCK_TXID,
+      lockVout: 1,
+      lockAmountSats: 100_000,
+      lockTerms: terms,
+      destinationAddress,
+      feeRate: 2,
+      network: 'testnet' as const,
+    };
+    const claim = sign(buildClaimTransaction(params).psbt, beneficiary, lockType);
+    const recovery = sign(buildRecoveryTransaction(params).psbt, sender, lockType);
+
+    it(`finalizes a ${lockType} claim signed by the beneficiary`, () => {
+      const finalized = finalizeClaimTransaction(claim, terms, 'beneficiary', LOCK_TXID, 'testnet', 1);
+      const tx = bitcoin.Transaction.fromHex(finalized.txHex);
+
+      assert.equal(finalized.spendPath, 'beneficiary');
+      assert.equal(tx.locktime, UNLOCK_AT);
+      assert.equal(tx.ins[0].index, 1);
+    });
+
+    it(`finalizes a ${lockType} recovery signed by the sender`, () => {
+      const finalized = finalizeClaimTransaction(recovery, terms, 'recovery', LOCK_TXID, 'testnet', 1);
+
+      assert.equal(finalized.spendPath, 'recovery');
+      assert.equal(bitcoin.Transaction.fromHex(finalized.txHex).locktime, UNLOCK_AT + 86_400);
+    });
+
+    it(`rejects a ${lockType} PSBT signed for the other branch`, () => {
+      assert.throws(
+        () => finalizeClaimTransaction(recovery, terms, 'beneficiary', LOCK_TXID, 'testnet', 1),
+        /not signed with the beneficiary key/
+      );
+      assert.throws(
+        () => finalizeClaimTransaction(claim, terms, 'recovery', LOCK_TXID, 'testnet', 1),
+        /not signed with the recovery key/
+      );
+    });
+
+    it(`rejects a ${lockType} PSBT spending another output`, () => {
+      assert.throws(
+        () => finalizeClaimTransaction(claim, terms, 'beneficiary', LOCK_TXID, 'testnet', 0),
+        /does not spend this output/
+      );
+      assert.throws(
+        () => finalizeClaimTransaction(claim, terms, 'beneficiary', 'cd'.repeat(32), 'testnet'),
+        /does not spend this gift/
+      );
+    });
+  }
+
+  it('rejects an invalid signature', () => {
+    const terms: LockTerms = { lockType: 'p2wsh', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+    const psbt = bitcoin.Psbt.fromBase64(
+      sign(buildClaimTransaction({
+        lockTxId: LOCK_TXID,
+        lockVout: 0,
+        lockAmountSats: 100_000,
+        lockTerms: terms,
+        destinationAddress,
+        feeRate: 2,
+        network: 'testnet',
+      }).psbt, beneficiary, 'p2wsh'),
+      { network: bitcoin.networks.testnet }
+    );
+    const { partialSig } = psbt.data.inputs[0];
+    partialSig![0].signature = bitcoin.script.signature.encode(Buffer.alloc(64, 1), bitcoin.Transaction.SIGHASH_ALL);
+
+    assert.throws(
+      () => finalizeClaimTransaction(psbt.toBase64(), terms, 'beneficiary', LOCK_TXID, 'testnet', 0),
+      /not signed with the beneficiary key/
+    );
+  });
+});
+
+describe('signLockingPsbt', () => {
+  const SEED = '01'.repeat(32);
+  const accountPath = getAccountPath('testnet');
+  const { xpub, masterFingerprint } = getAccountXpub(SEED, 'testnet', accountPath);
+  const address = (key: ECPairInterface) =>
+    bitcoin.payments.p2wpkh({ pubkey: key.publicKey, network: bitcoin.networks.testnet }).address!;
+  const feeAddress = address(privateKey(3));
+  const otherAddress = address(privateKey(4));
+
+  const first: LockTerms = { lockType: 'p2wsh', beneficiaryPubkey: KEY_1, unlockLocktime: UNLOCK_AT };
+  const second: LockTerms = { lockType: 'p2tr', beneficiaryPubkey: KEY_2, unlockLocktime: UNLOCK_AT };
+  const expected = { feeAddress, lockTerms: [first, second] };
+
+  // Two gifts locked in one tx, each from its own deposit
+  const buildPsbt = (opReturn: OpReturnMode, feeSats = 1_000, fee = feeAddress) => buildUnsignedBatchLockingPsbt({
+    entries: [first, second].map((lockTerms, i) => ({
+      giftId: `gift-${i}`,
+      utxos: [{ txid: `${i}`.repeat(64), vout: 0, amount: 50_000 }],
+      lockTerms,
+      feeSats,
+      depositKey: deriveWatchOnlyDepositAddress(xpub, masterFingerprint, accountPath, i, 'testnet').depositKey,
+    })),
+    feeAddress: fee,
+    opReturn,
+    feeRate: 2,
+    network: 'testnet',
+  });
+
+  const withOutputs = (psbtBase64: string, change: (psbt: bitcoin.Psbt) => void): string => {
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: bitcoin.networks.testnet });
+    change(psbt);
+    return psbt.toBase64();
+  };
+
+  for (const opReturn of ['commitment', 'none'] as const) {
+    it(`signs a lock PSBT paying the fee and the expected locks (${opReturn})`, () => {
+      const unsigned = buildPsbt(opReturn);
+      const signed = signLockingPsbt(unsigned.psbt, SEED, expected, 'testnet');
+
+      assert.equal(finalizeSignedLockingPsbt(signed, unsigned.txid, 'testnet').txid, unsigned.txid);
+    });
+  }
+
+  it('signs a lock PSBT without a fee output when the fee was dust', () => {
+    assert.doesNotThrow(() => signLockingPsbt(buildPsbt('commitment', 0).psbt, SEED, expected, 'testnet'));
+  });
+
+  it('refuses a fee output to another address', () => {
+    assert.throws(
+      () => signLockingPsbt(buildPsbt('commitment', 1_000, otherAddress).psbt, SEED, expected, 'testnet'),
+      /Output 0 is not the expected lock output/
+    );
+  });
+
+  it('refuses lock outputs that don\'t match their terms', () => {
+    const { psbt } = buildPsbt('commitment');
+
+    assert.throws(
+      () => signLockingPsbt(psbt, SEED, { feeAddress, lockTerms: [first, { ...second, beneficiaryPubkey: KEY_1 }] }, 'testnet'),
+      /Output 2 is not the expected lock output/
+    );
+    assert.throws(
+      () => signLockingPsbt(psbt, SEED, { feeAddress, lockTerms: [first] }, 'testnet'),
+      /Unexpected output 2/
+    );
+    assert.throws(() => signLockingPsbt(psbt, SEED, { feeAddress, lockTerms: [] }, 'testnet'), /No lock outputs/);
+  });
+
+  it('refuses any extra output', () => {
+    for (const opReturn of ['commitment', 'none'] as const) {
+      const psbt = withOutputs(buildPsbt(opReturn).psbt, p => p.addOutput({ address: otherAddress, value: 1_000 }));
+
+      assert.throws(() => signLockingPsbt(psbt, SEED, expected, 'testnet'), /Unexpected output/);
+    }
+  });
+
+  it('refuses inputs that are not deposits of its seed', () => {
+    const { psbt } = buildPsbt('commitment');
+
+    assert.throws(() => signLockingPsbt(psbt, '02'.repeat(32), expected, 'testnet'), /not a deposit of this wallet/);
+  });
+});
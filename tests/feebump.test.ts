@@ -0,0 +1,66 @@
+/**
+ * Tests for the fee bump rules in lib/feebump.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bumpFeeRate } from '../lib/bitcoin';
+import { isDueForBump, type FeeBumpPolicy } from '../lib/feebump';
+import type { Gift } from '../lib/supabase';
+
+const POLICY: FeeBumpPolicy = {
+  delayMinutes: 60,
+  maxFeeRate: 200,
+  targetBlocks: 2,
+  feeWalletWif: null,
+};
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+// Only the fields isDueForBump reads
+function lockedGift(overrides: Partial<Gift> = {}): Gift {
+  return {
+    status: 'locked',
+    lock_txid: 'ab'.repeat(32),
+    lock_confirmations: 0,
+    lock_broadcast_at: '2026-01-01T10:00:00Z',
+    locked_at: '2026-01-01T10:00:00Z',
+    created_at: '2026-01-01T09:00:00Z',
+    ...overrides,
+  } as Gift;
+}
+
+describe('bumpFeeRate', () => {
+  it('raises the rate by at least 25% and 1 sat/vB', () => {
+    assert.equal(bumpFeeRate(10, 5, 200), 13);
+    assert.equal(bumpFeeRate(2, 1, 200), 3);
+  });
+
+  it('goes straight to the target rate when that is higher', () => {
+    assert.equal(bumpFeeRate(10, 40, 200), 40);
+    assert.equal(bumpFeeRate(10, 40.2, 200), 41);
+  });
+
+  it('never goes above the maximum', () => {
+    assert.equal(bumpFeeRate(10, 500, 200), 200);
+    assert.equal(bumpFeeRate(190, 5, 200), 200);
+  });
+});
+
+describe('isDueForBump', () => {
+  it('bumps an unconfirmed lock once the delay has passed', () => {
+    assert.equal(isDueForBump(lockedGift(), POLICY, NOW), true);
+    assert.equal(isDueForBump(lockedGift({ lock_broadcast_at: '2026-01-01T11:30:00Z' }), POLICY, NOW), false);
+  });
+
+  it('counts the delay from the latest broadcast, falling back to the lock time', () => {
+    assert.equal(isDueForBump(lockedGift({ lock_broadcast_at: '2026-01-01T11:00:00Z' }), POLICY, NOW), true);
+    assert.equal(isDueForBump(lockedGift({ lock_broadcast_at: null, locked_at: '2026-01-01T11:30:00Z' }), POLICY, NOW), false);
+  });
+
+  it('leaves confirmed, unlocked and unbroadcast gifts alone', () => {
+    assert.equal(isDueForBump(lockedGift({ lock_confirmations: 1 }), POLICY, NOW), false);
+    assert.equal(isDueForBump(lockedGift({ status: 'pending' }), POLICY, NOW), false);
+    assert.equal(isDueForBump(lockedGift({ lock_txid: null }), POLICY, NOW), false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the fee policy in lib/fees.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getFeePolicy, getGiftFeeSats, quoteFee, type FeePolicy } from '../lib/fees';
+
+const POLICY: FeePolicy = {
+  percent: 1,
+  flatSats: 0,
+  minSats: 0,
+  maxSats: null,
+  amountTiers: [],
+  durationTiers: [],
+  promoCodes: {},
+};
+
+describe('quoteFee', () => {
+  it('charges the percentage plus the flat fee', () => {
+    const quote = quoteFee({ amountSats: 1_000_000, lockDays: 365 }, { ...POLICY, flatSats: 500 });
+
+    assert.equal(quote.baseSats, 10_500);
+    assert.equal(quote.feeSats, 10_500);
+    assert.equal(quote.feeOutputSats, 10_500);
+  });
+
+  it('keeps the fee between the minimum and maximum', () => {
+    const policy = { ...POLICY, minSats: 2_000, maxSats: 50_000 };
+
+    assert.equal(quoteFee({ amountSats: 100_000, lockDays: 30 }, policy).feeSats, 2_000);
+    assert.equal(quoteFee({ amountSats: 100_000_000, lockDays: 30 }, policy).feeSats, 50_000);
+  });
+
+  it('takes the highest tier reached, and the lower of the amount and duration tiers', () => {
+    const policy = {
+      ...POLICY,
+      amountTiers: [{ min: 1_000_000, percent: 0.5 }, { min: 10_000_000, percent: 0.25 }],
+      durationTiers: [{ min: 3650, percent: 0.4 }],
+    };
+
+    assert.equal(quoteFee({ amountSats: 500_000, lockDays: 30 }, policy).percent, 1);
+    assert.equal(quoteFee({ amountSats: 20_000_000, lockDays: 30 }, policy).percent, 0.25);
+    assert.equal(quoteFee({ amountSats: 2_000_000, lockDays: 30 }, policy).percent, 0.5);
+    assert.equal(quoteFee({ amountSats: 2_000_000, lockDays: 3650 }, policy).percent, 0.4);
+  });
+
+  it('takes a promo off last, below the minimum if need be', () => {
+    const policy = { ...POLICY, minSats: 2_000, promoCodes: { HALF: { percent: 50 }, FRIEND: { sats: 5_000 } } };
+
+    const half = quoteFee({ amountSats: 100_000, lockDays: 30, promoCode: ' half ' }, policy);
+    assert.equal(half.promoCode, 'HALF');
+    assert.equal(half.discountSats, 1_000);
+    assert.equal(half.feeSats, 1_000);
+
+    const friend = quoteFee({ amountSats: 100_000, lockDays: 30, promoCode: 'FRIEND' }, policy);
+    assert.equal(friend.discountSats, 2_000);
+    assert.equal(friend.feeSats, 0);
+  });
+
+  it('rejects an unknown promo code', () => {
+    assert.throws(() => quoteFee({ amountSats: 100_000, lockDays: 30, promoCode: 'NOPE' }, POLICY), /Unknown promo code/);
+  });
+
+  it('leaves a dust-sized fee to the miners', () => {
+    const quote = quoteFee({ amountSats: 50_000, lockDays: 30 }, POLICY);
+
+    assert.equal(quote.feeSats, 500);
+    assert.equal(quote.feeOutputSats, 0);
+  });
+});
+
+describe('getFeePolicy', () => {
+  it('reads tiers and promo codes from env, skipping bad entries', () => {
+    const saved = { ...process.env };
+    Object.assign(process.env, {
+      FEE_PERCENT: '2',
+      FEE_MAX_SATS: '100000',
+      FEE_AMOUNT_TIERS: '1000000:0.5,bad,10000000:-1',
+      FEE_PROMO_CODES: 'launch:150%,friend:1000,broken',
+    });
+    try {
+      const policy = getFeePolicy();
+
+      assert.equal(policy.percent, 2);
+      assert.equal(policy.maxSats, 100_000);
+      assert.deepEqual(policy.amountTiers, [{ min: 1_000_000, percent: 0.5 }]);
+      assert.deepEqual(policy.promoCodes, { LAUNCH: { percent: 100 }, FRIEND: { sats: 1_000 } });
+    } finally {
+      process.env = saved;
+    }
+  });
+});
+
+describe('getGiftFeeSats', () => {
+  it('charges the quoted fee, or the percentage for gifts without a quote', () => {
+    assert.equal(getGiftFeeSats({ fee_sats: 1_234, fee_percent: 1 }, 1_000_000), 1_234);
+    assert.equal(getGiftFeeSats({ fee_sats: null, fee_percent: 1 }, 1_000_000), 10_000);
+  });
+});